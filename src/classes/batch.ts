@@ -0,0 +1,211 @@
+import {
+  BatchOptions,
+  BatchResult,
+  MatcherTrack,
+  MatcherTrackGetParams,
+  RequestOptions,
+  TrackGet,
+  TrackGetParams,
+  TrackLyrics,
+  TrackLyricsGetParams,
+  TrackLyricsMoodGetParams,
+  TrackMood
+} from '../interfaces';
+import { AbortError, MusixmatchError } from './expectations';
+import { buildQueryParams } from './params';
+import type { Musixmatch } from './musixmatch';
+
+type Outcome<T> =
+  { status: 'fulfilled'; value: T } | { status: 'rejected'; reason: unknown };
+
+/**
+ * Runs many lookups of the same endpoint with a bounded number of requests
+ * in flight.
+ *
+ * Results come back in input order, one per item. Identical requests are
+ * sent once and share their outcome. A failing item does not stop the
+ * others: it is reported as `rejected` with its error.
+ */
+class Batch {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the Batch class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Gets many tracks, e.g. from a list of ISRCs.
+   * @param requests - The parameters of each lookup.
+   * @param options - The batch options.
+   */
+  trackGet(
+    requests: TrackGetParams[],
+    options?: BatchOptions
+  ): Promise<Array<BatchResult<TrackGetParams, TrackGet>>> {
+    return this.run(
+      'track.get',
+      (params, requestOptions) => this.client.trackGet(params, requestOptions),
+      requests,
+      options
+    );
+  }
+
+  /**
+   * Gets the lyrics of many tracks.
+   * @param requests - The parameters of each lookup.
+   * @param options - The batch options.
+   */
+  trackLyricsGet(
+    requests: TrackLyricsGetParams[],
+    options?: BatchOptions
+  ): Promise<Array<BatchResult<TrackLyricsGetParams, TrackLyrics>>> {
+    return this.run(
+      'track.lyrics.get',
+      (params, requestOptions) =>
+        this.client.trackLyricsGet(params, requestOptions),
+      requests,
+      options
+    );
+  }
+
+  /**
+   * Matches many tracks by title and artist.
+   * @param requests - The parameters of each lookup.
+   * @param options - The batch options.
+   */
+  matcherTrackGet(
+    requests: MatcherTrackGetParams[],
+    options?: BatchOptions
+  ): Promise<Array<BatchResult<MatcherTrackGetParams, MatcherTrack>>> {
+    return this.run(
+      'matcher.track.get',
+      (params, requestOptions) =>
+        this.client.matcherTrackGet(params, requestOptions),
+      requests,
+      options
+    );
+  }
+
+  /**
+   * Gets the mood of many tracks.
+   * @param requests - The parameters of each lookup.
+   * @param options - The batch options.
+   */
+  trackLyricsMoodGet(
+    requests: TrackLyricsMoodGetParams[],
+    options?: BatchOptions
+  ): Promise<Array<BatchResult<TrackLyricsMoodGetParams, TrackMood>>> {
+    return this.run(
+      'track.lyrics.mood.get',
+      (params, requestOptions) =>
+        this.client.trackLyricsMoodGet(params, requestOptions),
+      requests,
+      options
+    );
+  }
+
+  /**
+   * Groups identical requests, then lets `concurrency` workers send them.
+   * @param apiMethod - The API method, used to normalize the parameters.
+   * @param call - Sends a single request.
+   * @param requests - The parameters of each item.
+   * @param options - The batch options.
+   * @throws MusixmatchError - When `concurrency` is not a positive integer.
+   */
+  private async run<P, T>(
+    apiMethod: string,
+    call: (params: P, options: RequestOptions) => Promise<T>,
+    requests: P[],
+    options: BatchOptions = {}
+  ): Promise<Array<BatchResult<P, T>>> {
+    const { concurrency = 5, onProgress, ...requestOptions } = options;
+    if (!(concurrency >= 1) || concurrency % 1 !== 0) {
+      throw new MusixmatchError('concurrency must be a positive integer.');
+    }
+    const signal = options.signal;
+    const results: Array<BatchResult<P, T>> = new Array(requests.length);
+    const groups: Array<{ params: P; indexes: number[] }> = [];
+    const groupByKey: { [key: string]: number } = {};
+    let completed = 0;
+    let failed = 0;
+
+    const settle = (indexes: number[], outcome: Outcome<T>) => {
+      indexes.forEach((index) => {
+        results[index] = { ...outcome, params: requests[index] };
+      });
+      completed += indexes.length;
+      if (outcome.status === 'rejected') {
+        failed += indexes.length;
+      }
+      if (onProgress) {
+        onProgress({ completed, failed, total: requests.length });
+      }
+    };
+
+    requests.forEach((params, index) => {
+      let key: string;
+      try {
+        key = requestKey(apiMethod, params);
+      } catch (error) {
+        settle([index], { status: 'rejected', reason: error });
+        return;
+      }
+      if (groupByKey[key] === undefined) {
+        groupByKey[key] = groups.length;
+        groups.push({ params, indexes: [] });
+      }
+      groups[groupByKey[key]].indexes.push(index);
+    });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < groups.length) {
+        const group = groups[next++];
+        if (signal?.aborted) {
+          settle(group.indexes, {
+            status: 'rejected',
+            reason: new AbortError('The batch was aborted')
+          });
+          continue;
+        }
+        let outcome: Outcome<T>;
+        try {
+          outcome = {
+            status: 'fulfilled',
+            value: await call(group.params, requestOptions)
+          };
+        } catch (error) {
+          outcome = { status: 'rejected', reason: error };
+        }
+        // Outside the try: an error thrown by onProgress is not the item's.
+        settle(group.indexes, outcome);
+      }
+    };
+
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(concurrency, groups.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+    return results;
+  }
+}
+
+/**
+ * Builds the key identical requests share: the normalized parameters,
+ * sorted by name.
+ * @throws InvalidParamsError - When the parameters are invalid.
+ */
+function requestKey(apiMethod: string, params: unknown): string {
+  const query = buildQueryParams(apiMethod, [params as object]);
+  return Object.keys(query)
+    .sort()
+    .map((key) => `${key}=${query[key]}`)
+    .join('&');
+}
+
+export { Batch };
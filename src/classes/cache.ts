@@ -0,0 +1,148 @@
+import { CacheOptions, CacheStore } from '../interfaces';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Default time to live per API method. Lyrics, syncs and genres rarely change.
+ */
+const DEFAULT_CACHE_TTLS: { [apiMethod: string]: number } = {
+  'track.lyrics.get': 24 * HOUR,
+  'track.subtitle.get': 24 * HOUR,
+  'track.richsync.get': 24 * HOUR,
+  'track.lyrics.translation.get': 24 * HOUR,
+  'track.subtitle.translation.get': 24 * HOUR,
+  'track.lyrics.mood.get': 24 * HOUR,
+  'track.snippet.get': 24 * HOUR,
+  'music.genres.get': 7 * 24 * HOUR
+};
+
+/**
+ * Deep-copies a response. Responses are parsed JSON, so a JSON round trip
+ * keeps everything.
+ * @param value - The response, or `undefined`.
+ * @returns The copy.
+ */
+function copy(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * An in-memory store that evicts the least recently used entry once
+ * `maxEntries` is reached.
+ */
+class MemoryCacheStore implements CacheStore {
+  private maxEntries: number;
+  private entries = new Map<string, { value: any; expiresAt: number }>();
+
+  /**
+   * Constructs a new instance of the MemoryCacheStore class.
+   * @param maxEntries - The maximum number of entries. Defaults to 500.
+   */
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Re-insert so the entry becomes the most recently used.
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Caches API responses by API method and parameters.
+ */
+class ResponseCache {
+  private store: CacheStore;
+  private ttl: { [apiMethod: string]: number };
+  private defaultTtlMs: number;
+
+  /**
+   * Constructs a new instance of the ResponseCache class.
+   * @param options - The cache settings.
+   */
+  constructor(options: CacheOptions) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = { ...DEFAULT_CACHE_TTLS, ...options.ttl };
+    this.defaultTtlMs = options.defaultTtlMs ?? 0;
+  }
+
+  /**
+   * Gets the time to live of an API method.
+   * @param apiMethod - The API method.
+   * @returns The time to live in milliseconds, 0 when not cached.
+   */
+  ttlOf(apiMethod: string): number {
+    const ttl = this.ttl[apiMethod];
+    return ttl !== undefined ? ttl : this.defaultTtlMs;
+  }
+
+  /**
+   * Builds the cache key of a call. Keys are sorted and the apikey is left
+   * out, so the same call always maps to the same entry.
+   * @param apiMethod - The API method.
+   * @param params - The query parameters.
+   * @returns The cache key.
+   */
+  key(apiMethod: string, params: { [key: string]: unknown }): string {
+    const query = Object.keys(params)
+      .filter((key) => key !== 'apikey' && params[key] !== undefined)
+      .sort()
+      .map((key) => `${key}=${String(params[key])}`)
+      .join('&');
+    return `${apiMethod}?${query}`;
+  }
+
+  /**
+   * Gets a cached response. It is a copy, so a caller changing it does not
+   * change the cache.
+   * @param key - The cache key.
+   * @returns The response, or `undefined` on a miss.
+   */
+  async get(key: string): Promise<any> {
+    return copy(await this.store.get(key));
+  }
+
+  /**
+   * Caches a copy of a response.
+   * @param key - The cache key.
+   * @param value - The response.
+   * @param ttlMs - The time to live in milliseconds.
+   */
+  async set(key: string, value: any, ttlMs: number): Promise<void> {
+    await this.store.set(key, copy(value), ttlMs);
+  }
+
+  /**
+   * Removes every cached response.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+export { DEFAULT_CACHE_TTLS, MemoryCacheStore, ResponseCache };
@@ -0,0 +1,158 @@
+import {
+  ComplianceDisplay,
+  ComplianceOptions,
+  LicensedContent,
+  RawLicensedContent
+} from '../interfaces';
+import { MusixmatchError, RestrictedContentError } from './expectations';
+
+const DEFAULT_NOTICE = 'Lyrics powered by www.musixmatch.com';
+
+type Content = LicensedContent | RawLicensedContent;
+
+/**
+ * Reads the licence terms of content in either shape: a camelCase model,
+ * whose `restricted` is a boolean, or a raw payload with a 0/1 flag.
+ */
+function termsOf(content: Content): LicensedContent {
+  if (typeof content.restricted === 'boolean') {
+    return content as LicensedContent;
+  }
+  const raw = content as RawLicensedContent;
+  return {
+    restricted: Number(raw.restricted) === 1,
+    copyright: raw.lyrics_copyright,
+    scriptTrackingUrl: raw.script_tracking_url,
+    pixelTrackingUrl: raw.pixel_tracking_url,
+    htmlTrackingUrl: raw.html_tracking_url
+  };
+}
+
+/**
+ * Applies the licence terms to lyrics, subtitles, richsync, snippets and
+ * translations before they are shown to an end user. Content can be a
+ * camelCase model (`mxm.tracks.lyrics`) or a raw payload
+ * (`message.body.lyrics` of `trackLyricsGet`).
+ *
+ * Content is restricted when the API flags it as `restricted`, or when
+ * `allowedCountries` is set and does not include the end user's `country`.
+ * Restricted content throws a `RestrictedContentError` or is dropped,
+ * depending on `onRestricted`. {@link Compliance.display} also returns the
+ * copyright notice to show and loads, or returns, the tracking pixel.
+ */
+class Compliance {
+  private options: ComplianceOptions;
+  private sendPixel: ((url: string) => Promise<unknown>) | undefined;
+
+  /**
+   * Constructs a new instance of the Compliance class.
+   * @param options - The compliance settings.
+   * @throws MusixmatchError - When `pixels` is `fire` and no fetch implementation is available.
+   */
+  constructor(options: ComplianceOptions = {}) {
+    this.options = options;
+    const globalFetch =
+      typeof globalThis !== 'undefined' ? (globalThis as any).fetch : undefined;
+    this.sendPixel =
+      options.sendPixel ??
+      (typeof globalFetch === 'function'
+        ? (url: string) => globalFetch.call(globalThis, url)
+        : undefined);
+    if (options.pixels === 'fire' && !this.sendPixel) {
+      throw new MusixmatchError(
+        'No fetch implementation is available to fire tracking pixels, pass sendPixel.'
+      );
+    }
+  }
+
+  /**
+   * Tells whether content cannot be shown to the end user.
+   * @param content - The content.
+   */
+  isRestricted(content: Content): boolean {
+    const { country, allowedCountries } = this.options;
+    if (termsOf(content).restricted) {
+      return true;
+    }
+    if (!allowedCountries) {
+      return false;
+    }
+    return (
+      !country ||
+      !allowedCountries.some(
+        (allowed) => allowed.toUpperCase() === country.toUpperCase()
+      )
+    );
+  }
+
+  /**
+   * Checks that content can be shown to the end user.
+   * @param content - The content.
+   * @returns The content, or `null` when it is restricted and `onRestricted` is `filter`.
+   * @throws RestrictedContentError - When it is restricted and `onRestricted` is `throw`.
+   */
+  check<T extends Content>(content: T): T | null {
+    if (!this.isRestricted(content)) {
+      return content;
+    }
+    if (this.options.onRestricted === 'filter') {
+      return null;
+    }
+    throw new RestrictedContentError(this.options.country?.toUpperCase());
+  }
+
+  /**
+   * Drops the content that cannot be shown to the end user, whatever
+   * `onRestricted` is.
+   * @param contents - The content.
+   */
+  filter<T extends Content>(contents: T[]): T[] {
+    return contents.filter((content) => !this.isRestricted(content));
+  }
+
+  /**
+   * The copyright notice to show next to the content, falling back to the
+   * Musixmatch attribution.
+   * @param content - The content.
+   */
+  notice(content: Content): string {
+    const copyright = termsOf(content).copyright?.trim();
+    return copyright || (this.options.defaultNotice ?? DEFAULT_NOTICE);
+  }
+
+  /**
+   * Prepares one display of the content: checks the restriction, and returns
+   * the notice and the tracking URLs. When `pixels` is `fire`, the tracking
+   * pixel is loaded too; if that fails, `pixelFired` is `false` so the caller
+   * can load `pixelUrl` itself. Call it every time the content is shown.
+   * @param content - The content.
+   * @returns What to show, or `null` when the content is restricted and `onRestricted` is `filter`.
+   * @throws RestrictedContentError - When it is restricted and `onRestricted` is `throw`.
+   */
+  async display<T extends Content>(
+    content: T
+  ): Promise<ComplianceDisplay<T> | null> {
+    if (!this.check(content)) {
+      return null;
+    }
+    const terms = termsOf(content);
+    const pixelUrl = terms.pixelTrackingUrl || undefined;
+    let pixelFired = false;
+    if (pixelUrl && this.options.pixels === 'fire' && this.sendPixel) {
+      pixelFired = await this.sendPixel(pixelUrl).then(
+        () => true,
+        () => false
+      );
+    }
+    return {
+      content,
+      notice: this.notice(content),
+      pixelUrl,
+      pixelFired,
+      scriptUrl: terms.scriptTrackingUrl || undefined,
+      htmlUrl: terms.htmlTrackingUrl || undefined
+    };
+  }
+}
+
+export { Compliance };
@@ -0,0 +1,128 @@
+/**
+ * Bounds a call in time: fails when the caller's signal is aborted or when
+ * `timeoutMs` has elapsed, whichever comes first.
+ *
+ * Every wait of the call goes through {@link Deadline.race}, and `signal` is
+ * handed to the transport so it can stop the underlying request.
+ */
+class Deadline {
+  /** Aborted when the deadline fails. Undefined when AbortController is not available. */
+  readonly signal?: AbortSignal;
+  /** Why the deadline failed, if it did. */
+  error?: Error;
+
+  private controller?: AbortController;
+  private userSignal?: AbortSignal;
+  private timer?: ReturnType<typeof setTimeout>;
+  private waiters: Array<(error: Error) => void> = [];
+  private createAbortError: () => Error;
+  private createTimeoutError: () => Error;
+  private onUserAbort = () => this.fail(this.createAbortError());
+
+  /**
+   * Constructs a new instance of the Deadline class.
+   * @param signal - The caller's signal.
+   * @param timeoutMs - The time allowed, in milliseconds. No limit when not set.
+   * @param createAbortError - Builds the error thrown when the signal is aborted.
+   * @param createTimeoutError - Builds the error thrown when the time is up.
+   */
+  constructor(
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined,
+    createAbortError: () => Error,
+    createTimeoutError: () => Error
+  ) {
+    this.createAbortError = createAbortError;
+    this.createTimeoutError = createTimeoutError;
+    if (typeof AbortController !== 'undefined') {
+      this.controller = new AbortController();
+      this.signal = this.controller.signal;
+    }
+    if (signal) {
+      if (signal.aborted) {
+        this.fail(createAbortError());
+        return;
+      }
+      this.userSignal = signal;
+      signal.addEventListener('abort', this.onUserAbort);
+    }
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      this.timer = setTimeout(
+        () => this.fail(this.createTimeoutError()),
+        timeoutMs
+      );
+    }
+  }
+
+  /**
+   * Throws when the deadline has already failed.
+   */
+  check(): void {
+    if (this.error) {
+      throw this.error;
+    }
+  }
+
+  /**
+   * Waits for a promise, or rejects as soon as the deadline fails.
+   * @param promise - The promise to wait for.
+   * @returns The value of the promise.
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    if (this.error) {
+      // Swallow a late rejection of the promise that nobody waits for anymore.
+      promise.then(undefined, () => undefined);
+      return Promise.reject(this.error);
+    }
+    return new Promise<T>((resolve, reject) => {
+      const waiter = (error: Error) => reject(error);
+      this.waiters.push(waiter);
+      const done = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+      };
+      promise.then(
+        (value) => {
+          done();
+          resolve(value);
+        },
+        (error) => {
+          done();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Stops the timer and the signal listener. Call it once the call is over.
+   */
+  dispose(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.userSignal) {
+      this.userSignal.removeEventListener('abort', this.onUserAbort);
+      this.userSignal = undefined;
+    }
+    this.waiters = [];
+  }
+
+  private fail(error: Error): void {
+    if (this.error) {
+      return;
+    }
+    this.error = error;
+    const waiters = this.waiters;
+    this.dispose();
+    if (this.controller) {
+      this.controller.abort();
+    }
+    waiters.forEach((waiter) => waiter(error));
+  }
+}
+
+export { Deadline };
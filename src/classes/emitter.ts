@@ -0,0 +1,71 @@
+/**
+ * A minimal typed event emitter, so the client does not depend on Node's
+ * `events` module and keeps working on edge runtimes.
+ * @typeParam E - The payload type of each event, keyed by event name.
+ */
+class Emitter<E> {
+  private listeners: { [K in keyof E]?: Array<(payload: E[K]) => void> } = {};
+
+  /**
+   * Adds a listener.
+   * @param event - The event name.
+   * @param listener - Called with the payload of every event.
+   * @returns The emitter, for chaining.
+   */
+  on<K extends keyof E>(event: K, listener: (payload: E[K]) => void): this {
+    (this.listeners[event] = this.listeners[event] ?? []).push(listener);
+    return this;
+  }
+
+  /**
+   * Adds a listener that is removed after its first call.
+   * @param event - The event name.
+   * @param listener - Called with the payload of the next event.
+   * @returns The emitter, for chaining.
+   */
+  once<K extends keyof E>(event: K, listener: (payload: E[K]) => void): this {
+    const wrapper = (payload: E[K]) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Removes a listener.
+   * @param event - The event name.
+   * @param listener - The listener passed to `on`.
+   * @returns The emitter, for chaining.
+   */
+  off<K extends keyof E>(event: K, listener: (payload: E[K]) => void): this {
+    const listeners = this.listeners[event];
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Calls the listeners of an event, in the order they were added.
+   * @param event - The event name.
+   * @param payload - The payload.
+   */
+  emit<K extends keyof E>(event: K, payload: E[K]): void {
+    (this.listeners[event] ?? [])
+      .slice()
+      .forEach((listener) => listener(payload));
+  }
+
+  /**
+   * Tells whether an event has listeners, so payloads are only built when needed.
+   * @param event - The event name.
+   */
+  listenerCount<K extends keyof E>(event: K): number {
+    return (this.listeners[event] ?? []).length;
+  }
+}
+
+export { Emitter };
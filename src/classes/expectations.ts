@@ -1,4 +1,50 @@
-class MXMException extends Error {
+import {
+  MusixmatchErrorKind,
+  RequestErrorContext,
+  ValidationIssue
+} from '../interfaces';
+
+class MusixmatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'MusixmatchError';
+  }
+}
+
+/**
+ * Base class of the errors thrown for a request that was sent. `kind` tells
+ * the subclasses apart, so callers can `switch` on it or use `instanceof`.
+ */
+class MusixmatchRequestError extends MusixmatchError {
+  kind: MusixmatchErrorKind;
+  apiMethod: string;
+  params: { [key: string]: string | number | undefined };
+  hint?: string;
+  execute_time?: number;
+  cause?: unknown;
+
+  constructor(
+    kind: MusixmatchErrorKind,
+    message: string,
+    context: RequestErrorContext
+  ) {
+    super(message);
+    this.name = 'MusixmatchRequestError';
+    this.kind = kind;
+    this.apiMethod = context.apiMethod;
+    this.params = context.params;
+    this.hint = context.hint;
+    this.execute_time = context.execute_time;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * Thrown when the API answers with an error status, either in the response
+ * header or at the HTTP level.
+ */
+class MXMException extends MusixmatchRequestError {
   static codes: { [key: number]: string } = {
     400: 'The request had bad syntax or was inherently impossible to be satisfied.',
     401: 'Authentication failed, probably because of invalid/missing API key.',
@@ -10,14 +56,21 @@ class MXMException extends Error {
     503: "Our system is a bit busy at the moment and your request can't be satisfied."
   };
 
+  kind: 'api' | 'auth' | 'quota' | 'not_found' | 'rate_limited';
   status_code: number;
   message: string;
   requestURL: string;
 
-  constructor(status_code: number, requestURL: string, message?: string) {
+  constructor(
+    status_code: number,
+    requestURL: string,
+    message?: string,
+    context?: RequestErrorContext
+  ) {
     const errorMessage =
       message ?? MXMException.codes[status_code] ?? 'Unknown Error';
-    super(errorMessage);
+    super('api', errorMessage, context ?? { apiMethod: '', params: {} });
+    this.kind = 'api';
     this.status_code = status_code;
     this.message = errorMessage;
     this.requestURL = requestURL;
@@ -35,11 +88,285 @@ class MXMException extends Error {
   }
 }
 
-class MusixmatchError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'MusixmatchError';
+/**
+ * Thrown on a 401: the API key is invalid or missing.
+ */
+class AuthError extends MXMException {
+  kind: 'auth';
+
+  constructor(requestURL: string, context: RequestErrorContext) {
+    super(401, requestURL, context.hint, context);
+    this.kind = 'auth';
+  }
+}
+
+/**
+ * Thrown on a 402: the daily limit of the API key has been reached.
+ */
+class QuotaExceededError extends MXMException {
+  kind: 'quota';
+
+  constructor(requestURL: string, context: RequestErrorContext) {
+    super(402, requestURL, context.hint, context);
+    this.kind = 'quota';
+  }
+}
+
+/**
+ * Thrown on a 404: the requested resource does not exist.
+ */
+class NotFoundError extends MXMException {
+  kind: 'not_found';
+
+  constructor(requestURL: string, context: RequestErrorContext) {
+    super(404, requestURL, context.hint, context);
+    this.kind = 'not_found';
+  }
+}
+
+/**
+ * Thrown on a 429 or a 503: the API is throttling requests.
+ */
+class RateLimitedError extends MXMException {
+  kind: 'rate_limited';
+
+  constructor(
+    status_code: number,
+    requestURL: string,
+    context: RequestErrorContext
+  ) {
+    super(status_code, requestURL, context.hint, context);
+    this.kind = 'rate_limited';
+  }
+}
+
+/**
+ * Thrown when no response was received (connection refused, reset, DNS).
+ */
+class NetworkError extends MusixmatchRequestError {
+  kind: 'network';
+  code?: string;
+
+  constructor(message: string, context: RequestErrorContext, code?: string) {
+    super('network', message, context);
+    this.name = 'NetworkError';
+    this.kind = 'network';
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when the request took too long.
+ */
+class TimeoutError extends MusixmatchRequestError {
+  kind: 'timeout';
+
+  constructor(message: string, context: RequestErrorContext) {
+    super('timeout', message, context);
+    this.name = 'TimeoutError';
+    this.kind = 'timeout';
+  }
+}
+
+/**
+ * Thrown when a call is cancelled through an AbortSignal.
+ */
+class AbortError extends MusixmatchRequestError {
+  kind: 'aborted';
+
+  constructor(
+    message: string = 'The request was aborted',
+    context?: RequestErrorContext
+  ) {
+    super('aborted', message, context ?? { apiMethod: '', params: {} });
+    this.name = 'AbortError';
+    this.kind = 'aborted';
+  }
+}
+
+/**
+ * Thrown in strict validation mode when a response does not match the schema
+ * of its API method, e.g. `body: ""` where an object was expected.
+ */
+class ResponseShapeError extends MusixmatchRequestError {
+  kind: 'invalid_response';
+  /** The path of the first issue, e.g. `message.body.track`. */
+  path: string;
+  /** Every mismatch found in the response. */
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], context: RequestErrorContext) {
+    const first = issues[0];
+    super(
+      'invalid_response',
+      `Unexpected response from ${context.apiMethod}: expected ${first.expected} at ${first.path}, received ${first.received}`,
+      context
+    );
+    this.name = 'ResponseShapeError';
+    this.kind = 'invalid_response';
+    this.path = first.path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Any error thrown for a request that was sent, as a union discriminated on `kind`.
+ */
+type MusixmatchApiError =
+  | MXMException
+  | AuthError
+  | QuotaExceededError
+  | NotFoundError
+  | RateLimitedError
+  | NetworkError
+  | TimeoutError
+  | AbortError
+  | ResponseShapeError;
+
+/**
+ * Creates the error matching a status code.
+ * @param status_code - The HTTP or header-level status code.
+ * @param requestURL - The requested URL, with the apikey redacted.
+ * @param context - The request context.
+ * @returns The error to throw.
+ */
+function createApiError(
+  status_code: number,
+  requestURL: string,
+  context: RequestErrorContext
+): MXMException {
+  switch (status_code) {
+    case 401:
+      return new AuthError(requestURL, context);
+    case 402:
+      return new QuotaExceededError(requestURL, context);
+    case 404:
+      return new NotFoundError(requestURL, context);
+    case 429:
+    case 503:
+      return new RateLimitedError(status_code, requestURL, context);
+    default:
+      return new MXMException(status_code, requestURL, context.hint, context);
+  }
+}
+
+/**
+ * Thrown before any request is made when the parameters passed to an
+ * endpoint method contain an unknown key or an invalid value.
+ */
+class InvalidParamsError extends MusixmatchError {
+  apiMethod: string;
+  param: string;
+
+  constructor(apiMethod: string, param: string, message: string) {
+    super(`Invalid parameter "${param}" for ${apiMethod}: ${message}`);
+    this.name = 'InvalidParamsError';
+    this.apiMethod = apiMethod;
+    this.param = param;
+  }
+}
+
+/**
+ * Thrown before any request is made when the daily quota configured on the
+ * client has been used up.
+ */
+class QuotaExhaustedError extends MusixmatchError {
+  limit: number;
+  resetsAt: Date;
+
+  constructor(limit: number, resetsAt: Date) {
+    super(
+      `The daily quota of ${limit} requests has been used up, it resets at ${resetsAt.toISOString()}`
+    );
+    this.name = 'QuotaExhaustedError';
+    this.limit = limit;
+    this.resetsAt = resetsAt;
+  }
+}
+
+/**
+ * Thrown before any request is made when every key of the key pool is
+ * cooling down after a 402 or was retired after a 401.
+ */
+class KeyPoolExhaustedError extends MusixmatchError {
+  /** When a cooling key is available again, `undefined` when every key is retired. */
+  retryAt?: Date;
+
+  constructor(retryAt?: Date) {
+    super(
+      retryAt
+        ? `Every API key of the pool is cooling down, the first one is available again at ${retryAt.toISOString()}`
+        : 'Every API key of the pool was refused by the API'
+    );
+    this.name = 'KeyPoolExhaustedError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown in replay mode when no fixture was recorded for a request.
+ */
+class FixtureNotFoundError extends MusixmatchError {
+  key: string;
+
+  constructor(key: string) {
+    super(
+      `No fixture was recorded for ${key}. Run the same calls in record mode first.`
+    );
+    this.name = 'FixtureNotFoundError';
+    this.key = key;
+  }
+}
+
+/**
+ * Thrown by the compliance helper for content that cannot be displayed in the
+ * end user's country.
+ */
+class RestrictedContentError extends MusixmatchError {
+  country?: string;
+
+  constructor(country?: string) {
+    super(
+      country
+        ? `This content is restricted in ${country}.`
+        : 'This content is restricted.'
+    );
+    this.name = 'RestrictedContentError';
+    this.country = country;
+  }
+}
+
+/**
+ * Thrown by the subtitle parsers in strict mode when the input is malformed.
+ */
+class SubtitleParseError extends MusixmatchError {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SubtitleParseError';
+    this.line = line;
   }
 }
 
-export { MXMException, MusixmatchError };
+export {
+  MXMException,
+  MusixmatchError,
+  MusixmatchRequestError,
+  AuthError,
+  QuotaExceededError,
+  NotFoundError,
+  RateLimitedError,
+  NetworkError,
+  TimeoutError,
+  ResponseShapeError,
+  MusixmatchApiError,
+  createApiError,
+  InvalidParamsError,
+  QuotaExhaustedError,
+  SubtitleParseError,
+  AbortError,
+  FixtureNotFoundError,
+  RestrictedContentError,
+  KeyPoolExhaustedError
+};
@@ -0,0 +1,204 @@
+import {
+  Fixture,
+  FixtureOptions,
+  FixtureStore,
+  Transport,
+  TransportRequest,
+  TransportResponse
+} from '../interfaces';
+import { FixtureNotFoundError, MusixmatchError } from './expectations';
+import { toQueryString } from './transport';
+
+/**
+ * Builds the key of a request: the method, the URL and the sorted params,
+ * without the apikey.
+ * @param request - The request.
+ * @returns The key, e.g. `GET https://api.musixmatch.com/ws/1.1/track.get?commontrack_id=1`.
+ */
+function fixtureKey(request: TransportRequest): string {
+  const params: TransportRequest['params'] = {};
+  Object.keys(request.params)
+    .filter((key) => key !== 'apikey')
+    .sort()
+    .forEach((key) => {
+      params[key] = request.params[key];
+    });
+  const query = toQueryString(params);
+  return `${request.method.toUpperCase()} ${request.url}${
+    query ? `?${query}` : ''
+  }`;
+}
+
+/**
+ * Keeps fixtures in memory, e.g. to record and replay within one test run.
+ */
+class MemoryFixtureStore implements FixtureStore {
+  private fixtures: { [key: string]: Fixture } = {};
+
+  get(key: string): Fixture | undefined {
+    return this.fixtures[key];
+  }
+
+  set(key: string, fixture: Fixture): void {
+    this.fixtures[key] = fixture;
+  }
+}
+
+/**
+ * Keeps one JSON file per request in a directory. File names start with the
+ * API method and end with a hash of the request key, e.g.
+ * `track.get-5f1c2a9b.json`.
+ */
+class FileFixtureStore implements FixtureStore {
+  private dir: string;
+
+  /**
+   * Constructs a new instance of the FileFixtureStore class.
+   * @param dir - The directory of the fixture files. Created on first write.
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  get(key: string): Fixture | undefined {
+    const fs = require('fs');
+    const file = this.fileOf(key);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  set(key: string, fixture: Fixture): void {
+    const fs = require('fs');
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(
+      this.fileOf(key),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+      'utf8'
+    );
+  }
+
+  private fileOf(key: string): string {
+    const path = require('path');
+    const apiMethod = key.replace(/\?.*$/, '').split('/').pop() || 'request';
+    return path.join(this.dir, `${apiMethod}-${hash(key)}.json`);
+  }
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a.
+ * @param value - The string.
+ * @returns The hash, as 8 hexadecimal digits.
+ */
+function hash(value: string): string {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return `0000000${result.toString(16)}`.slice(-8);
+}
+
+/**
+ * Replaces every occurrence of the apikey in a response, in case the API
+ * echoes it back.
+ * @param response - The response.
+ * @param apikey - The apikey, if any.
+ * @returns A scrubbed copy of the response.
+ */
+function scrub(
+  response: TransportResponse,
+  apikey: string | number | undefined
+): TransportResponse {
+  const json = JSON.stringify(response);
+  const secret =
+    apikey === undefined ? '' : JSON.stringify(String(apikey)).slice(1, -1);
+  return JSON.parse(secret ? json.split(secret).join('***') : json);
+}
+
+/**
+ * Sends requests through another transport and saves every request/response
+ * pair to a fixture store, with the apikey scrubbed.
+ */
+class RecordingTransport implements Transport {
+  private transport: Transport;
+  private store: FixtureStore;
+
+  /**
+   * Constructs a new instance of the RecordingTransport class.
+   * @param transport - The transport that sends the requests.
+   * @param store - Where the fixtures are saved.
+   */
+  constructor(transport: Transport, store: FixtureStore) {
+    this.transport = transport;
+    this.store = store;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.transport.request(request);
+    const params: TransportRequest['params'] = { ...request.params };
+    delete params.apikey;
+    await this.store.set(fixtureKey(request), {
+      request: { method: request.method, url: request.url, params },
+      response: scrub(response, request.params.apikey)
+    });
+    return response;
+  }
+}
+
+/**
+ * Serves recorded fixtures without any network access. A request with no
+ * fixture rejects with a FixtureNotFoundError.
+ */
+class ReplayTransport implements Transport {
+  private store: FixtureStore;
+
+  /**
+   * Constructs a new instance of the ReplayTransport class.
+   * @param store - Where the fixtures were saved.
+   */
+  constructor(store: FixtureStore) {
+    this.store = store;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const key = fixtureKey(request);
+    const fixture = await this.store.get(key);
+    if (!fixture) {
+      throw new FixtureNotFoundError(key);
+    }
+    return fixture.response;
+  }
+}
+
+/**
+ * Wraps a transport according to the record/replay settings.
+ * @param transport - The transport that sends the requests.
+ * @param options - The record/replay settings.
+ * @returns The transport to use.
+ */
+function withFixtures(
+  transport: Transport,
+  options: FixtureOptions
+): Transport {
+  let store = options.store;
+  if (!store) {
+    if (!options.dir) {
+      throw new MusixmatchError('fixtures needs a `dir` or a `store`.');
+    }
+    store = new FileFixtureStore(options.dir);
+  }
+  return options.mode === 'record'
+    ? new RecordingTransport(transport, store)
+    : new ReplayTransport(store);
+}
+
+export {
+  fixtureKey,
+  MemoryFixtureStore,
+  FileFixtureStore,
+  RecordingTransport,
+  ReplayTransport,
+  withFixtures
+};
@@ -1 +1,89 @@
 export { Musixmatch } from './musixmatch';
+export {
+  MXMException,
+  MusixmatchError,
+  MusixmatchRequestError,
+  AuthError,
+  QuotaExceededError,
+  NotFoundError,
+  RateLimitedError,
+  NetworkError,
+  TimeoutError,
+  ResponseShapeError,
+  MusixmatchApiError,
+  InvalidParamsError,
+  QuotaExhaustedError,
+  SubtitleParseError,
+  AbortError,
+  FixtureNotFoundError,
+  RestrictedContentError,
+  KeyPoolExhaustedError
+} from './expectations';
+export { AxiosTransport, FetchTransport } from './transport';
+export {
+  MemoryFixtureStore,
+  FileFixtureStore,
+  RecordingTransport,
+  ReplayTransport
+} from './fixtures';
+export { MockMusixmatchServer } from './mock';
+export { Compliance } from './compliance';
+export { MemoryCacheStore } from './cache';
+export { Paginator } from './paginator';
+export { Batch } from './batch';
+export { Emitter } from './emitter';
+export { loggingMiddleware, timingMiddleware } from './middleware';
+export { redactParams } from './params';
+export {
+  TrackResource,
+  ArtistResource,
+  AlbumResource,
+  ChartResource,
+  MatcherResource,
+  GenreResource
+} from './resources';
+export {
+  toGenres,
+  toTrack,
+  toArtist,
+  toAlbum,
+  toLyrics,
+  toSubtitle,
+  toRichSync,
+  toSnippet,
+  toTranslation,
+  toMood
+} from './models';
+export { validateResponse } from './schemas';
+export { normalizeTitle, scoreCandidate } from './resolver';
+export {
+  alignLyricsTranslation,
+  alignSubtitleTranslation,
+  translationCompletion,
+  serializeBilingualLrc,
+  serializeBilingualVtt
+} from './translation';
+export { moodQuadrant, buildMoodProfile, orderByTrajectory } from './mood';
+export {
+  parseLrcTimestamp,
+  formatLrcTimestamp,
+  parseLrc,
+  serializeLrc,
+  parseMxmSubtitle,
+  serializeMxmSubtitle,
+  lineAt
+} from './lrc';
+export {
+  decodeRichSync,
+  wordAt,
+  richSyncToEnhancedLrc,
+  richSyncToWebVtt
+} from './richsync';
+export {
+  formatVttTimestamp,
+  detectSubtitleFormat,
+  adjustCues,
+  parseSubtitle,
+  serializeSubtitle,
+  convertSubtitle
+} from './subtitles';
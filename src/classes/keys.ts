@@ -0,0 +1,209 @@
+import { ApiKeyStats, KeyPoolOptions, PooledApiKey } from '../interfaces';
+import { MusixmatchError } from './expectations';
+import { nextUtcMidnight } from './limiter';
+
+interface PoolEntry {
+  key: string;
+  weight: number;
+  stats: ApiKeyStats;
+  /** The running weight of the smooth weighted round-robin. */
+  current: number;
+  retired: boolean;
+  coolingUntil: number;
+}
+
+/**
+ * Masks a key for the stats, e.g. `ab12…9f0e`.
+ */
+function maskKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '***';
+}
+
+/**
+ * Picks the API key of each call among several, and leaves aside the keys
+ * that hit their usage limit (402, until the cooldown ends) or were refused
+ * (401, for good).
+ *
+ * `round-robin` cycles through the available keys; `weighted` uses a smooth
+ * weighted round-robin, so a key of weight 3 gets 3 calls out of 4 next to a
+ * key of weight 1, evenly interleaved.
+ */
+class KeyPool {
+  private entries: PoolEntry[];
+  private strategy: 'round-robin' | 'weighted';
+  private cooldownMs: number | undefined;
+  private cursor = 0;
+
+  /**
+   * Constructs a new instance of the KeyPool class.
+   * @param options - The pool settings.
+   * @throws MusixmatchError - When the pool has no key, or a weight or the cooldown is not positive.
+   */
+  constructor(options: KeyPoolOptions) {
+    if (!options.keys.length) {
+      throw new MusixmatchError('The key pool needs at least one API key.');
+    }
+    if (options.cooldownMs !== undefined && !(options.cooldownMs > 0)) {
+      throw new MusixmatchError('keyPool.cooldownMs must be positive.');
+    }
+    this.strategy = options.strategy ?? 'round-robin';
+    this.cooldownMs = options.cooldownMs;
+    this.entries = options.keys.map((entry) => {
+      const pooled: PooledApiKey =
+        typeof entry === 'string' ? { key: entry } : entry;
+      const { key, weight = 1, label } = pooled;
+      if (!(weight > 0)) {
+        throw new MusixmatchError(
+          `The weight of ${label ?? maskKey(key)} must be positive.`
+        );
+      }
+      return {
+        key,
+        weight,
+        current: 0,
+        retired: false,
+        coolingUntil: 0,
+        stats: {
+          label: label ?? maskKey(key),
+          status: 'active',
+          requests: 0,
+          successes: 0,
+          failures: 0,
+          authErrors: 0,
+          quotaErrors: 0,
+          networkErrors: 0
+        }
+      };
+    });
+  }
+
+  private isAvailable(
+    entry: PoolEntry,
+    now: number,
+    exclude: unknown[]
+  ): boolean {
+    return (
+      !entry.retired &&
+      entry.coolingUntil <= now &&
+      exclude.indexOf(entry.key) === -1
+    );
+  }
+
+  private entry(key: unknown): PoolEntry | undefined {
+    return this.entries.filter((entry) => entry.key === key)[0];
+  }
+
+  /**
+   * Picks the key of the next call.
+   * @param exclude - Keys not to pick, e.g. the ones a call already failed with.
+   * @returns The key, or `undefined` when every other key is cooling down or retired.
+   */
+  select(exclude: unknown[] = []): string | undefined {
+    const now = Date.now();
+    const available = this.entries.filter((entry) =>
+      this.isAvailable(entry, now, exclude)
+    );
+    if (!available.length) {
+      return undefined;
+    }
+    if (this.strategy === 'round-robin') {
+      // Walk the whole pool so the order stays stable while keys cool down.
+      for (let step = 0; step < this.entries.length; step++) {
+        const index = (this.cursor + step) % this.entries.length;
+        const entry = this.entries[index];
+        if (this.isAvailable(entry, now, exclude)) {
+          this.cursor = index + 1;
+          return entry.key;
+        }
+      }
+    }
+    const total = available.reduce((sum, entry) => sum + entry.weight, 0);
+    let best = available[0];
+    available.forEach((entry) => {
+      entry.current += entry.weight;
+      if (entry.current > best.current) {
+        best = entry;
+      }
+    });
+    best.current -= total;
+    return best.key;
+  }
+
+  /**
+   * Counts a request sent with a key. Keys outside the pool are ignored.
+   * @param key - The key.
+   */
+  sent(key: unknown): void {
+    const entry = this.entry(key);
+    if (entry) {
+      entry.stats.requests += 1;
+      entry.stats.lastUsedAt = new Date();
+    }
+  }
+
+  /**
+   * Records the outcome of a request made with a key: `success` when the API
+   * accepted the key (whatever the answer), `auth` for a 401, which retires
+   * the key, `quota` for a 402, which cools it down, and `network` when no
+   * answer came. Keys outside the pool are ignored.
+   * @param key - The key.
+   * @param outcome - The outcome.
+   */
+  report(
+    key: unknown,
+    outcome: 'success' | 'auth' | 'quota' | 'network'
+  ): void {
+    const entry = this.entry(key);
+    if (!entry) {
+      return;
+    }
+    if (outcome === 'success') {
+      entry.stats.successes += 1;
+      return;
+    }
+    if (outcome === 'network') {
+      entry.stats.networkErrors += 1;
+      return;
+    }
+    entry.stats.failures += 1;
+    if (outcome === 'auth') {
+      entry.stats.authErrors += 1;
+      entry.retired = true;
+    } else {
+      const now = Date.now();
+      entry.stats.quotaErrors += 1;
+      entry.coolingUntil =
+        this.cooldownMs !== undefined
+          ? now + this.cooldownMs
+          : nextUtcMidnight(now);
+    }
+  }
+
+  /**
+   * When the first cooling key is available again.
+   * @returns The time, or `undefined` when every key is retired.
+   */
+  nextAvailableAt(): Date | undefined {
+    const times = this.entries
+      .filter((entry) => !entry.retired)
+      .map((entry) => entry.coolingUntil);
+    return times.length ? new Date(Math.min(...times)) : undefined;
+  }
+
+  /**
+   * Gets the usage of every key, in pool order.
+   */
+  stats(): ApiKeyStats[] {
+    const now = Date.now();
+    return this.entries.map((entry) => {
+      const cooling = !entry.retired && entry.coolingUntil > now;
+      return {
+        ...entry.stats,
+        status: entry.retired ? 'retired' : cooling ? 'cooling' : 'active',
+        coolingUntil: cooling ? new Date(entry.coolingUntil) : undefined
+      };
+    });
+  }
+}
+
+export { KeyPool };
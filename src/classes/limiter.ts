@@ -0,0 +1,140 @@
+import { QuotaOptions, QuotaUsage, RateLimitOptions } from '../interfaces';
+import { MusixmatchError, QuotaExhaustedError } from './expectations';
+import { sleep } from './retry';
+
+/**
+ * A token bucket: up to `burst` requests go out at once, then the bucket
+ * refills at `requestsPerSecond`. Callers are served in order.
+ */
+class TokenBucket {
+  private rate: number;
+  private capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructs a new instance of the TokenBucket class.
+   * @param options - The limiter settings.
+   * @throws MusixmatchError - When `requestsPerSecond` is not a positive number or `burst` is below 1.
+   */
+  constructor(options: RateLimitOptions) {
+    if (
+      !(options.requestsPerSecond > 0) ||
+      !isFinite(options.requestsPerSecond)
+    ) {
+      throw new MusixmatchError(
+        'rateLimit.requestsPerSecond must be a positive number.'
+      );
+    }
+    this.rate = options.requestsPerSecond;
+    this.capacity = options.burst ?? Math.max(1, Math.ceil(this.rate));
+    if (!(this.capacity >= 1)) {
+      throw new MusixmatchError('rateLimit.burst must be at least 1.');
+    }
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Waits until a token is available and takes it.
+   * @param signal - Cancels the wait; a cancelled caller takes no token.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const next = this.queue.then(() => this.take(signal));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.updatedAt) / 1000) * this.rate
+      );
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000), signal);
+    }
+  }
+}
+
+/**
+ * The next UTC midnight, when the daily limits reset.
+ * @param now - The current time, in milliseconds.
+ */
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() + 1
+  );
+}
+
+/**
+ * Counts the requests made today (UTC) against a daily limit.
+ */
+class DailyQuota {
+  private limit: number;
+  private used: number;
+  private onExhausted: 'wait' | 'fail';
+  private resetsAt: number;
+
+  /**
+   * Constructs a new instance of the DailyQuota class.
+   * @param options - The quota settings.
+   */
+  constructor(options: QuotaOptions) {
+    this.limit = options.dailyLimit;
+    this.used = options.used ?? 0;
+    this.onExhausted = options.onExhausted ?? 'fail';
+    this.resetsAt = nextUtcMidnight(Date.now());
+  }
+
+  private refresh(): void {
+    const now = Date.now();
+    if (now >= this.resetsAt) {
+      this.used = 0;
+      this.resetsAt = nextUtcMidnight(now);
+    }
+  }
+
+  /**
+   * Counts one request, waiting for the next day or throwing when the quota
+   * has been used up.
+   * @param signal - Cancels the wait for the next day.
+   * @throws QuotaExhaustedError - When the quota is used up and `onExhausted` is `'fail'`.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    this.refresh();
+    while (this.used >= this.limit) {
+      if (this.onExhausted === 'fail') {
+        throw new QuotaExhaustedError(this.limit, new Date(this.resetsAt));
+      }
+      await sleep(Math.max(0, this.resetsAt - Date.now()), signal);
+      this.refresh();
+    }
+    this.used += 1;
+  }
+
+  /**
+   * Gets a snapshot of the quota.
+   * @returns The limit, used and remaining requests and the reset time.
+   */
+  usage(): QuotaUsage {
+    this.refresh();
+    return {
+      limit: this.limit,
+      used: this.used,
+      remaining: Math.max(0, this.limit - this.used),
+      resetsAt: new Date(this.resetsAt)
+    };
+  }
+}
+
+export { TokenBucket, DailyQuota, nextUtcMidnight };
@@ -0,0 +1,246 @@
+import {
+  Lrc,
+  MxmSubtitleLine,
+  SubtitleParseOptions,
+  TimedLine
+} from '../interfaces';
+import { SubtitleParseError } from './expectations';
+
+const STRICT_TIMESTAMP = /^(\d{2,}):([0-5]\d)(?:\.(\d{2,3}))?$/;
+const LENIENT_TIMESTAMP = /^\s*(\d+):(\d{1,2})(?:[.:,](\d{1,3}))?\s*$/;
+const TAG = /^([a-zA-Z#]+):(.*)$/;
+const OFFSET = /^[+-]?\d+$/;
+
+/**
+ * Parses an LRC timestamp (without brackets).
+ * @param value - The timestamp, e.g. `01:02.34`.
+ * @param strict - Only accept `mm:ss.xx` and `mm:ss.xxx`.
+ * @returns The time in milliseconds, or `undefined` when malformed.
+ */
+function parseLrcTimestamp(
+  value: string,
+  strict: boolean = false
+): number | undefined {
+  const match = (strict ? STRICT_TIMESTAMP : LENIENT_TIMESTAMP).exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const fraction = match[3] ?? '0';
+  return (
+    parseInt(match[1], 10) * 60000 +
+    parseInt(match[2], 10) * 1000 +
+    Math.round(parseFloat(`0.${fraction}`) * 1000)
+  );
+}
+
+/**
+ * Formats a time as an LRC timestamp (without brackets).
+ * @param ms - The time in milliseconds.
+ * @returns The timestamp, e.g. `01:02.34`.
+ */
+function formatLrcTimestamp(ms: number): string {
+  const hundredths = Math.round(Math.max(0, ms) / 10);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor((hundredths % 6000) / 100);
+  const rest = hundredths % 100;
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  return `${pad(minutes)}:${pad(seconds)}.${pad(rest)}`;
+}
+
+/**
+ * Parses an LRC body, such as `subtitle_body` with `subtitle_format=lrc`.
+ *
+ * Lines can carry several timestamps (`[00:12.00][00:45.00]Chorus`). In
+ * lenient mode, malformed timestamps and stray text are skipped; in strict
+ * mode they throw a `SubtitleParseError`.
+ *
+ * An `[offset:]` tag, in milliseconds, is applied to the line times as in
+ * other LRC players: a positive offset makes the lines earlier. Times are
+ * clamped at zero, and the tag is left out of `tags` so serializing the
+ * result keeps the same timing.
+ * @param body - The LRC text.
+ * @param options - The parse options.
+ * @returns The ID tags and the lines, sorted by time.
+ */
+function parseLrc(body: string, options: SubtitleParseOptions = {}): Lrc {
+  const strict = options.strict ?? false;
+  const result: Lrc = { tags: {}, lines: [] };
+  let offsetLine = 0;
+  const rows = body.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  rows.forEach((row, index) => {
+    let rest = row.trim();
+    if (!rest) {
+      return;
+    }
+
+    const times: number[] = [];
+    while (rest.charAt(0) === '[') {
+      const end = rest.indexOf(']');
+      if (end === -1) {
+        break;
+      }
+      const content = rest.slice(1, end);
+      const time = parseLrcTimestamp(content, strict);
+      if (time !== undefined) {
+        times.push(time);
+      } else if (times.length === 0 && TAG.test(content)) {
+        const tag = TAG.exec(content) as RegExpExecArray;
+        const name = tag[1].toLowerCase();
+        result.tags[name] = tag[2].trim();
+        if (name === 'offset') {
+          offsetLine = index + 1;
+        }
+        rest = rest.slice(end + 1).trim();
+        if (rest && strict) {
+          throw new SubtitleParseError(index + 1, 'text after an ID tag');
+        }
+        return;
+      } else if (strict) {
+        throw new SubtitleParseError(
+          index + 1,
+          `malformed timestamp [${content}]`
+        );
+      } else {
+        return;
+      }
+      rest = rest.slice(end + 1);
+    }
+
+    if (times.length === 0) {
+      if (strict) {
+        throw new SubtitleParseError(index + 1, 'line has no timestamp');
+      }
+      return;
+    }
+    const text = rest.trim();
+    times.forEach((time_ms) => result.lines.push({ time_ms, text }));
+  });
+
+  const offset = result.tags.offset;
+  if (offset !== undefined && OFFSET.test(offset)) {
+    const offsetMs = parseInt(offset, 10);
+    delete result.tags.offset;
+    result.lines.forEach((line) => {
+      line.time_ms = Math.max(0, line.time_ms - offsetMs);
+    });
+  } else if (offset !== undefined && strict) {
+    throw new SubtitleParseError(
+      offsetLine,
+      `malformed offset [offset:${offset}]`
+    );
+  }
+
+  result.lines.sort((a, b) => a.time_ms - b.time_ms);
+  return result;
+}
+
+/**
+ * Serializes lines, and optionally ID tags, to LRC.
+ * @param lrc - The lines, or a parsed LRC document.
+ * @returns The LRC text.
+ */
+function serializeLrc(lrc: Lrc | TimedLine[]): string {
+  const { tags, lines } = Array.isArray(lrc) ? { tags: {}, lines: lrc } : lrc;
+  const rows = Object.keys(tags).map(
+    (tag) => `[${tag}:${(tags as { [tag: string]: string })[tag]}]`
+  );
+  lines
+    .slice()
+    .sort((a, b) => a.time_ms - b.time_ms)
+    .forEach((line) =>
+      rows.push(`[${formatLrcTimestamp(line.time_ms)}]${line.text}`)
+    );
+  return rows.join('\n');
+}
+
+/**
+ * Parses the JSON subtitle format returned by Musixmatch.
+ * @param body - The JSON text, or the already parsed array.
+ * @param options - The parse options.
+ * @returns The lines, sorted by time.
+ */
+function parseMxmSubtitle(
+  body: string | MxmSubtitleLine[],
+  options: SubtitleParseOptions = {}
+): TimedLine[] {
+  let entries: unknown;
+  try {
+    entries = typeof body === 'string' ? JSON.parse(body) : body;
+  } catch (error) {
+    throw new SubtitleParseError(1, 'invalid JSON');
+  }
+  if (!Array.isArray(entries)) {
+    throw new SubtitleParseError(1, 'expected an array of lines');
+  }
+
+  const lines: TimedLine[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const total = entry?.time?.total;
+    if (typeof total !== 'number' || isNaN(total)) {
+      if (options.strict) {
+        throw new SubtitleParseError(index + 1, 'missing time.total');
+      }
+      return;
+    }
+    lines.push({
+      time_ms: Math.round(total * 1000),
+      text: typeof entry.text === 'string' ? entry.text : ''
+    });
+  });
+
+  return lines.sort((a, b) => a.time_ms - b.time_ms);
+}
+
+/**
+ * Serializes lines to the JSON subtitle format returned by Musixmatch.
+ * @param lines - The lines.
+ * @returns The JSON text.
+ */
+function serializeMxmSubtitle(lines: TimedLine[]): string {
+  const entries: MxmSubtitleLine[] = lines.map((line) => {
+    const hundredths = Math.round(line.time_ms / 10);
+    return {
+      text: line.text,
+      time: {
+        total: hundredths / 100,
+        minutes: Math.floor(hundredths / 6000),
+        seconds: Math.floor((hundredths % 6000) / 100),
+        hundredths: hundredths % 100
+      }
+    };
+  });
+  return JSON.stringify(entries);
+}
+
+/**
+ * Finds the line being sung at a given playback time.
+ * @param lines - The lines, sorted by time.
+ * @param ms - The playback time in milliseconds.
+ * @returns The last line starting at or before `ms`, or `undefined` before the first line.
+ */
+function lineAt<T extends TimedLine>(lines: T[], ms: number): T | undefined {
+  let low = 0;
+  let high = lines.length - 1;
+  let found: T | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (lines[middle].time_ms <= ms) {
+      found = lines[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+export {
+  parseLrcTimestamp,
+  formatLrcTimestamp,
+  parseLrc,
+  serializeLrc,
+  parseMxmSubtitle,
+  serializeMxmSubtitle,
+  lineAt
+};
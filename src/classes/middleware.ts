@@ -0,0 +1,70 @@
+import { Middleware, Timing } from '../interfaces';
+import { redactParams } from './params';
+import { toQueryString } from './transport';
+
+/**
+ * Logs every call, its outcome and its latency, with the apikey redacted.
+ * @param log - Where the lines go, e.g. `(line) => logger.info(line)`.
+ * @returns The middleware.
+ */
+function loggingMiddleware(log: (message: string) => void): Middleware {
+  return async (context, next) => {
+    const started = Date.now();
+    const query = toQueryString(redactParams(context.params));
+    log(
+      `[musixmatch] ${context.method.toUpperCase()} ${context.apiMethod}?${query}`
+    );
+    try {
+      const data = await next();
+      const header = data?.message?.header;
+      log(
+        `[musixmatch] ${context.apiMethod} ${header?.status_code} in ${
+          Date.now() - started
+        } ms` +
+          (header?.execute_time !== undefined
+            ? ` (execute_time ${header.execute_time} s)`
+            : '')
+      );
+      return data;
+    } catch (error: any) {
+      log(
+        `[musixmatch] ${context.apiMethod} failed in ${
+          Date.now() - started
+        } ms: ${error?.name ?? 'Error'}: ${error?.message ?? String(error)}`
+      );
+      throw error;
+    }
+  };
+}
+
+/**
+ * Measures the latency of every call next to the `execute_time` reported by
+ * the API, so network and queueing overhead can be told apart.
+ * @param onTiming - Called once per call with the measure.
+ * @returns The middleware.
+ */
+function timingMiddleware(onTiming: (timing: Timing) => void): Middleware {
+  return async (context, next) => {
+    const started = Date.now();
+    const report = (failed: boolean, executeTime?: number) =>
+      onTiming({
+        apiMethod: context.apiMethod,
+        durationMs: Date.now() - started,
+        executeTimeMs:
+          typeof executeTime === 'number'
+            ? Math.round(executeTime * 1000)
+            : undefined,
+        failed
+      });
+    try {
+      const data = await next();
+      report(false, data?.message?.header?.execute_time);
+      return data;
+    } catch (error: any) {
+      report(true, error?.execute_time);
+      throw error;
+    }
+  };
+}
+
+export { loggingMiddleware, timingMiddleware };
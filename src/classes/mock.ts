@@ -0,0 +1,628 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  Album,
+  Artist,
+  Lyrics,
+  MockCatalog,
+  MockRequest,
+  MockServerOptions,
+  Mood,
+  MusicGenre,
+  RichSync,
+  Snippet,
+  Subtitle,
+  Track
+} from '../interfaces';
+import { normalizeTitle } from './resolver';
+
+const UPDATED_TIME = '2024-01-01T00:00:00Z';
+
+/**
+ * What the mock answers for a request, before it is wrapped in an envelope.
+ */
+interface MockAnswer {
+  status_code: number;
+  body?: unknown;
+  header?: { [key: string]: unknown };
+}
+
+/**
+ * A local HTTP server answering the `ws/1.1/` routes of the Musixmatch API
+ * from fake catalogue data, for integration tests that go through a real
+ * transport.
+ *
+ * It supports the track, matcher, chart, artist, album and genre lookups,
+ * lyrics (posting included), subtitles, rich syncs, snippets, moods and
+ * translations. Other API methods answer with a 405.
+ */
+class MockMusixmatchServer {
+  /** Every request received, in order. */
+  readonly requests: MockRequest[] = [];
+  /**
+   * The base URL to pass as `baseUrl`, e.g. `http://127.0.0.1:53412/ws/1.1/`,
+   * while the server is listening.
+   */
+  url: string | undefined;
+
+  private options: MockServerOptions;
+  private tracks: Track[];
+  private artists: Artist[];
+  private albums: Album[];
+  private genres: MusicGenre[];
+  private lyrics: { [track_id: number]: Lyrics } = {};
+  private subtitles: { [track_id: number]: Subtitle } = {};
+  private richsyncs: { [track_id: number]: RichSync } = {};
+  private snippets: { [track_id: number]: Snippet } = {};
+  private moods: { [track_id: number]: Mood };
+  private lyricsTranslations: {
+    [track_id: number]: { [language: string]: string };
+  };
+  private subtitleTranslations: {
+    [track_id: number]: { [language: string]: string };
+  };
+  private statuses: { [apiMethod: string]: number } = {};
+  private served = 0;
+  private server: Server | undefined;
+
+  /**
+   * Constructs a new instance of the MockMusixmatchServer class.
+   * @param options - The catalogue and the behaviour of the server.
+   */
+  constructor(options: MockServerOptions = {}) {
+    const catalog: MockCatalog = options.catalog ?? {};
+    this.options = options;
+    Object.keys(catalog.lyrics ?? {}).forEach((key) => {
+      const id = Number(key);
+      this.lyrics[id] = fillLyrics(id, (catalog.lyrics ?? {})[id]);
+    });
+    Object.keys(catalog.subtitles ?? {}).forEach((key) => {
+      const id = Number(key);
+      this.subtitles[id] = fillSubtitle(id, (catalog.subtitles ?? {})[id]);
+    });
+    Object.keys(catalog.richsyncs ?? {}).forEach((key) => {
+      const id = Number(key);
+      this.richsyncs[id] = fillRichSync(id, (catalog.richsyncs ?? {})[id]);
+    });
+    Object.keys(catalog.snippets ?? {}).forEach((key) => {
+      const id = Number(key);
+      this.snippets[id] = fillSnippet((catalog.snippets ?? {})[id]);
+    });
+    this.moods = catalog.moods ?? {};
+    this.lyricsTranslations = catalog.lyricsTranslations ?? {};
+    this.subtitleTranslations = catalog.subtitleTranslations ?? {};
+    this.tracks = (catalog.tracks ?? []).map((track) =>
+      fillTrack(
+        track,
+        !!this.lyrics[track.track_id],
+        !!this.subtitles[track.track_id],
+        !!this.richsyncs[track.track_id]
+      )
+    );
+    this.artists = (catalog.artists ?? []).map(fillArtist);
+    this.albums = (catalog.albums ?? []).map(fillAlbum);
+    this.genres = catalog.genres ?? [];
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   * @param port - The port. Defaults to a free one.
+   * @returns The base URL to pass as `baseUrl`.
+   */
+  listen(port: number = 0): Promise<string> {
+    const http: typeof import('http') = require('http');
+    const server = http.createServer((request, response) =>
+      this.serve(request, response)
+    );
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        const address = server.address() as AddressInfo;
+        this.url = `http://127.0.0.1:${address.port}/ws/1.1/`;
+        resolve(this.url);
+      });
+    });
+  }
+
+  /**
+   * Stops the server and closes the open connections.
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.url = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      if (typeof server.closeAllConnections === 'function') {
+        server.closeAllConnections();
+      }
+    });
+  }
+
+  /**
+   * Forces the header-level status code of an API method, e.g. 503 for
+   * `track.search`. Pass `undefined` to go back to normal answers.
+   * @param apiMethod - The API method.
+   * @param statusCode - The status code.
+   */
+  setStatus(apiMethod: string, statusCode?: number): void {
+    if (statusCode === undefined) {
+      delete this.statuses[apiMethod];
+    } else {
+      this.statuses[apiMethod] = statusCode;
+    }
+  }
+
+  /**
+   * Answers a request without going through HTTP.
+   * @param apiMethod - The API method, e.g. `track.get`.
+   * @param params - The query parameters, apikey included.
+   * @returns The response envelope.
+   */
+  handle(apiMethod: string, params: { [key: string]: string }): unknown {
+    this.requests.push({ apiMethod, params });
+    const answer = this.answer(apiMethod, params);
+    return {
+      message: {
+        header: {
+          status_code: answer.status_code,
+          execute_time: 0.001,
+          ...answer.header
+        },
+        body: answer.status_code === 200 ? answer.body : ''
+      }
+    };
+  }
+
+  private serve(request: IncomingMessage, response: ServerResponse): void {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    const match = /^\/ws\/1\.1\/([\w.]+)$/.exec(url.pathname);
+    if (!match) {
+      response.writeHead(404, { 'content-type': 'text/plain' });
+      response.end('Not Found');
+      return;
+    }
+    const params: { [key: string]: string } = {};
+    url.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+    const envelope = this.handle(match[1], params);
+    setTimeout(() => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(envelope));
+    }, this.options.latencyMs ?? 0);
+  }
+
+  private answer(
+    apiMethod: string,
+    params: { [key: string]: string }
+  ): MockAnswer {
+    if (this.statuses[apiMethod] !== undefined) {
+      return { status_code: this.statuses[apiMethod] };
+    }
+    if (
+      this.options.apikey !== undefined &&
+      params.apikey !== this.options.apikey
+    ) {
+      return { status_code: 401 };
+    }
+    if (
+      this.options.dailyLimit !== undefined &&
+      this.served >= this.options.dailyLimit
+    ) {
+      return { status_code: 402 };
+    }
+    this.served += 1;
+
+    switch (apiMethod) {
+      case 'track.get':
+        return found('track', this.findTrack(params));
+      case 'track.search':
+        return paginate(
+          'track_list',
+          'track',
+          this.searchTracks(params),
+          params,
+          true
+        );
+      case 'chart.tracks.get':
+        return paginate('track_list', 'track', this.tracks, params, false);
+      case 'chart.artists.get':
+        return paginate('artist_list', 'artist', this.artists, params, false);
+      case 'track.lyrics.get':
+        return found('lyrics', this.lyricsOf(this.findTrack(params)));
+      case 'track.lyrics.post': {
+        const track = this.findTrack(params);
+        if (!track) {
+          return { status_code: 404 };
+        }
+        this.lyrics[track.track_id] = fillLyrics(track.track_id, {
+          lyrics_body: params.lyrics_body ?? ''
+        });
+        track.has_lyrics = 1;
+        return { status_code: 200, body: '' };
+      }
+      case 'track.lyrics.mood.get': {
+        const mood = this.ofTrack(this.moods, this.findTrack(params));
+        return mood === undefined
+          ? { status_code: 404 }
+          : { status_code: 200, body: mood };
+      }
+      case 'track.snippet.get':
+        return found(
+          'snippet',
+          this.ofTrack(this.snippets, this.findTrack(params))
+        );
+      case 'track.subtitle.get':
+        return found('subtitle', this.subtitleOf(this.findTrack(params)));
+      case 'track.richsync.get': {
+        const answer = found(
+          'richsync',
+          this.ofTrack(this.richsyncs, this.findTrack(params))
+        );
+        answer.header = { available: answer.status_code === 200 ? 1 : 0 };
+        return answer;
+      }
+      case 'track.lyrics.translation.get': {
+        const translated = this.ofTrack(
+          this.lyricsTranslations,
+          this.findTrack(params)
+        )?.[params.selected_language];
+        return found(
+          'lyrics',
+          translated === undefined
+            ? undefined
+            : {
+                lyrics_translated: {
+                  selected_language: params.selected_language,
+                  restricted: 0,
+                  lyrics_body: translated,
+                  translation_ratio: 1
+                }
+              }
+        );
+      }
+      case 'track.subtitle.translation.get': {
+        const translated = this.ofTrack(
+          this.subtitleTranslations,
+          this.findTrack(params)
+        )?.[params.selected_language];
+        return found(
+          'subtitle',
+          translated === undefined
+            ? undefined
+            : {
+                subtitle_translated: {
+                  selected_language: params.selected_language,
+                  restricted: 0,
+                  subtitle_body: translated,
+                  translation_ratio: 1
+                }
+              }
+        );
+      }
+      case 'matcher.track.get': {
+        const answer = found('track', this.matchTrack(params));
+        answer.header = { confidence: 1000, mode: 'search', cached: 0 };
+        return answer;
+      }
+      case 'matcher.lyrics.get':
+        return found('lyrics', this.lyricsOf(this.matchTrack(params)));
+      case 'matcher.subtitle.get':
+        return found('subtitle', this.subtitleOf(this.matchTrack(params)));
+      case 'artist.get':
+        return found(
+          'artist',
+          this.artists.filter(
+            (artist) => artist.artist_id === Number(params.artist_id)
+          )[0]
+        );
+      case 'artist.search':
+        return paginate(
+          'artist_list',
+          'artist',
+          this.artists.filter(
+            (artist) =>
+              contains(artist.artist_name, params.q_artist) &&
+              (params.f_artist_id === undefined ||
+                artist.artist_id === Number(params.f_artist_id))
+          ),
+          params,
+          true
+        );
+      case 'artist.albums.get':
+        return paginate(
+          'album_list',
+          'album',
+          this.albums.filter(
+            (album) => album.artist_id === Number(params.artist_id)
+          ),
+          params,
+          true
+        );
+      case 'artist.related.get':
+        return paginate(
+          'artist_list',
+          'artist',
+          this.artists.filter(
+            (artist) => artist.artist_id !== Number(params.artist_id)
+          ),
+          params,
+          true
+        );
+      case 'album.get':
+        return found(
+          'album',
+          this.albums.filter(
+            (album) => album.album_id === Number(params.album_id)
+          )[0]
+        );
+      case 'album.tracks.get':
+        return paginate(
+          'track_list',
+          'track',
+          this.tracks.filter(
+            (track) =>
+              track.album_id === Number(params.album_id) &&
+              (params.f_has_lyrics !== '1' || track.has_lyrics === 1)
+          ),
+          params,
+          true
+        );
+      case 'music.genres.get':
+        return {
+          status_code: 200,
+          body: {
+            music_genre_list: this.genres.map((music_genre) => ({
+              music_genre
+            }))
+          }
+        };
+      default:
+        return { status_code: 405 };
+    }
+  }
+
+  private findTrack(params: { [key: string]: string }): Track | undefined {
+    return this.tracks.filter(
+      (track) =>
+        (params.track_id !== undefined &&
+          track.track_id === Number(params.track_id)) ||
+        (params.commontrack_id !== undefined &&
+          track.commontrack_id === Number(params.commontrack_id)) ||
+        (params.track_isrc !== undefined &&
+          track.track_isrc === params.track_isrc)
+    )[0];
+  }
+
+  private searchTracks(params: { [key: string]: string }): Track[] {
+    return this.tracks.filter((track) => {
+      const lyrics = this.lyrics[track.track_id]?.lyrics_body ?? '';
+      const everything = `${track.track_name} ${track.artist_name} ${lyrics}`;
+      return (
+        contains(track.track_name, params.q_track) &&
+        contains(track.artist_name, params.q_artist) &&
+        contains(lyrics, params.q_lyrics) &&
+        containsWords(
+          `${track.track_name} ${track.artist_name}`,
+          params.q_track_artist
+        ) &&
+        containsWords(everything, params.q) &&
+        (params.f_artist_id === undefined ||
+          track.artist_id === Number(params.f_artist_id)) &&
+        (params.f_has_lyrics !== '1' || track.has_lyrics === 1)
+      );
+    });
+  }
+
+  private matchTrack(params: { [key: string]: string }): Track | undefined {
+    return this.tracks.filter(
+      (track) =>
+        (params.q_track === undefined ||
+          normalizeTitle(track.track_name) ===
+            normalizeTitle(params.q_track)) &&
+        contains(track.artist_name, params.q_artist)
+    )[0];
+  }
+
+  private lyricsOf(track: Track | undefined): Lyrics | undefined {
+    return this.ofTrack(this.lyrics, track);
+  }
+
+  private subtitleOf(track: Track | undefined): Subtitle | undefined {
+    return this.ofTrack(this.subtitles, track);
+  }
+
+  private ofTrack<T>(
+    entries: { [track_id: number]: T },
+    track: Track | undefined
+  ): T | undefined {
+    return track ? entries[track.track_id] : undefined;
+  }
+}
+
+/**
+ * Answers with an entity, or a 404 when there is none.
+ */
+function found(key: string, entity: unknown): MockAnswer {
+  return entity === undefined
+    ? { status_code: 404 }
+    : { status_code: 200, body: { [key]: entity } };
+}
+
+/**
+ * Answers with a page of a list. `page_size` defaults to 10 and is capped
+ * at 100, like the API.
+ */
+function paginate(
+  listKey: string,
+  itemKey: string,
+  items: unknown[],
+  params: { [key: string]: string },
+  withAvailable: boolean
+): MockAnswer {
+  const page = Math.max(1, parseInt(params.page, 10) || 1);
+  const pageSize = Math.min(
+    100,
+    Math.max(1, parseInt(params.page_size, 10) || 10)
+  );
+  const slice = items.slice((page - 1) * pageSize, page * pageSize);
+  return {
+    status_code: 200,
+    body: { [listKey]: slice.map((item) => ({ [itemKey]: item })) },
+    header: withAvailable ? { available: items.length } : undefined
+  };
+}
+
+/**
+ * Case-insensitive substring match. A missing query matches everything.
+ */
+function contains(value: string, query: string | undefined): boolean {
+  return (
+    query === undefined ||
+    value.toLowerCase().indexOf(query.toLowerCase().trim()) !== -1
+  );
+}
+
+/**
+ * Checks that every word of the query appears in the value.
+ */
+function containsWords(value: string, query: string | undefined): boolean {
+  return (
+    query === undefined ||
+    query
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((word) => contains(value, word))
+  );
+}
+
+function fillTrack(
+  track: NonNullable<MockCatalog['tracks']>[number],
+  hasLyrics: boolean,
+  hasSubtitles: boolean,
+  hasRichsync: boolean
+): Track {
+  return {
+    track_name_translation_list: [],
+    track_rating: 0,
+    commontrack_id: track.track_id,
+    instrumental: 0,
+    explicit: 0,
+    has_lyrics: hasLyrics ? 1 : 0,
+    has_subtitles: hasSubtitles ? 1 : 0,
+    has_richsync: hasRichsync ? 1 : 0,
+    num_favourite: 0,
+    album_id: 0,
+    album_name: '',
+    artist_id: 0,
+    artist_name: '',
+    track_share_url: `https://www.musixmatch.com/lyrics/${track.track_id}`,
+    track_edit_url: `https://www.musixmatch.com/lyrics/${track.track_id}/edit`,
+    restricted: 0,
+    updated_time: UPDATED_TIME,
+    primary_genres: { music_genre_list: [] },
+    ...track
+  };
+}
+
+function fillArtist(
+  artist: NonNullable<MockCatalog['artists']>[number]
+): Artist {
+  return {
+    artist_mbid: '',
+    artist_alias_list: [],
+    artist_rating: 0,
+    updated_time: UPDATED_TIME,
+    ...artist
+  };
+}
+
+function fillAlbum(album: NonNullable<MockCatalog['albums']>[number]): Album {
+  return {
+    album_mbid: '',
+    album_rating: 0,
+    album_release_date: '',
+    artist_id: 0,
+    artist_name: '',
+    primary_genres: { music_genre_list: [] },
+    album_pline: '',
+    album_copyright: '',
+    album_label: '',
+    restricted: 0,
+    updated_time: UPDATED_TIME,
+    ...album
+  };
+}
+
+function fillLyrics(
+  trackId: number,
+  lyrics: NonNullable<MockCatalog['lyrics']>[number]
+): Lyrics {
+  return {
+    lyrics_id: trackId,
+    restricted: 0,
+    instrumental: 0,
+    lyrics_language: 'en',
+    script_tracking_url: '',
+    pixel_tracking_url: '',
+    lyrics_copyright: '',
+    updated_time: UPDATED_TIME,
+    ...lyrics
+  };
+}
+
+function fillSubtitle(
+  trackId: number,
+  subtitle: NonNullable<MockCatalog['subtitles']>[number]
+): Subtitle {
+  return {
+    subtitle_id: trackId,
+    restricted: 0,
+    subtitle_language: 'en',
+    script_tracking_url: '',
+    pixel_tracking_url: '',
+    html_tracking_url: '',
+    lyrics_copyright: '',
+    updated_time: UPDATED_TIME,
+    ...subtitle
+  };
+}
+
+function fillRichSync(
+  trackId: number,
+  richsync: NonNullable<MockCatalog['richsyncs']>[number]
+): RichSync {
+  return {
+    richsync_id: trackId,
+    restricted: 0,
+    lyrics_copyright: '',
+    richsync_length: 0,
+    richsync_language: 'en',
+    richsync_language_description: 'English',
+    script_tracking_url: '',
+    updated_time: UPDATED_TIME,
+    ...richsync
+  };
+}
+
+function fillSnippet(
+  snippet: NonNullable<MockCatalog['snippets']>[number]
+): Snippet {
+  return {
+    snippet_language: 'en',
+    restricted: 0,
+    instrumental: 0,
+    script_tracking_url: '',
+    pixel_tracking_url: '',
+    html_tracking_url: '',
+    updated_time: UPDATED_TIME,
+    ...snippet
+  };
+}
+
+export { MockMusixmatchServer };
@@ -0,0 +1,274 @@
+import {
+  Album,
+  AlbumModel,
+  Artist,
+  ArtistModel,
+  GenreModel,
+  Lyrics,
+  LyricsModel,
+  LyricsTranslation,
+  Mood,
+  MoodModel,
+  MusicGenre,
+  MusicGenreList,
+  RichSync,
+  RichSyncModel,
+  Snippet,
+  SnippetModel,
+  Subtitle,
+  SubtitleModel,
+  SubtitleTranslation,
+  Track,
+  TrackModel,
+  TranslationModel
+} from '../interfaces';
+
+/**
+ * Turns a 0/1 flag into a boolean.
+ */
+function toBoolean(flag: number | undefined): boolean {
+  return Number(flag) === 1;
+}
+
+/**
+ * Parses an `updated_time` such as `2023-06-30T10:09:33Z`. A missing, empty
+ * or unparsable value gives `undefined` rather than an Invalid Date.
+ */
+function toDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toGenre(genre: MusicGenre): GenreModel {
+  return {
+    id: genre.music_genre_id,
+    parentId: genre.music_genre_parent_id,
+    name: genre.music_genre_name,
+    nameExtended: genre.music_genre_name_extended,
+    vanity: genre.music_genre_vanity
+  };
+}
+
+/**
+ * Flattens a `music_genre_list` into genres.
+ * @param list - The genre list, possibly missing.
+ * @returns The genres.
+ */
+function toGenres(list: MusicGenreList | undefined): GenreModel[] {
+  return (list?.music_genre_list ?? []).map((entry) =>
+    toGenre(entry.music_genre)
+  );
+}
+
+function toTrack(track: Track): TrackModel {
+  return {
+    id: track.track_id,
+    mbid: track.track_mbid,
+    isrc: track.track_isrc,
+    commontrackIsrcs: track.commontrack_isrcs,
+    spotifyId: track.track_spotify_id,
+    name: track.track_name,
+    nameTranslations: (track.track_name_translation_list ?? []).map(
+      (entry) => entry.track_name_translation
+    ),
+    rating: track.track_rating,
+    length: track.track_length,
+    commontrackId: track.commontrack_id,
+    instrumental: toBoolean(track.instrumental),
+    explicit: toBoolean(track.explicit),
+    hasLyrics: toBoolean(track.has_lyrics),
+    hasSubtitles: toBoolean(track.has_subtitles),
+    hasRichSync: toBoolean(track.has_richsync),
+    numFavourite: track.num_favourite,
+    lyricsId: track.lyrics_id,
+    subtitleId: track.subtitle_id,
+    albumId: track.album_id,
+    albumName: track.album_name,
+    artistId: track.artist_id,
+    artistName: track.artist_name,
+    albumCoverart100x100: track.album_coverart_100x100,
+    albumCoverart350x350: track.album_coverart_350x350,
+    albumCoverart500x500: track.album_coverart_500x500,
+    albumCoverart800x800: track.album_coverart_800x800,
+    shareUrl: track.track_share_url,
+    editUrl: track.track_edit_url,
+    restricted: toBoolean(track.restricted),
+    updatedTime: toDate(track.updated_time),
+    primaryGenres: toGenres(track.primary_genres),
+    secondaryGenres: toGenres(track.secondary_genres)
+  };
+}
+
+function toArtist(artist: Artist): ArtistModel {
+  return {
+    id: artist.artist_id,
+    mbid: artist.artist_mbid,
+    name: artist.artist_name,
+    nameTranslations: (artist.artist_name_translation_list ?? []).map(
+      (entry) => entry.artist_name_translation
+    ),
+    comment: artist.artist_comment || undefined,
+    country: artist.artist_country || undefined,
+    aliases: (artist.artist_alias_list ?? []).map(
+      (entry) => entry.artist_alias
+    ),
+    rating: artist.artist_rating,
+    twitterUrl: artist.artist_twitter_url || undefined,
+    credits: (artist.artist_credits?.artist_list ?? []).map((entry) =>
+      toArtist(entry.artist)
+    ),
+    primaryGenres: toGenres(artist.primary_genres),
+    secondaryGenres: toGenres(artist.secondary_genres),
+    restricted: toBoolean(artist.restricted),
+    beginDate: artist.begin_date || undefined,
+    endDate: artist.end_date || undefined,
+    updatedTime: toDate(artist.updated_time)
+  };
+}
+
+function toAlbum(album: Album): AlbumModel {
+  return {
+    id: album.album_id,
+    mbid: album.album_mbid,
+    name: album.album_name,
+    rating: album.album_rating,
+    trackCount: album.album_track_count,
+    releaseDate: album.album_release_date,
+    releaseType: album.album_release_type,
+    artistId: album.artist_id,
+    artistName: album.artist_name,
+    primaryGenres: toGenres(album.primary_genres),
+    secondaryGenres: toGenres(album.secondary_genres),
+    pline: album.album_pline,
+    copyright: album.album_copyright,
+    label: album.album_label,
+    coverart100x100: album.album_coverart_100x100,
+    coverart350x350: album.album_coverart_350x350,
+    coverart500x500: album.album_coverart_500x500,
+    coverart800x800: album.album_coverart_800x800,
+    restricted: toBoolean(album.restricted),
+    updatedTime: toDate(album.updated_time)
+  };
+}
+
+function toLyrics(lyrics: Lyrics): LyricsModel {
+  return {
+    id: lyrics.lyrics_id,
+    restricted: toBoolean(lyrics.restricted),
+    instrumental: toBoolean(lyrics.instrumental),
+    explicit:
+      lyrics.explicit === undefined ? undefined : toBoolean(lyrics.explicit),
+    body: lyrics.lyrics_body,
+    language: lyrics.lyrics_language,
+    languageDescription: lyrics.lyrics_language_description,
+    copyright: lyrics.lyrics_copyright,
+    scriptTrackingUrl: lyrics.script_tracking_url,
+    pixelTrackingUrl: lyrics.pixel_tracking_url,
+    htmlTrackingUrl: lyrics.html_tracking_url,
+    backlinkUrl: lyrics.backlink_url,
+    updatedTime: toDate(lyrics.updated_time)
+  };
+}
+
+function toSubtitle(subtitle: Subtitle): SubtitleModel {
+  return {
+    id: subtitle.subtitle_id,
+    restricted: toBoolean(subtitle.restricted),
+    body: subtitle.subtitle_body,
+    length: subtitle.subtitle_length,
+    language: subtitle.subtitle_language,
+    languageDescription: subtitle.subtitle_language_description,
+    copyright: subtitle.lyrics_copyright,
+    scriptTrackingUrl: subtitle.script_tracking_url,
+    pixelTrackingUrl: subtitle.pixel_tracking_url,
+    htmlTrackingUrl: subtitle.html_tracking_url,
+    updatedTime: toDate(subtitle.updated_time)
+  };
+}
+
+function toRichSync(richsync: RichSync): RichSyncModel {
+  return {
+    id: richsync.richsync_id,
+    restricted: toBoolean(richsync.restricted),
+    body: richsync.richsync_body,
+    length: richsync.richsync_length,
+    language: richsync.richsync_language,
+    languageDescription: richsync.richsync_language_description,
+    copyright: richsync.lyrics_copyright,
+    scriptTrackingUrl: richsync.script_tracking_url,
+    pixelTrackingUrl: richsync.pixel_tracking_url,
+    htmlTrackingUrl: richsync.html_tracking_url,
+    updatedTime: toDate(richsync.updated_time)
+  };
+}
+
+function toSnippet(snippet: Snippet): SnippetModel {
+  return {
+    language: snippet.snippet_language,
+    restricted: toBoolean(snippet.restricted),
+    instrumental: toBoolean(snippet.instrumental),
+    body: snippet.snippet_body,
+    scriptTrackingUrl: snippet.script_tracking_url,
+    pixelTrackingUrl: snippet.pixel_tracking_url,
+    htmlTrackingUrl: snippet.html_tracking_url,
+    updatedTime: toDate(snippet.updated_time)
+  };
+}
+
+/**
+ * Converts a lyrics or subtitle translation.
+ */
+function toTranslation(
+  translation: LyricsTranslation | SubtitleTranslation
+): TranslationModel {
+  return {
+    language: translation.selected_language,
+    restricted: toBoolean(translation.restricted),
+    body:
+      'lyrics_body' in translation
+        ? translation.lyrics_body
+        : translation.subtitle_body,
+    ratio: translation.translation_ratio,
+    copyright: translation.lyrics_copyright,
+    scriptTrackingUrl: translation.script_tracking_url,
+    pixelTrackingUrl: translation.pixel_tracking_url,
+    htmlTrackingUrl: translation.html_tracking_url
+  };
+}
+
+/**
+ * Converts a mood, or gives `undefined` when `raw_data` is missing or has no
+ * numeric valence and arousal.
+ */
+function toMood(mood: Mood): MoodModel | undefined {
+  const raw = mood?.raw_data;
+  if (
+    !raw ||
+    typeof raw.valence !== 'number' ||
+    typeof raw.arousal !== 'number'
+  ) {
+    return undefined;
+  }
+  return {
+    labels: mood.mood_list ?? [],
+    valence: raw.valence,
+    arousal: raw.arousal
+  };
+}
+
+export {
+  toGenre,
+  toGenres,
+  toTrack,
+  toArtist,
+  toAlbum,
+  toLyrics,
+  toSubtitle,
+  toRichSync,
+  toSnippet,
+  toTranslation,
+  toMood
+};
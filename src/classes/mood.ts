@@ -0,0 +1,176 @@
+import {
+  MoodModel,
+  MoodPoint,
+  MoodProfile,
+  MoodProfileOptions,
+  MoodQuadrant,
+  MoodStats,
+  MoodTrackRef,
+  MoodTrajectory,
+  TrackLyricsMoodGetParams
+} from '../interfaces';
+import { unwrapMood } from './resources';
+import type { Musixmatch } from './musixmatch';
+
+/**
+ * The direction of each trajectory preset.
+ */
+const TRAJECTORIES: {
+  [name: string]: { from: MoodPoint; to: MoodPoint };
+} = {
+  'calm-to-energetic': {
+    from: { valence: 0.5, arousal: 0 },
+    to: { valence: 0.5, arousal: 1 }
+  },
+  'energetic-to-calm': {
+    from: { valence: 0.5, arousal: 1 },
+    to: { valence: 0.5, arousal: 0 }
+  },
+  'sad-to-happy': {
+    from: { valence: 0, arousal: 0.5 },
+    to: { valence: 1, arousal: 0.5 }
+  },
+  'happy-to-sad': {
+    from: { valence: 1, arousal: 0.5 },
+    to: { valence: 0, arousal: 0.5 }
+  }
+};
+
+/**
+ * Finds the quadrant of a point. Values equal to `center` count as high.
+ * @param point - The valence and arousal.
+ * @param center - The value splitting the quadrants. Defaults to 0.5.
+ * @returns The quadrant.
+ */
+function moodQuadrant(point: MoodPoint, center: number = 0.5): MoodQuadrant {
+  const positive = point.valence >= center;
+  const intense = point.arousal >= center;
+  if (intense) {
+    return positive ? 'happy' : 'angry';
+  }
+  return positive ? 'calm' : 'sad';
+}
+
+/**
+ * Computes the mean and the population variance of some values, 0 and 0
+ * when there is none.
+ */
+function stats(values: number[]): MoodStats {
+  if (!values.length) {
+    return { mean: 0, variance: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) /
+    values.length;
+  return { mean, variance };
+}
+
+/**
+ * Builds the aggregate profile of moods that were already fetched.
+ * @param moods - The mood of each track.
+ * @param center - The value splitting the quadrants. Defaults to 0.5.
+ * @returns The profile, with no missing track.
+ */
+function buildMoodProfile(
+  moods: Array<{ track: MoodTrackRef; mood: MoodModel }>,
+  center: number = 0.5
+): MoodProfile {
+  const labels: { [label: string]: number } = {};
+  const quadrants = { happy: 0, angry: 0, sad: 0, calm: 0 };
+  const tracks = moods.map(({ track, mood }) => {
+    const quadrant = moodQuadrant(mood, center);
+    quadrants[quadrant] += 1;
+    mood.labels.forEach(({ label }) => {
+      labels[label] = (labels[label] ?? 0) + 1;
+    });
+    return {
+      track,
+      valence: mood.valence,
+      arousal: mood.arousal,
+      quadrant,
+      labels: mood.labels
+    };
+  });
+
+  return {
+    tracks,
+    missing: [],
+    valence: stats(tracks.map((track) => track.valence)),
+    arousal: stats(tracks.map((track) => track.arousal)),
+    labels,
+    quadrants
+  };
+}
+
+/**
+ * Orders tracks along a mood trajectory, e.g. from calm to energetic, by
+ * projecting each one on the line going from `from` to `to`. Tracks at the
+ * same position keep their order.
+ * @param tracks - The tracks, e.g. the `tracks` of a profile.
+ * @param trajectory - A preset, or the start and end points.
+ * @returns A new array, sorted along the trajectory.
+ */
+function orderByTrajectory<T extends MoodPoint>(
+  tracks: T[],
+  trajectory: MoodTrajectory
+): T[] {
+  const { from, to } =
+    typeof trajectory === 'string' ? TRAJECTORIES[trajectory] : trajectory;
+  const dv = to.valence - from.valence;
+  const da = to.arousal - from.arousal;
+  return tracks
+    .map((track, index) => ({
+      track,
+      index,
+      position:
+        (track.valence - from.valence) * dv +
+        (track.arousal - from.arousal) * da
+    }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(({ track }) => track);
+}
+
+/**
+ * Fetches the mood of many tracks with `track.lyrics.mood.get` and builds
+ * their aggregate profile. Numbers are commontrack ids, strings are ISRCs.
+ * Tracks whose mood cannot be fetched are listed in `missing` and left out
+ * of the statistics.
+ * @param client - The Musixmatch instance used to call the API.
+ * @param tracks - The tracks.
+ * @param options - The quadrant center and the batch options.
+ * @returns The profile.
+ */
+async function profileMoods(
+  client: Musixmatch,
+  tracks: MoodTrackRef[],
+  options: MoodProfileOptions = {}
+): Promise<MoodProfile> {
+  const { center = 0.5, ...batchOptions } = options;
+  const requests = tracks.map((track): TrackLyricsMoodGetParams =>
+    typeof track === 'number'
+      ? { commontrack_id: track }
+      : { track_isrc: track }
+  );
+  const results = await client.batch.trackLyricsMoodGet(requests, batchOptions);
+
+  const moods: Array<{ track: MoodTrackRef; mood: MoodModel }> = [];
+  const missing: MoodProfile['missing'] = [];
+  results.forEach((result, index) => {
+    const track = tracks[index];
+    if (result.status === 'rejected') {
+      missing.push({ track, reason: result.reason });
+      return;
+    }
+    const body = result.value.message.body;
+    try {
+      moods.push({ track, mood: unwrapMood(result.params, body) });
+    } catch (error) {
+      missing.push({ track, reason: error });
+    }
+  });
+
+  return { ...buildMoodProfile(moods, center), missing };
+}
+
+export { moodQuadrant, buildMoodProfile, orderByTrajectory, profileMoods };
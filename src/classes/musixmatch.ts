@@ -4,9 +4,18 @@ if (typeof Promise === 'undefined' || !Promise) {
   require('es6-promise').Promise;
 }
 
-import axios, { AxiosResponse } from 'axios';
 import * as expectations from './expectations';
-const { MXMException, MusixmatchError } = expectations;
+const {
+  MusixmatchError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  ResponseShapeError,
+  AuthError,
+  QuotaExceededError,
+  KeyPoolExhaustedError,
+  createApiError
+} = expectations;
 import {
   TrackGet,
   TrackSearch,
@@ -19,81 +28,672 @@ import {
   TrackSubtitle,
   MatcherLyrics,
   MatcherSubtitle,
-  MatcherTrack
+  MatcherTrack,
+  TrackLyricsPost,
+  TrackLyricsTranslation,
+  TrackSubtitleTranslation,
+  MusicGenres,
+  ArtistGet,
+  ArtistSearch,
+  ArtistAlbums,
+  ArtistRelated,
+  AlbumGet,
+  AlbumTracks,
+  TrackGetParams,
+  TrackSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  TrackLyricsGetParams,
+  TrackLyricsPostParams,
+  TrackLyricsMoodGetParams,
+  TrackSnippetGetParams,
+  TrackSubtitleGetParams,
+  TrackRichSyncGetParams,
+  TrackLyricsTranslationGetParams,
+  TrackSubtitleTranslationGetParams,
+  MatcherLyricsGetParams,
+  MatcherTrackGetParams,
+  MatcherSubtitleGetParams,
+  ArtistGetParams,
+  ArtistSearchParams,
+  ArtistAlbumsGetParams,
+  ArtistRelatedGetParams,
+  AlbumGetParams,
+  AlbumTracksGetParams,
+  MusixmatchOptions,
+  Transport,
+  TransportResponse,
+  QuotaUsage,
+  ApiKeyStats,
+  Middleware,
+  MiddlewareContext,
+  MusixmatchEvents,
+  LyricsQuery,
+  ResolveLyricsOptions,
+  ResolvedLyrics,
+  TranslationQuery,
+  AlignTranslationOptions,
+  AlignedTranslation,
+  MoodTrackRef,
+  MoodProfileOptions,
+  MoodProfile,
+  RequestOptions,
+  RequestErrorContext,
+  ValidationOptions
 } from '../interfaces';
+import { buildQueryParams, redactParams, requestOptions } from './params';
+import { AxiosTransport, toQueryString } from './transport';
+import { withFixtures } from './fixtures';
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  responseStatus,
+  errorCode,
+  backoffDelay,
+  shouldRetry,
+  sleep
+} from './retry';
+import { DailyQuota, TokenBucket } from './limiter';
+import { KeyPool } from './keys';
+import { ResponseCache } from './cache';
+import { Paginator } from './paginator';
+import { Batch } from './batch';
+import { Deadline } from './deadline';
+import { Emitter } from './emitter';
+import {
+  TrackResource,
+  ArtistResource,
+  AlbumResource,
+  ChartResource,
+  MatcherResource,
+  GenreResource
+} from './resources';
+import { validateResponse } from './schemas';
+import { resolveLyrics } from './resolver';
+import { alignTranslation } from './translation';
+import { profileMoods } from './mood';
+import { Compliance } from './compliance';
+import { decodeXmlResponse, isXmlResponse } from './xml';
 
 /**
  * Represents the Musixmatch API wrapper.
  */
 class Musixmatch {
   private apikey: string | undefined;
-  private baseUrl: string = 'https://api.musixmatch.com/ws/1.1/';
+  private keyPool: KeyPool | null;
+  private baseUrl: string;
+  private transport: Transport;
+  private retryPolicy: RetryPolicy | null;
+  private rateLimiter: TokenBucket | null;
+  private quota: DailyQuota | null;
+  private cache: ResponseCache | null;
+  private validation: ValidationOptions | null;
+  private timeoutMs: number | undefined;
+  private middlewares: Middleware[] = [];
+
+  /**
+   * Async iterators over the paginated endpoints.
+   */
+  readonly paginate: Paginator;
+
+  /**
+   * Emits `request`, `response`, `retry` and `error` events.
+   */
+  readonly events = new Emitter<MusixmatchEvents>();
+
+  /**
+   * Many lookups of the same endpoint, with bounded concurrency.
+   */
+  readonly batch: Batch;
+
+  /**
+   * Unwrapped, camelCase models of tracks, lyrics and syncs.
+   */
+  readonly tracks: TrackResource;
+
+  /**
+   * Unwrapped, camelCase models of artists.
+   */
+  readonly artists: ArtistResource;
+
+  /**
+   * Unwrapped, camelCase models of albums.
+   */
+  readonly albums: AlbumResource;
+
+  /**
+   * Unwrapped, camelCase models of the charts.
+   */
+  readonly charts: ChartResource;
+
+  /**
+   * Unwrapped, camelCase models of the matcher endpoints.
+   */
+  readonly matcher: MatcherResource;
+
+  /**
+   * Unwrapped, camelCase models of the music genres.
+   */
+  readonly genres: GenreResource;
+
+  /**
+   * Restriction checks, copyright notices and tracking pixels for the
+   * content shown to end users.
+   */
+  readonly compliance: Compliance;
 
   /**
    * Constructs a new instance of the Musixmatch class.
    * @param apiKey - The API Key.
+   * @param options - The client options (base URL, transport, retry policy, limits, cache, validation, timeout, fixtures, compliance, key pool).
    */
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: MusixmatchOptions = {}) {
     this.apikey = apiKey;
+    this.keyPool = options.keyPool ? new KeyPool(options.keyPool) : null;
+    const baseUrl = options.baseUrl ?? 'https://api.musixmatch.com/ws/1.1/';
+    this.baseUrl =
+      baseUrl.charAt(baseUrl.length - 1) === '/' ? baseUrl : `${baseUrl}/`;
+    const transport = options.transport ?? new AxiosTransport();
+    this.transport = options.fixtures
+      ? withFixtures(transport, options.fixtures)
+      : transport;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.rateLimiter = options.rateLimit
+      ? new TokenBucket(options.rateLimit)
+      : null;
+    this.quota = options.quota ? new DailyQuota(options.quota) : null;
+    this.cache = options.cache ? new ResponseCache(options.cache) : null;
+    this.validation = options.validation ?? null;
+    this.timeoutMs = options.timeoutMs;
+    this.paginate = new Paginator(this);
+    this.batch = new Batch(this);
+    this.tracks = new TrackResource(this);
+    this.artists = new ArtistResource(this);
+    this.albums = new AlbumResource(this);
+    this.charts = new ChartResource(this);
+    this.matcher = new MatcherResource(this);
+    this.genres = new GenreResource(this);
+    this.compliance = new Compliance(options.compliance);
   }
 
   /**
-   * Sets the API Key.
+   * Sets the API Key. Replaces the key pool, if any.
    * @param apiKey - The API Key.
    */
   setApiKey(apiKey?: string): void {
     this.apikey = apiKey;
+    this.keyPool = null;
+  }
+
+  /**
+   * Adds a middleware at the end of the chain. Middlewares run in the order
+   * they were added, around every call.
+   * @param middleware - The middleware.
+   * @returns The instance, for chaining.
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
   }
 
   /**
-   * Calls the Musixmatch API.
+   * Gets the daily quota usage of this instance.
+   * @returns The quota snapshot, or `null` when no quota is configured.
+   */
+  getQuotaUsage(): QuotaUsage | null {
+    return this.quota ? this.quota.usage() : null;
+  }
+
+  /**
+   * Gets the usage of every key of the key pool.
+   * @returns The stats in pool order, or `null` when no key pool is configured.
+   */
+  getKeyStats(): ApiKeyStats[] | null {
+    return this.keyPool ? this.keyPool.stats() : null;
+  }
+
+  /**
+   * Removes every cached response. Does nothing when no cache is configured.
+   */
+  async clearCache(): Promise<void> {
+    if (this.cache) {
+      await this.cache.clear();
+    }
+  }
+
+  /**
+   * Finds the lyrics of a track from catalogue metadata, chaining the
+   * matcher, a search and an ISRC lookup. See {@link resolveLyrics}.
+   * @param query - The track metadata.
+   * @param options - The resolver options.
+   * @returns The best match with its confidence, or `null` when nothing matches well enough.
+   */
+  resolveLyrics(
+    query: LyricsQuery,
+    options?: ResolveLyricsOptions
+  ): Promise<ResolvedLyrics | null> {
+    return resolveLyrics(this, query, options);
+  }
+
+  /**
+   * Fetches a track's lyrics and their translation and aligns them line by
+   * line, keeping the subtitle timestamps when available. See
+   * {@link alignTranslation}.
+   * @param query - The track and the language.
+   * @param options - The alignment options.
+   * @returns The aligned lines with the completion ratio, or `null` when the track has no lyrics or no translation in that language.
+   */
+  alignTranslation(
+    query: TranslationQuery,
+    options?: AlignTranslationOptions
+  ): Promise<AlignedTranslation | null> {
+    return alignTranslation(this, query, options);
+  }
+
+  /**
+   * Fetches the mood of many tracks and builds their aggregate profile:
+   * valence and arousal statistics, a label histogram and the quadrant of
+   * each track. See {@link profileMoods}.
+   * @param tracks - Commontrack ids or ISRCs.
+   * @param options - The quadrant center and the batch options.
+   * @returns The profile.
+   */
+  profileMoods(
+    tracks: MoodTrackRef[],
+    options?: MoodProfileOptions
+  ): Promise<MoodProfile> {
+    return profileMoods(this, tracks, options);
+  }
+
+  /**
+   * Calls the Musixmatch API through the middleware chain.
    * @param method - The HTTP method (get, post, or others).
    * @param apiMethod - The API method.
    * @param params - The parameters.
+   * @param callOptions - The request options.
    * @returns A promise that resolves to the API response.
    */
-  private async _apiCall<T>(
+  private async _apiCall<T extends { [key: string]: unknown }>(
     method: string,
     apiMethod: string,
-    params?: T
+    params?: T,
+    callOptions: RequestOptions = {}
   ): Promise<any> {
     const url = `${this.baseUrl}${apiMethod}`;
+    let apikey = callOptions.apikey ?? this.apikey;
+    if (this.keyPool && callOptions.apikey === undefined) {
+      apikey = this.keyPool.select();
+      if (apikey === undefined) {
+        throw new KeyPoolExhaustedError(this.keyPool.nextAvailableAt());
+      }
+    }
     const options = {
-      params: params
-        ? { ...params, apikey: this.apikey }
-        : { apikey: this.apikey },
+      params: params ? { ...params, apikey } : { apikey }
     };
+    const context: MiddlewareContext = {
+      method,
+      apiMethod,
+      url,
+      params: options.params as MiddlewareContext['params'],
+      headers: {},
+      options: callOptions
+    };
+    const middlewares = this.middlewares.slice();
 
-    try {
-      const response: AxiosResponse = await axios.request({
-        method,
-        url,
-        params: options.params,
+    const dispatch = (index: number): Promise<any> => {
+      if (index === middlewares.length) {
+        return this._send(context);
+      }
+      let called = false;
+      return middlewares[index](context, () => {
+        if (called) {
+          return Promise.reject(
+            new MusixmatchError('next() called multiple times')
+          );
+        }
+        called = true;
+        return dispatch(index + 1);
       });
-      const { status_code } = response.data.message.header;
+    };
+    return dispatch(0);
+  }
 
-      if (status_code === 200) {
-        return response.data;
-      } else {
-        const hint = response.data.message.header.hint || null;
-        throw new MXMException(status_code, `${response.config.url}`, hint);
+  /**
+   * Sends a call: cache lookup, quota and rate limits, retries, response
+   * handling and validation. Emits the lifecycle events.
+   * @param context - The call, as left by the middlewares.
+   * @returns A promise that resolves to the API response.
+   */
+  private async _send(context: MiddlewareContext): Promise<any> {
+    const { method, apiMethod, url, headers } = context;
+    const callOptions = context.options;
+    const params = context.params;
+    const started = Date.now();
+    let attempts = 0;
+    let failovers = 0;
+    const triedKeys: unknown[] = [params.apikey];
+    const isGet = method.toLowerCase() === 'get';
+    const timeoutMs = callOptions.timeoutMs ?? this.timeoutMs;
+    const errorContext = { apiMethod, params: redactParams(params) };
+    const deadline = new Deadline(
+      callOptions.signal,
+      timeoutMs,
+      () => new AbortError('The request was aborted', errorContext),
+      () =>
+        new TimeoutError(
+          `The request timed out after ${timeoutMs} ms`,
+          errorContext
+        )
+    );
+
+    try {
+      deadline.check();
+      const cacheTtl = this.cache && isGet ? this.cache.ttlOf(apiMethod) : 0;
+      const cacheKey =
+        this.cache && cacheTtl > 0
+          ? this.cache.key(apiMethod, params)
+          : undefined;
+      if (this.cache && cacheKey && callOptions.cache !== false) {
+        const cached = await deadline.race(this.cache.get(cacheKey));
+        if (cached !== undefined) {
+          this._emitResponse(apiMethod, params, started, cached, attempts);
+          return cached;
+        }
       }
-    } catch (error: any) {
-      if (error.response) {
-        throw new MusixmatchError(
-          `Status code: ${error.response.status}\nHTTP error occurred: ${error.response.data}`
+
+      const retryPolicy = isGet ? this.retryPolicy : null;
+
+      for (let attempt = 1; ; attempt++) {
+        let response: TransportResponse | undefined;
+        let failure: any;
+        attempts = attempt;
+        if (this.quota) {
+          await deadline.race(this.quota.acquire(deadline.signal));
+        }
+        if (this.rateLimiter) {
+          await deadline.race(this.rateLimiter.acquire(deadline.signal));
+        }
+        if (this.events.listenerCount('request')) {
+          this.events.emit('request', {
+            apiMethod,
+            method,
+            url,
+            params: redactParams(params),
+            attempt
+          });
+        }
+        if (this.keyPool) {
+          this.keyPool.sent(params.apikey);
+        }
+        try {
+          response = await deadline.race(
+            this.transport.request({
+              method,
+              url,
+              params: params,
+              headers,
+              signal: deadline.signal
+            })
+          );
+        } catch (error: any) {
+          deadline.check();
+          if (error instanceof MusixmatchError) {
+            // Raised by the library itself (e.g. a missing fixture), not a network failure.
+            throw error;
+          }
+          failure = error;
+          if (this.keyPool) {
+            this.keyPool.report(params.apikey, 'network');
+          }
+        }
+        if (response && isXmlResponse(response.data)) {
+          // Decoded before the retry decision, which reads the header-level status.
+          response = {
+            ...response,
+            data: decodeXmlResponse(apiMethod, response.data) ?? response.data
+          };
+        }
+
+        if (
+          retryPolicy &&
+          shouldRetry(retryPolicy, attempt - failovers, response, failure)
+        ) {
+          const delayMs = backoffDelay(retryPolicy, attempt - failovers);
+          const retry = {
+            apiMethod,
+            attempt,
+            delayMs,
+            statusCode: response ? responseStatus(response) : undefined,
+            error: failure
+          };
+          if (retryPolicy.onRetry) {
+            retryPolicy.onRetry(retry);
+          }
+          this.events.emit('retry', retry);
+          await deadline.race(sleep(delayMs, deadline.signal));
+          continue;
+        }
+
+        if (!response) {
+          throw this._networkError(apiMethod, params, failure);
+        }
+        let data: any;
+        try {
+          data = this._handleResponse(apiMethod, url, params, response);
+        } catch (error) {
+          if (this._failover(params, error, callOptions, triedKeys)) {
+            failovers += 1;
+            continue;
+          }
+          throw error;
+        }
+        if (this.keyPool) {
+          this.keyPool.report(params.apikey, 'success');
+        }
+        if (this.cache && cacheKey) {
+          await this.cache.set(cacheKey, data, cacheTtl);
+        }
+        this._emitResponse(
+          apiMethod,
+          params,
+          started,
+          data,
+          attempts,
+          response.status
         );
-      } else if (error.code === 'ECONNREFUSED') {
-        throw new MusixmatchError('Connection refused');
-      } else {
-        throw new MusixmatchError(error.message);
+        return data;
+      }
+    } catch (error) {
+      if (this.events.listenerCount('error')) {
+        this.events.emit('error', {
+          apiMethod,
+          params: redactParams(params),
+          error,
+          durationMs: Date.now() - started
+        });
       }
+      throw error;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Reports a failed call to the key pool and, on a 401 or 402, switches the
+   * call to an available key it has not been sent with yet.
+   * @param params - The query parameters, apikey included. Updated in place.
+   * @param error - The error of the call.
+   * @param callOptions - The request options.
+   * @param triedKeys - The keys the call was sent with. Updated in place.
+   * @returns Whether the call should be sent again with another key.
+   */
+  private _failover(
+    params: { [key: string]: unknown },
+    error: unknown,
+    callOptions: RequestOptions,
+    triedKeys: unknown[]
+  ): boolean {
+    if (!this.keyPool) {
+      return false;
+    }
+    if (!(error instanceof AuthError || error instanceof QuotaExceededError)) {
+      // Any other answer (a 404, a 400...) means the key was accepted.
+      this.keyPool.report(params.apikey, 'success');
+      return false;
+    }
+    this.keyPool.report(
+      params.apikey,
+      error instanceof AuthError ? 'auth' : 'quota'
+    );
+    if (callOptions.apikey !== undefined) {
+      return false;
+    }
+    const next = this.keyPool.select(triedKeys);
+    if (next === undefined) {
+      return false;
+    }
+    triedKeys.push(next);
+    params.apikey = next;
+    return true;
+  }
+
+  /**
+   * Emits the `response` event of a successful call.
+   * @param apiMethod - The API method.
+   * @param params - The query parameters, apikey included.
+   * @param started - When the call started.
+   * @param data - The API response.
+   * @param attempts - The number of attempts made, 0 for cache hits.
+   * @param status - The HTTP status, when a request was sent.
+   */
+  private _emitResponse(
+    apiMethod: string,
+    params: { [key: string]: unknown },
+    started: number,
+    data: any,
+    attempts: number,
+    status?: number
+  ): void {
+    if (!this.events.listenerCount('response')) {
+      return;
+    }
+    this.events.emit('response', {
+      apiMethod,
+      params: redactParams(params),
+      status,
+      durationMs: Date.now() - started,
+      execute_time: data?.message?.header?.execute_time,
+      cached: status === undefined,
+      attempts
+    });
+  }
+
+  /**
+   * Turns a transport response, XML already decoded, into the API response,
+   * or throws.
+   * @param apiMethod - The API method.
+   * @param url - The requested URL.
+   * @param params - The query parameters, apikey included.
+   * @param response - The transport response.
+   * @returns The API response.
+   */
+  private _handleResponse(
+    apiMethod: string,
+    url: string,
+    params: { [key: string]: unknown },
+    response: TransportResponse
+  ): any {
+    const redacted = redactParams(params);
+    const requestURL = `${url}?${toQueryString(redacted)}`;
+    const data = response.data;
+    const header = data?.message?.header;
+    const context = {
+      apiMethod,
+      params: redacted,
+      hint: header?.hint || undefined,
+      execute_time: header?.execute_time,
+      cause: data
+    };
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createApiError(response.status, requestURL, context);
+    }
+    if (!header) {
+      throw new MusixmatchError('Unexpected response from the Musixmatch API');
+    }
+
+    if (header.status_code !== 200) {
+      throw createApiError(header.status_code, requestURL, context);
+    }
+    if (this.validation) {
+      this._validate(apiMethod, data, context);
     }
+    return data;
+  }
+
+  /**
+   * Checks a response against the schema of its API method. Throws in strict
+   * mode, passes the issues to `onWarning` in lenient mode.
+   * @param apiMethod - The API method.
+   * @param data - The API response.
+   * @param context - The request context.
+   */
+  private _validate(
+    apiMethod: string,
+    data: unknown,
+    context: RequestErrorContext
+  ): void {
+    const issues = validateResponse(apiMethod, data);
+    if (!issues.length || !this.validation) {
+      return;
+    }
+    if (this.validation.mode === 'strict') {
+      throw new ResponseShapeError(issues, context);
+    }
+    if (this.validation.onWarning) {
+      this.validation.onWarning(apiMethod, issues);
+    }
+  }
+
+  /**
+   * Turns a transport failure into a NetworkError or a TimeoutError.
+   * @param apiMethod - The API method.
+   * @param params - The query parameters, apikey included.
+   * @param failure - The transport error.
+   * @returns The error to throw.
+   */
+  private _networkError(
+    apiMethod: string,
+    params: { [key: string]: unknown },
+    failure: any
+  ): expectations.MusixmatchRequestError {
+    const code = errorCode(failure);
+    const context = {
+      apiMethod,
+      params: redactParams(params),
+      cause: failure
+    };
+
+    if (
+      code === 'ETIMEDOUT' ||
+      code === 'ECONNABORTED' ||
+      failure?.name === 'TimeoutError'
+    ) {
+      return new TimeoutError(failure?.message || 'Request timed out', context);
+    }
+    return new NetworkError(
+      code === 'ECONNREFUSED'
+        ? 'Connection refused'
+        : failure?.message || 'Network error',
+      context,
+      code
+    );
   }
 
   /**
    * Get a track info from Musixmatch database: title, artist, isrc(s), instrumental flag.
    * @param params - The parameters.
+   * @param options - The request options.
    * @returns A promise that resolves to the track information.
    *
    * Parameters:
@@ -101,16 +701,27 @@ class Musixmatch {
    * - **`commontrack_id`** - The Musixmatch commontrack id
    
    */
-  async trackGet<T extends string>(...params: T[]): Promise<TrackGet> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackGet(
+    params?: TrackGetParams,
+    options?: RequestOptions
+  ): Promise<TrackGet>;
+  /** @deprecated Pass a {@link TrackGetParams} object instead. */
+  trackGet(...params: string[]): Promise<TrackGet>;
+  async trackGet(
+    ...args: Array<TrackGetParams | RequestOptions | string | undefined>
+  ): Promise<TrackGet> {
+    return this._apiCall(
+      'get',
+      'track.get',
+      buildQueryParams('track.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.get', queryParams);
   }
 
   /**
    * Search for track in Musixmatch database.
    * @param params - The parameters.
+   * @param options - The request options.
    * @returns A promise that resolves to the search results.
    *
    * parameters:
@@ -132,16 +743,27 @@ class Musixmatch {
    * - page Define the page number for paginated results
    * - page_size Define the page size for paginated results. Range is 1 to 100.
    */
-  async trackSearch<T extends string>(...params: T[]): Promise<TrackSearch> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackSearch(
+    params?: TrackSearchParams,
+    options?: RequestOptions
+  ): Promise<TrackSearch>;
+  /** @deprecated Pass a {@link TrackSearchParams} object instead. */
+  trackSearch(...params: string[]): Promise<TrackSearch>;
+  async trackSearch(
+    ...args: Array<TrackSearchParams | RequestOptions | string | undefined>
+  ): Promise<TrackSearch> {
+    return this._apiCall(
+      'get',
+      'track.search',
+      buildQueryParams('track.search', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.search', queryParams);
   }
 
   /**
    * This function provides you the list of the top artists of a given country.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the chart artist.
    *
    * parameters:
@@ -150,18 +772,27 @@ class Musixmatch {
    * - page_size - Define the page size for paginated results. Range is 1 to 100.
    * - format - Decide the output type (json or xml) NOTE: JSON has autocomplete.
    */
-  async chartArtistGet<T extends string>(
-    ...params: T[]
+  chartArtistGet(
+    params?: ChartArtistsGetParams,
+    options?: RequestOptions
+  ): Promise<ChartArtists>;
+  /** @deprecated Pass a {@link ChartArtistsGetParams} object instead. */
+  chartArtistGet(...params: string[]): Promise<ChartArtists>;
+  async chartArtistGet(
+    ...args: Array<ChartArtistsGetParams | RequestOptions | string | undefined>
   ): Promise<ChartArtists> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'chart.artists.get',
+      buildQueryParams('chart.artists.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'chart.artists.get', queryParams);
   }
 
   /**
    * - This api provides you the list of the top songs of a given country.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the chart tracks.
    *
    * parameters:
@@ -178,11 +809,21 @@ class Musixmatch {
    *    mxmweekly_new : Most viewed lyrics in the last 7 days limited to new releases only
    * - f_has_lyrics When set, filter only contents with lyrics
    */
-  async chartTracksGet<T extends string>(...params: T[]): Promise<ChartTracks> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  chartTracksGet(
+    params?: ChartTracksGetParams,
+    options?: RequestOptions
+  ): Promise<ChartTracks>;
+  /** @deprecated Pass a {@link ChartTracksGetParams} object instead. */
+  chartTracksGet(...params: string[]): Promise<ChartTracks>;
+  async chartTracksGet(
+    ...args: Array<ChartTracksGetParams | RequestOptions | string | undefined>
+  ): Promise<ChartTracks> {
+    return this._apiCall(
+      'get',
+      'chart.tracks.get',
+      buildQueryParams('chart.tracks.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'chart.tracks.get', queryParams);
   }
 
   /**
@@ -190,23 +831,35 @@ class Musixmatch {
    *
    * Make sure the fullfil the country restriction you recieve within every copyrighted content>
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the track lyrics.
    *
    * parameters:
    * - track_id - The Musixmatch track id
    * - commontrack_id - The Musixmatch commontrack id
    */
-  async trackLyricsGet<T extends string>(...params: T[]): Promise<TrackLyrics> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackLyricsGet(
+    params?: TrackLyricsGetParams,
+    options?: RequestOptions
+  ): Promise<TrackLyrics>;
+  /** @deprecated Pass a {@link TrackLyricsGetParams} object instead. */
+  trackLyricsGet(...params: string[]): Promise<TrackLyrics>;
+  async trackLyricsGet(
+    ...args: Array<TrackLyricsGetParams | RequestOptions | string | undefined>
+  ): Promise<TrackLyrics> {
+    return this._apiCall(
+      'get',
+      'track.lyrics.get',
+      buildQueryParams('track.lyrics.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.lyrics.get', queryParams);
   }
 
   /**
    * Submit a lyrics to Musixmatch database.
    * Use this api to submit lyrics to Musixmatch database. Musixmatch can only add lyrics if we already have the song meta-data. Musixmatch will validate every submission and in case, make it available through Musixmatch api to Musixmatch customers. The lyrics have to be submitted according to [Musixmatch Guidelines](https://community.musixmatch.com/guidelines?lng=en-US)
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the lyrics publish.
    *
    * parameters:
@@ -214,29 +867,50 @@ class Musixmatch {
    * - track_isrc - A valid isrc
    * - lyrics_body - The lyrics
    */
-  async trackLyricsPost<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackLyricsPost(
+    params: TrackLyricsPostParams,
+    options?: RequestOptions
+  ): Promise<TrackLyricsPost>;
+  /** @deprecated Pass a {@link TrackLyricsPostParams} object instead. */
+  trackLyricsPost(...params: string[]): Promise<TrackLyricsPost>;
+  async trackLyricsPost(
+    ...args: Array<TrackLyricsPostParams | RequestOptions | string | undefined>
+  ): Promise<TrackLyricsPost> {
+    return this._apiCall(
+      'post',
+      'track.lyrics.post',
+      buildQueryParams('track.lyrics.post', args),
+      requestOptions(args)
     );
-    return this._apiCall('post', 'track.lyrics.post', queryParams);
   }
 
   /**
    * Get the mood list (and raw value that generated it) of a lyrics
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the track mood.
    *
    * parameters:
    * - commontrack_id - The Musixmatch track id
    * - track_isrc - A valid ISRC identifier
    */
-  async trackLyricsMoodGet<T extends string>(
-    ...params: T[]
+  trackLyricsMoodGet(
+    params?: TrackLyricsMoodGetParams,
+    options?: RequestOptions
+  ): Promise<TrackMood>;
+  /** @deprecated Pass a {@link TrackLyricsMoodGetParams} object instead. */
+  trackLyricsMoodGet(...params: string[]): Promise<TrackMood>;
+  async trackLyricsMoodGet(
+    ...args: Array<
+      TrackLyricsMoodGetParams | RequestOptions | string | undefined
+    >
   ): Promise<TrackMood> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'track.lyrics.mood.get',
+      buildQueryParams('track.lyrics.mood.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.lyrics.mood.get', queryParams);
   }
 
   /**
@@ -244,18 +918,27 @@ class Musixmatch {
    *
    * A lyrics snippet is a very short representation of a song lyrics. It’s usually twenty to a hundred characters long and it’s calculated extracting a sequence of words from the lyrics.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the track snippet
    *
    * parameters:
    * - track_id - The musixmatch track id
    */
-  async trackSnippetGet<T extends string>(
-    ...params: T[]
+  trackSnippetGet(
+    params: TrackSnippetGetParams,
+    options?: RequestOptions
+  ): Promise<TrackSnippet>;
+  /** @deprecated Pass a {@link TrackSnippetGetParams} object instead. */
+  trackSnippetGet(...params: string[]): Promise<TrackSnippet>;
+  async trackSnippetGet(
+    ...args: Array<TrackSnippetGetParams | RequestOptions | string | undefined>
   ): Promise<TrackSnippet> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'track.snippet.get',
+      buildQueryParams('track.snippet.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.snippet.get', queryParams);
   }
 
   /**
@@ -267,6 +950,7 @@ class Musixmatch {
    *
    * Make sure the fullfil the country restriction you recieve within every copyrighted content.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the track subtitle.
    *
    * parameters:
@@ -275,13 +959,21 @@ class Musixmatch {
    * - f_subtitle_length - The desired length of the subtitle (seconds)
    * - f_subtitle_length_max_deviation - The maximum deviation allowed from the f_subtitle_length (seconds)
    */
-  async trackSubtitleGet<T extends string>(
-    ...params: T[]
+  trackSubtitleGet(
+    params?: TrackSubtitleGetParams,
+    options?: RequestOptions
+  ): Promise<TrackSubtitle>;
+  /** @deprecated Pass a {@link TrackSubtitleGetParams} object instead. */
+  trackSubtitleGet(...params: string[]): Promise<TrackSubtitle>;
+  async trackSubtitleGet(
+    ...args: Array<TrackSubtitleGetParams | RequestOptions | string | undefined>
   ): Promise<TrackSubtitle> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'track.subtitle.get',
+      buildQueryParams('track.subtitle.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.subtitle.get', queryParams);
   }
 
   /**
@@ -294,6 +986,7 @@ class Musixmatch {
    * - multiple concurrent voices
    * - multiple scrolling direction
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the track rich sync.
    *
    * parameters:
@@ -301,18 +994,27 @@ class Musixmatch {
    * - f_richsync_length - The desired length of the sync (seconds)
    * - f_richsync_length_max_deviation - The maximum deviation allowed from the f_sync_length (seconds)
    */
-  async trackRichSyncGet<T extends string>(
-    ...params: T[]
+  trackRichSyncGet(
+    params: TrackRichSyncGetParams,
+    options?: RequestOptions
+  ): Promise<TrackRichSync>;
+  /** @deprecated Pass a {@link TrackRichSyncGetParams} object instead. */
+  trackRichSyncGet(...params: string[]): Promise<TrackRichSync>;
+  async trackRichSyncGet(
+    ...args: Array<TrackRichSyncGetParams | RequestOptions | string | undefined>
   ): Promise<TrackRichSync> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'track.richsync.get',
+      buildQueryParams('track.richsync.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.richsync.get', queryParams);
   }
 
   /**
    * Get a translated lyrics for a given language
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the Lyrics Translation
    *
    * parameters:
@@ -323,18 +1025,31 @@ class Musixmatch {
    * - track_isrc - A valid ISRC identifier
    * - track_mbid - The musicbrainz recording id
    */
-  async trackLyricsTranslationGet<T extends string>(
-    ...params: T[]
-  ): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackLyricsTranslationGet(
+    params: TrackLyricsTranslationGetParams,
+    options?: RequestOptions
+  ): Promise<TrackLyricsTranslation>;
+  /** @deprecated Pass a {@link TrackLyricsTranslationGetParams} object instead. */
+  trackLyricsTranslationGet(
+    ...params: string[]
+  ): Promise<TrackLyricsTranslation>;
+  async trackLyricsTranslationGet(
+    ...args: Array<
+      TrackLyricsTranslationGetParams | RequestOptions | string | undefined
+    >
+  ): Promise<TrackLyricsTranslation> {
+    return this._apiCall(
+      'get',
+      'track.lyrics.translation.get',
+      buildQueryParams('track.lyrics.translation.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.lyrics.translation.get', queryParams);
   }
 
   /**
    * Get a translated subtitle for a given language
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the track subtitle translation.
    *
    * parameters:
@@ -345,26 +1060,40 @@ class Musixmatch {
    * - f_subtitle_length - The desired length of the subtitle (seconds)
    * - f_subtitle_length_max_deviation - The maximum deviation allowed from the f_subtitle_length (seconds)
    */
-  async trackSubttileTranslationGet<T extends string>(
-    ...params: T[]
-  ): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  trackSubttileTranslationGet(
+    params: TrackSubtitleTranslationGetParams,
+    options?: RequestOptions
+  ): Promise<TrackSubtitleTranslation>;
+  /** @deprecated Pass a {@link TrackSubtitleTranslationGetParams} object instead. */
+  trackSubttileTranslationGet(
+    ...params: string[]
+  ): Promise<TrackSubtitleTranslation>;
+  async trackSubttileTranslationGet(
+    ...args: Array<
+      TrackSubtitleTranslationGetParams | RequestOptions | string | undefined
+    >
+  ): Promise<TrackSubtitleTranslation> {
+    return this._apiCall(
+      'get',
+      'track.subtitle.translation.get',
+      buildQueryParams('track.subtitle.translation.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'track.subtitle.translation.get', queryParams);
   }
 
   /**
    * Get the list of the music genres of our catalogue.
+   * @param options - The request options.
    * @returns - A promise that resolves to the all music genres.
    */
-  async musicGenresGet(): Promise<any> {
-    return this._apiCall('get', 'music.genres.get');
+  async musicGenresGet(options?: RequestOptions): Promise<MusicGenres> {
+    return this._apiCall('get', 'music.genres.get', {}, options);
   }
 
   /**
    * Get the lyrics for track based on title and artist
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the matcher lyrics.
    *
    * parameters:
@@ -372,13 +1101,21 @@ class Musixmatch {
    * - q_artist - The song artist
    * - track_isrc - If you have an available isrc id in your catalogue you can query using this id only (optional)
    */
-  async matcherLyricsGet<T extends string>(
-    ...params: T[]
+  matcherLyricsGet(
+    params?: MatcherLyricsGetParams,
+    options?: RequestOptions
+  ): Promise<MatcherLyrics>;
+  /** @deprecated Pass a {@link MatcherLyricsGetParams} object instead. */
+  matcherLyricsGet(...params: string[]): Promise<MatcherLyrics>;
+  async matcherLyricsGet(
+    ...args: Array<MatcherLyricsGetParams | RequestOptions | string | undefined>
   ): Promise<MatcherLyrics> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'matcher.lyrics.get',
+      buildQueryParams('matcher.lyrics.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'matcher.lyrics.get', queryParams);
   }
 
   /**
@@ -392,6 +1129,7 @@ class Musixmatch {
    *
    * The matcher.track.get method does all the job for you in a single call. This way you dont’t need to worry about the details, and you’ll get instant benefits for your application without changing a row in your code, while we take care of improving the implementation behind. Cool, uh?
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the matcher track.
    *
    * parameters:
@@ -399,18 +1137,27 @@ class Musixmatch {
    * - q_artist - The song artist
    * - q_albumThe song album
    */
-  async matcherTrackGet<T extends string>(
-    ...params: T[]
+  matcherTrackGet(
+    params?: MatcherTrackGetParams,
+    options?: RequestOptions
+  ): Promise<MatcherTrack>;
+  /** @deprecated Pass a {@link MatcherTrackGetParams} object instead. */
+  matcherTrackGet(...params: string[]): Promise<MatcherTrack>;
+  async matcherTrackGet(
+    ...args: Array<MatcherTrackGetParams | RequestOptions | string | undefined>
   ): Promise<MatcherTrack> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'matcher.track.get',
+      buildQueryParams('matcher.track.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'matcher.track.get', queryParams);
   }
 
   /**
    * Get the subtitles for a song given his title,artist and duration.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the matcher subtitle
    *
    * parameters:
@@ -420,34 +1167,56 @@ class Musixmatch {
    * f_subtitle_length_max_deviation - Max deviation for a subtitle length in seconds
    * track_isrc If you have an available isrc id in your catalogue you can query using this id only (optional)
    */
-  async matcherSubtitleGet<T extends string>(
-    ...params: T[]
+  matcherSubtitleGet(
+    params?: MatcherSubtitleGetParams,
+    options?: RequestOptions
+  ): Promise<MatcherSubtitle>;
+  /** @deprecated Pass a {@link MatcherSubtitleGetParams} object instead. */
+  matcherSubtitleGet(...params: string[]): Promise<MatcherSubtitle>;
+  async matcherSubtitleGet(
+    ...args: Array<
+      MatcherSubtitleGetParams | RequestOptions | string | undefined
+    >
   ): Promise<MatcherSubtitle> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+    return this._apiCall(
+      'get',
+      'matcher.subtitle.get',
+      buildQueryParams('matcher.subtitle.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'matcher.subtitle.get', queryParams);
   }
 
   /**
    * Get the artist data from Musixmatch database.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns - A promise that resolves to the artist get
    *
    * parameters:
    * - artist_id - Musixmatch artist id
    * - artist_mbid - Musicbrainz artist id
    */
-  async artistGet<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  artistGet(
+    params?: ArtistGetParams,
+    options?: RequestOptions
+  ): Promise<ArtistGet>;
+  /** @deprecated Pass a {@link ArtistGetParams} object instead. */
+  artistGet(...params: string[]): Promise<ArtistGet>;
+  async artistGet(
+    ...args: Array<ArtistGetParams | RequestOptions | string | undefined>
+  ): Promise<ArtistGet> {
+    return this._apiCall(
+      'get',
+      'artist.get',
+      buildQueryParams('artist.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'artist.get', queryParams);
   }
 
   /**
    * Search for artists in Musixmatch database.
    * @param params - The parameters.
+   * @param options - The request options.
    * @returns A promise that resolves to the artist search.
    *
    * parameters:
@@ -458,16 +1227,27 @@ class Musixmatch {
    * - page_size - Define the page size for paginated results. Range is 1 to 100.
    * - format - Decide the output type (json or xml)
    */
-  async artistSearch<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  artistSearch(
+    params?: ArtistSearchParams,
+    options?: RequestOptions
+  ): Promise<ArtistSearch>;
+  /** @deprecated Pass a {@link ArtistSearchParams} object instead. */
+  artistSearch(...params: string[]): Promise<ArtistSearch>;
+  async artistSearch(
+    ...args: Array<ArtistSearchParams | RequestOptions | string | undefined>
+  ): Promise<ArtistSearch> {
+    return this._apiCall(
+      'get',
+      'artist.search',
+      buildQueryParams('artist.search', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'artist.search', queryParams);
   }
 
   /**
    * Get the album discography of an artist
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the artist albums
    *
    * parameters:
@@ -478,16 +1258,27 @@ class Musixmatch {
    * - page - Define the page number for paginated results
    * - page_size - Define the page size for paginated results. Range is 1 to 100.
    */
-  async artistAlbumsGet<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  artistAlbumsGet(
+    params?: ArtistAlbumsGetParams,
+    options?: RequestOptions
+  ): Promise<ArtistAlbums>;
+  /** @deprecated Pass a {@link ArtistAlbumsGetParams} object instead. */
+  artistAlbumsGet(...params: string[]): Promise<ArtistAlbums>;
+  async artistAlbumsGet(
+    ...args: Array<ArtistAlbumsGetParams | RequestOptions | string | undefined>
+  ): Promise<ArtistAlbums> {
+    return this._apiCall(
+      'get',
+      'artist.albums.get',
+      buildQueryParams('artist.albums.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'artist.albums.get', queryParams);
   }
 
   /**
    * Get a list of artists somehow related to a given one.
    * @param params - The parameters
+   * @param options - The request options.
    * @returns A promise that resolves to the related artists.
    *
    * parameters:
@@ -497,23 +1288,78 @@ class Musixmatch {
    * - page_size - Define the page size for paginated results. Range is 1 to 100.
    * format - Decide the output type (json or xml)
    */
-  async artistRelatedGet<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+  artistRelatedGet(
+    params?: ArtistRelatedGetParams,
+    options?: RequestOptions
+  ): Promise<ArtistRelated>;
+  /** @deprecated Pass a {@link ArtistRelatedGetParams} object instead. */
+  artistRelatedGet(...params: string[]): Promise<ArtistRelated>;
+  async artistRelatedGet(
+    ...args: Array<ArtistRelatedGetParams | RequestOptions | string | undefined>
+  ): Promise<ArtistRelated> {
+    return this._apiCall(
+      'get',
+      'artist.related.get',
+      buildQueryParams('artist.related.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'artist.related.get', queryParams);
   }
-  async albumGet<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+
+  /**
+   * Get an album from Musixmatch database: name, release_date, release_type, cover art.
+   * @param params - The parameters
+   * @param options - The request options.
+   * @returns A promise that resolves to the album.
+   *
+   * parameters:
+   * - album_id - The Musixmatch album id
+   * - album_mbid - The Musicbrainz album id
+   */
+  albumGet(
+    params?: AlbumGetParams,
+    options?: RequestOptions
+  ): Promise<AlbumGet>;
+  /** @deprecated Pass a {@link AlbumGetParams} object instead. */
+  albumGet(...params: string[]): Promise<AlbumGet>;
+  async albumGet(
+    ...args: Array<AlbumGetParams | RequestOptions | string | undefined>
+  ): Promise<AlbumGet> {
+    return this._apiCall(
+      'get',
+      'album.get',
+      buildQueryParams('album.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'album.get', queryParams);
   }
-  async albumTracksGet<T extends string>(...params: T[]): Promise<any> {
-    const queryParams = Object.fromEntries(
-      params.map((param) => param.split('='))
+
+  /**
+   * This api provides you the list of the songs of an album.
+   * @param params - The parameters
+   * @param options - The request options.
+   * @returns A promise that resolves to the album tracks.
+   *
+   * parameters:
+   * - album_id - The Musixmatch album id
+   * - album_mbid - The Musicbrainz album id
+   * - f_has_lyrics - When set, filter only contents with lyrics
+   * - page - Define the page number for paginated results
+   * - page_size - Define the page size for paginated results. Range is 1 to 100.
+   */
+  albumTracksGet(
+    params?: AlbumTracksGetParams,
+    options?: RequestOptions
+  ): Promise<AlbumTracks>;
+  /** @deprecated Pass a {@link AlbumTracksGetParams} object instead. */
+  albumTracksGet(...params: string[]): Promise<AlbumTracks>;
+  async albumTracksGet(
+    ...args: Array<AlbumTracksGetParams | RequestOptions | string | undefined>
+  ): Promise<AlbumTracks> {
+    return this._apiCall(
+      'get',
+      'album.tracks.get',
+      buildQueryParams('album.tracks.get', args),
+      requestOptions(args)
     );
-    return this._apiCall('get', 'album.tracks.get', queryParams);
   }
 }
 
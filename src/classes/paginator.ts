@@ -0,0 +1,230 @@
+import {
+  Track,
+  Artist,
+  Album,
+  TrackSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  ArtistSearchParams,
+  ArtistAlbumsGetParams,
+  ArtistRelatedGetParams,
+  AlbumTracksGetParams,
+  PaginationParams,
+  PaginateOptions,
+  RequestOptions
+} from '../interfaces';
+import { AbortError } from './expectations';
+import type { Musixmatch } from './musixmatch';
+
+/**
+ * Walks the pages of the paginated endpoints, yielding one item at a time.
+ *
+ * Iteration stops when a page comes back shorter than `page_size`, when
+ * `header.available` items have been seen or when `maxItems` is reached.
+ * Breaking out of a `for await` loop stops it too. When the signal is
+ * aborted, the iterator throws an AbortError, like the endpoint methods.
+ */
+class Paginator {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the Paginator class.
+   * @param client - The Musixmatch instance used to fetch the pages.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Iterates over the tracks of a track search.
+   * @param params - The search parameters.
+   * @param options - The pagination options.
+   */
+  trackSearch(
+    params: TrackSearchParams = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<Track> {
+    return this.iterate(
+      (page, requestOptions) => this.client.trackSearch(page, requestOptions),
+      params,
+      'track_list',
+      'track',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the artists of an artist search.
+   * @param params - The search parameters.
+   * @param options - The pagination options.
+   */
+  artistSearch(
+    params: ArtistSearchParams = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<Artist> {
+    return this.iterate(
+      (page, requestOptions) => this.client.artistSearch(page, requestOptions),
+      params,
+      'artist_list',
+      'artist',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the albums of an artist.
+   * @param params - The artist parameters.
+   * @param options - The pagination options.
+   */
+  artistAlbumsGet(
+    params: ArtistAlbumsGetParams,
+    options?: PaginateOptions
+  ): AsyncGenerator<Album> {
+    return this.iterate(
+      (page, requestOptions) =>
+        this.client.artistAlbumsGet(page, requestOptions),
+      params,
+      'album_list',
+      'album',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the artists related to a given one.
+   * @param params - The artist parameters.
+   * @param options - The pagination options.
+   */
+  artistRelatedGet(
+    params: ArtistRelatedGetParams,
+    options?: PaginateOptions
+  ): AsyncGenerator<Artist> {
+    return this.iterate(
+      (page, requestOptions) =>
+        this.client.artistRelatedGet(page, requestOptions),
+      params,
+      'artist_list',
+      'artist',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the tracks of an album.
+   * @param params - The album parameters.
+   * @param options - The pagination options.
+   */
+  albumTracksGet(
+    params: AlbumTracksGetParams,
+    options?: PaginateOptions
+  ): AsyncGenerator<Track> {
+    return this.iterate(
+      (page, requestOptions) =>
+        this.client.albumTracksGet(page, requestOptions),
+      params,
+      'track_list',
+      'track',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the tracks of a chart.
+   * @param params - The chart parameters.
+   * @param options - The pagination options.
+   */
+  chartTracksGet(
+    params: ChartTracksGetParams = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<Track> {
+    return this.iterate(
+      (page, requestOptions) =>
+        this.client.chartTracksGet(page, requestOptions),
+      params,
+      'track_list',
+      'track',
+      options
+    );
+  }
+
+  /**
+   * Iterates over the artists of a chart.
+   * @param params - The chart parameters.
+   * @param options - The pagination options.
+   */
+  chartArtistGet(
+    params: ChartArtistsGetParams = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<Artist> {
+    return this.iterate(
+      (page, requestOptions) =>
+        this.client.chartArtistGet(page, requestOptions),
+      params,
+      'artist_list',
+      'artist',
+      options
+    );
+  }
+
+  /**
+   * Fetches the pages one after the other and yields their items.
+   * @param fetchPage - Fetches a single page.
+   * @param params - The parameters of the first page.
+   * @param listKey - The key of the list in `message.body`.
+   * @param itemKey - The key wrapping each item of the list.
+   * @param options - The pagination options.
+   */
+  private async *iterate<P extends PaginationParams>(
+    fetchPage: (params: P, options: RequestOptions) => Promise<any>,
+    params: P,
+    listKey: string,
+    itemKey: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<any> {
+    const { maxItems, ...requestOptions } = options;
+    const signal = options.signal;
+    const pageSize = params.page_size ?? 100;
+    let page = params.page ?? 1;
+    let seen = 0;
+
+    while (true) {
+      throwIfAborted(signal);
+      const response = await fetchPage(
+        { ...params, page, page_size: pageSize },
+        requestOptions
+      );
+      const list: any[] = response.message.body?.[listKey] ?? [];
+      const available: number | undefined = response.message.header.available;
+
+      for (const entry of list) {
+        throwIfAborted(signal);
+        if (maxItems !== undefined && seen >= maxItems) {
+          return;
+        }
+        seen += 1;
+        yield entry[itemKey];
+      }
+
+      if (
+        list.length < pageSize ||
+        (available !== undefined && page * pageSize >= available) ||
+        (maxItems !== undefined && seen >= maxItems)
+      ) {
+        return;
+      }
+      page += 1;
+    }
+  }
+}
+
+/**
+ * Throws an AbortError when the signal is aborted.
+ * @param signal - The signal, if any.
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError('The pagination was aborted');
+  }
+}
+
+export { Paginator };
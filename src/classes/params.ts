@@ -0,0 +1,415 @@
+import { InvalidParamsError } from './expectations';
+import {
+  TrackGetParams,
+  TrackSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  TrackLyricsGetParams,
+  TrackLyricsPostParams,
+  TrackLyricsMoodGetParams,
+  TrackSnippetGetParams,
+  TrackSubtitleGetParams,
+  TrackRichSyncGetParams,
+  TrackLyricsTranslationGetParams,
+  TrackSubtitleTranslationGetParams,
+  MatcherLyricsGetParams,
+  MatcherTrackGetParams,
+  MatcherSubtitleGetParams,
+  ArtistGetParams,
+  ArtistSearchParams,
+  ArtistAlbumsGetParams,
+  ArtistRelatedGetParams,
+  AlbumGetParams,
+  AlbumTracksGetParams,
+  RequestOptions
+} from '../interfaces';
+
+type ParamRule =
+  | { type: 'string'; required?: boolean }
+  | {
+      type: 'number';
+      required?: boolean;
+      integer?: boolean;
+      min?: number;
+      max?: number;
+    }
+  | { type: 'enum'; required?: boolean; values: string[] }
+  | { type: 'flag'; required?: boolean }
+  | { type: 'date'; required?: boolean };
+
+/**
+ * One rule per key of a params interface, so the runtime checks cannot drift
+ * away from the public types.
+ */
+type ParamRules<T> = { [K in keyof T]-?: ParamRule };
+
+type QueryParams = { [key: string]: string | number };
+
+const id: ParamRule = { type: 'number', integer: true, min: 1 };
+const text: ParamRule = { type: 'string' };
+const flag: ParamRule = { type: 'flag' };
+const date: ParamRule = { type: 'date' };
+const seconds: ParamRule = { type: 'number', min: 0 };
+const ratio: ParamRule = { type: 'number', min: 0, max: 1 };
+const sortOrder: ParamRule = { type: 'enum', values: ['asc', 'desc'] };
+const format: ParamRule = { type: 'enum', values: ['json', 'xml'] };
+const pagination = {
+  page: { type: 'number', integer: true, min: 1 } as ParamRule,
+  page_size: { type: 'number', integer: true, min: 1, max: 100 } as ParamRule
+};
+
+const trackGet: ParamRules<TrackGetParams> = {
+  commontrack_id: id,
+  track_isrc: text
+};
+
+const trackSearch: ParamRules<TrackSearchParams> = {
+  ...pagination,
+  q_track: text,
+  q_artist: text,
+  q_lyrics: text,
+  q_track_artist: text,
+  q_writer: text,
+  q: text,
+  f_artist_id: id,
+  f_music_genre_id: id,
+  f_lyrics_language: text,
+  f_has_lyrics: flag,
+  f_track_release_group_first_release_date_min: date,
+  f_track_release_group_first_release_date_max: date,
+  s_artist_rating: sortOrder,
+  s_track_rating: sortOrder,
+  quorum_factor: { type: 'number', min: 0.1, max: 0.9 }
+};
+
+const chartArtistsGet: ParamRules<ChartArtistsGetParams> = {
+  ...pagination,
+  country: text,
+  format
+};
+
+const chartTracksGet: ParamRules<ChartTracksGetParams> = {
+  ...pagination,
+  country: text,
+  chart_name: {
+    type: 'enum',
+    values: ['top', 'hot', 'mxmweekly', 'mxmweekly_new']
+  },
+  f_has_lyrics: flag
+};
+
+const trackLyricsGet: ParamRules<TrackLyricsGetParams> = {
+  track_id: id,
+  commontrack_id: id
+};
+
+const trackLyricsPost: ParamRules<TrackLyricsPostParams> = {
+  commontrack_id: id,
+  track_isrc: text,
+  lyrics_body: { type: 'string', required: true }
+};
+
+const trackLyricsMoodGet: ParamRules<TrackLyricsMoodGetParams> = {
+  commontrack_id: id,
+  track_isrc: text
+};
+
+const trackSnippetGet: ParamRules<TrackSnippetGetParams> = {
+  track_id: { type: 'number', integer: true, min: 1, required: true }
+};
+
+const trackSubtitleGet: ParamRules<TrackSubtitleGetParams> = {
+  commontrack_id: id,
+  subtitle_format: { type: 'enum', values: ['lrc', 'dfxp', 'stledu'] },
+  f_subtitle_length: seconds,
+  f_subtitle_length_max_deviation: seconds
+};
+
+const trackRichSyncGet: ParamRules<TrackRichSyncGetParams> = {
+  track_id: { type: 'number', integer: true, min: 1, required: true },
+  f_richsync_length: seconds,
+  f_richsync_length_max_deviation: seconds
+};
+
+const trackLyricsTranslationGet: ParamRules<TrackLyricsTranslationGetParams> = {
+  selected_language: { type: 'string', required: true },
+  min_completed: ratio,
+  commontrack_id: id,
+  track_id: id,
+  track_isrc: text,
+  track_mbid: text
+};
+
+const trackSubtitleTranslationGet: ParamRules<TrackSubtitleTranslationGetParams> =
+  {
+    selected_language: { type: 'string', required: true },
+    min_completed: ratio,
+    commontrack_id: id,
+    track_isrc: text,
+    f_subtitle_length: seconds,
+    f_subtitle_length_max_deviation: seconds
+  };
+
+const matcherLyricsGet: ParamRules<MatcherLyricsGetParams> = {
+  q_track: text,
+  q_artist: text,
+  track_isrc: text
+};
+
+const matcherTrackGet: ParamRules<MatcherTrackGetParams> = {
+  q_track: text,
+  q_artist: text,
+  q_album: text
+};
+
+const matcherSubtitleGet: ParamRules<MatcherSubtitleGetParams> = {
+  q_track: text,
+  q_artist: text,
+  f_subtitle_length: seconds,
+  f_subtitle_length_max_deviation: seconds,
+  track_isrc: text
+};
+
+const artistGet: ParamRules<ArtistGetParams> = {
+  artist_id: id,
+  artist_mbid: text
+};
+
+const artistSearch: ParamRules<ArtistSearchParams> = {
+  ...pagination,
+  q_artist: text,
+  f_artist_id: id,
+  f_artist_mbid: text,
+  format
+};
+
+const artistAlbumsGet: ParamRules<ArtistAlbumsGetParams> = {
+  ...pagination,
+  artist_id: id,
+  artist_mbid: text,
+  g_album_name: flag,
+  s_release_date: sortOrder
+};
+
+const artistRelatedGet: ParamRules<ArtistRelatedGetParams> = {
+  ...pagination,
+  artist_id: id,
+  artist_mbid: text,
+  format
+};
+
+const albumGet: ParamRules<AlbumGetParams> = {
+  album_id: id,
+  album_mbid: text
+};
+
+const albumTracksGet: ParamRules<AlbumTracksGetParams> = {
+  ...pagination,
+  album_id: id,
+  album_mbid: text,
+  f_has_lyrics: flag
+};
+
+/**
+ * The accepted parameters of every API method, keyed by API method name.
+ */
+const PARAM_RULES: { [apiMethod: string]: { [key: string]: ParamRule } } = {
+  'track.get': trackGet,
+  'track.search': trackSearch,
+  'chart.artists.get': chartArtistsGet,
+  'chart.tracks.get': chartTracksGet,
+  'track.lyrics.get': trackLyricsGet,
+  'track.lyrics.post': trackLyricsPost,
+  'track.lyrics.mood.get': trackLyricsMoodGet,
+  'track.snippet.get': trackSnippetGet,
+  'track.subtitle.get': trackSubtitleGet,
+  'track.richsync.get': trackRichSyncGet,
+  'track.lyrics.translation.get': trackLyricsTranslationGet,
+  'track.subtitle.translation.get': trackSubtitleTranslationGet,
+  'music.genres.get': {},
+  'matcher.lyrics.get': matcherLyricsGet,
+  'matcher.track.get': matcherTrackGet,
+  'matcher.subtitle.get': matcherSubtitleGet,
+  'artist.get': artistGet,
+  'artist.search': artistSearch,
+  'artist.albums.get': artistAlbumsGet,
+  'artist.related.get': artistRelatedGet,
+  'album.get': albumGet,
+  'album.tracks.get': albumTracksGet
+};
+
+/**
+ * Checks a single value against its rule.
+ * @param apiMethod - The API method, used in error messages.
+ * @param key - The parameter name.
+ * @param rule - The rule to check against.
+ * @param value - The raw value.
+ * @returns The value as it should be sent, or `undefined` to leave it out.
+ */
+function normalizeValue(
+  apiMethod: string,
+  key: string,
+  rule: ParamRule,
+  value: unknown
+): string | number | undefined {
+  const fail = (message: string): never => {
+    throw new InvalidParamsError(apiMethod, key, message);
+  };
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return fail('expected a string');
+      }
+      return String(value);
+    case 'number': {
+      const num =
+        typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : value;
+      if (typeof num !== 'number' || isNaN(num) || !isFinite(num)) {
+        return fail('expected a number');
+      }
+      if (rule.integer && Math.floor(num) !== num) {
+        return fail('expected an integer');
+      }
+      if (rule.min !== undefined && num < rule.min) {
+        return fail(`must be at least ${rule.min}`);
+      }
+      if (rule.max !== undefined && num > rule.max) {
+        return fail(`must be at most ${rule.max}`);
+      }
+      return num;
+    }
+    case 'enum': {
+      const str = typeof value === 'string' ? value.toLowerCase() : value;
+      if (typeof str !== 'string' || rule.values.indexOf(str) === -1) {
+        return fail(`expected one of ${rule.values.join(', ')}`);
+      }
+      return str;
+    }
+    case 'flag':
+      if (value === true || value === 1 || value === '1') {
+        return 1;
+      }
+      if (value === false || value === 0 || value === '0') {
+        return undefined;
+      }
+      return fail('expected a boolean');
+    case 'date':
+      if (typeof value !== 'string' || !/^\d{8}$/.test(value)) {
+        return fail('expected a date in YYYYMMDD format');
+      }
+      return value;
+  }
+}
+
+/**
+ * Parses the deprecated `"key=value"` form. Only the first `=` separates the
+ * key from the value, so values may contain `=` themselves.
+ * @param params - The `"key=value"` strings.
+ * @returns The parameters as an object.
+ */
+function parseParamStrings(params: string[]): { [key: string]: string } {
+  const result: { [key: string]: string } = {};
+  for (const param of params) {
+    const index = param.indexOf('=');
+    if (index === -1) {
+      result[param] = '';
+    } else {
+      result[param.slice(0, index)] = param.slice(index + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Validates the arguments passed to an endpoint method and turns them into
+ * query parameters.
+ * @param apiMethod - The API method.
+ * @param args - Either a single params object, or `"key=value"` strings.
+ * @returns The query parameters.
+ * @throws InvalidParamsError - On unknown keys, missing required keys or out-of-range values.
+ */
+function buildQueryParams(
+  apiMethod: string,
+  args: Array<object | string | undefined>
+): QueryParams {
+  const rules = PARAM_RULES[apiMethod] || {};
+  const strings = args.filter((arg): arg is string => typeof arg === 'string');
+  const input: { [key: string]: unknown } =
+    strings.length > 0
+      ? parseParamStrings(strings)
+      : { ...(args[0] as { [key: string]: unknown }) };
+  const result: QueryParams = {};
+
+  for (const key of Object.keys(input)) {
+    const rule = rules[key];
+    if (!rule) {
+      throw new InvalidParamsError(apiMethod, key, 'unknown parameter');
+    }
+    if (input[key] === undefined || input[key] === null) {
+      continue;
+    }
+    const value = normalizeValue(apiMethod, key, rule, input[key]);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  for (const key of Object.keys(rules)) {
+    if (rules[key].required && result[key] === undefined) {
+      throw new InvalidParamsError(apiMethod, key, 'parameter is required');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Picks the request options out of the arguments of an endpoint method. They
+ * follow the params object; the deprecated string form has none.
+ * @param args - The arguments of the endpoint method.
+ * @returns The request options.
+ */
+function requestOptions(
+  args: Array<object | string | undefined>
+): RequestOptions {
+  if (typeof args[0] === 'string') {
+    return {};
+  }
+  return (args[1] as RequestOptions | undefined) ?? {};
+}
+
+/**
+ * Copies query parameters with the apikey masked, for errors and logs.
+ * @param params - The query parameters.
+ * @returns The redacted copy.
+ */
+function redactParams(params: { [key: string]: unknown }): {
+  [key: string]: string | number | undefined;
+} {
+  const redacted: { [key: string]: string | number | undefined } = {};
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    if (key === 'apikey') {
+      redacted[key] = '***';
+    } else {
+      redacted[key] =
+        typeof value === 'number' || value === undefined
+          ? value
+          : String(value);
+    }
+  });
+  return redacted;
+}
+
+export {
+  ParamRule,
+  ParamRules,
+  QueryParams,
+  PARAM_RULES,
+  buildQueryParams,
+  requestOptions,
+  redactParams
+};
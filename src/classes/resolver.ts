@@ -0,0 +1,317 @@
+import {
+  LyricsQuery,
+  ResolveLyricsOptions,
+  ResolveSource,
+  ResolvedLyrics,
+  TrackModel
+} from '../interfaces';
+import { NotFoundError, ResponseShapeError } from './expectations';
+import { parseLrc } from './lrc';
+import type { Musixmatch } from './musixmatch';
+
+const PUNCTUATION = /[!"#$%'()*+,.\/:;<=>?@\[\\\]^_`{|}~¡¿‘’“”…-]/g;
+const BRACKETS = /\s*[(\[{][^)\]}]*[)\]}]/g;
+const FEATURING = /\s+(feat\.?|ft\.?|featuring)\s.*$/;
+const VERSION_SUFFIX = /\s+[-–—]\s+(.*)$/;
+const VERSION_WORDS =
+  /\b(remaster(ed)?|live|edit|version|mix|remix|mono|stereo|single|demo|acoustic|explicit|clean|bonus|deluxe|instrumental)\b/;
+const ARTIST_SEPARATOR =
+  /\s*(\bfeat\.?|\bft\.?|\bfeaturing\b|&|,|;|\/|\sx\s|\bvs\.?)\s*.*$/;
+
+/**
+ * Weight of each signal in the confidence of a candidate.
+ */
+const WEIGHTS = { title: 0.5, artist: 0.3, album: 0.1, duration: 0.2 };
+
+/** Seconds of duration difference at which the duration signal drops to 0. */
+const DURATION_TOLERANCE_SEC = 10;
+
+/** A track found by its ISRC is trusted at least this much. */
+const ISRC_CONFIDENCE = 0.95;
+
+/**
+ * Lowercases a string, strips accents and collapses whitespace.
+ */
+function fold(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Drops punctuation. Falls back to the input when nothing is left, so titles
+ * made of symbols still compare.
+ */
+function stripPunctuation(value: string): string {
+  const stripped = value
+    .replace(/&/g, ' and ')
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return stripped || value;
+}
+
+/**
+ * Normalizes a track title for comparison: drops bracketed parts, featured
+ * artists and version suffixes such as `- Remastered 2011`.
+ * @param title - The title.
+ * @returns The normalized title, e.g. `hey jude` for `Hey Jude - Remastered 2015`.
+ */
+function normalizeTitle(title: string): string {
+  let value = fold(title).replace(BRACKETS, '').replace(FEATURING, '');
+  const suffix = VERSION_SUFFIX.exec(value);
+  if (suffix && VERSION_WORDS.test(suffix[1])) {
+    value = value.slice(0, suffix.index);
+  }
+  return stripPunctuation(value.trim() || fold(title));
+}
+
+/**
+ * Normalizes an artist name for comparison, keeping the main artist only.
+ * @param artist - The artist name.
+ * @returns The normalized name, e.g. `drake` for `Drake feat. Rihanna`.
+ */
+function normalizeArtist(artist: string): string {
+  const folded = fold(artist).replace(BRACKETS, '');
+  return stripPunctuation(folded.replace(ARTIST_SEPARATOR, '') || folded);
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Compares two normalized strings with the Sørensen–Dice coefficient of
+ * their character bigrams.
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The similarity, from 0 to 1.
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (!left.length || !right.length) {
+    return 0;
+  }
+  const counts: { [bigram: string]: number } = {};
+  left.forEach((bigram) => (counts[bigram] = (counts[bigram] || 0) + 1));
+  let shared = 0;
+  right.forEach((bigram) => {
+    if (counts[bigram] > 0) {
+      counts[bigram] -= 1;
+      shared += 1;
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Scores how well a track matches a query, from the title, artist, album
+ * and duration similarities. Signals missing on either side are left out.
+ * @param query - The query.
+ * @param track - The candidate.
+ * @returns The confidence, from 0 to 1.
+ */
+function scoreCandidate(query: LyricsQuery, track: TrackModel): number {
+  let total = 0;
+  let weights = 0;
+  const add = (weight: number, value: number) => {
+    total += weight * value;
+    weights += weight;
+  };
+
+  add(
+    WEIGHTS.title,
+    similarity(normalizeTitle(query.title), normalizeTitle(track.name))
+  );
+  add(
+    WEIGHTS.artist,
+    Math.max(
+      similarity(
+        normalizeArtist(query.artist),
+        normalizeArtist(track.artistName)
+      ),
+      similarity(
+        stripPunctuation(fold(query.artist)),
+        stripPunctuation(fold(track.artistName))
+      )
+    )
+  );
+  if (query.album && track.albumName) {
+    add(
+      WEIGHTS.album,
+      similarity(normalizeTitle(query.album), normalizeTitle(track.albumName))
+    );
+  }
+  if (query.durationSec && track.length) {
+    const difference = Math.abs(query.durationSec - track.length);
+    add(WEIGHTS.duration, Math.max(0, 1 - difference / DURATION_TOLERANCE_SEC));
+  }
+
+  let confidence = weights ? total / weights : 0;
+  if (query.isrc && hasIsrc(track, query.isrc)) {
+    confidence = Math.max(confidence, ISRC_CONFIDENCE);
+  }
+  return Math.round(confidence * 1000) / 1000;
+}
+
+function hasIsrc(track: TrackModel, isrc: string): boolean {
+  const wanted = isrc.toUpperCase();
+  if (track.isrc && track.isrc.toUpperCase() === wanted) {
+    return true;
+  }
+  return (track.commontrackIsrcs ?? []).some((group) =>
+    group.some((value) => value.toUpperCase() === wanted)
+  );
+}
+
+/**
+ * Resolves to `undefined` when the API has nothing for the call (404 or an
+ * empty body), and rethrows any other error.
+ */
+async function orUndefined<T>(call: Promise<T>): Promise<T | undefined> {
+  try {
+    return await call;
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ResponseShapeError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the lyrics of a track from catalogue metadata. Tries
+ * `matcher.track.get`, then `track.search` with `q_track_artist`, then
+ * `track.get` with the ISRC, scoring every candidate and stopping early once
+ * one reaches `acceptConfidence`. The lyrics and, when the track has some,
+ * the synced lyrics of the best candidate are fetched too.
+ * @param client - The Musixmatch instance used to call the API.
+ * @param query - The track metadata.
+ * @param options - The resolver options.
+ * @returns The best match, or `null` when no candidate reaches `minConfidence`.
+ */
+async function resolveLyrics(
+  client: Musixmatch,
+  query: LyricsQuery,
+  options: ResolveLyricsOptions = {}
+): Promise<ResolvedLyrics | null> {
+  const {
+    minConfidence = 0.6,
+    acceptConfidence = 0.9,
+    synced = true,
+    ...requestOptions
+  } = options;
+
+  const lookups: Array<[ResolveSource, () => Promise<TrackModel[]>]> = [
+    [
+      'matcher',
+      async () => {
+        const match = await client.matcher.track(
+          {
+            q_track: query.title,
+            q_artist: query.artist,
+            q_album: query.album
+          },
+          requestOptions
+        );
+        return [match.track];
+      }
+    ],
+    [
+      'search',
+      () =>
+        client.tracks.search(
+          {
+            q_track_artist: `${normalizeTitle(query.title)} ${query.artist}`,
+            s_track_rating: 'desc',
+            page_size: 10
+          },
+          requestOptions
+        )
+    ]
+  ];
+  if (query.isrc) {
+    const isrc = query.isrc;
+    lookups.push([
+      'isrc',
+      async () => [
+        await client.tracks.get({ track_isrc: isrc }, requestOptions)
+      ]
+    ]);
+  }
+
+  let best: Omit<ResolvedLyrics, 'lyrics' | 'synced'> | undefined;
+  for (const [source, lookup] of lookups) {
+    const tracks = (await orUndefined(lookup())) ?? [];
+    tracks.forEach((track) => {
+      const confidence = scoreCandidate(query, track);
+      if (!best || confidence > best.confidence) {
+        best = { track, confidence, source };
+      }
+    });
+    if (best && best.confidence >= acceptConfidence) {
+      break;
+    }
+  }
+  if (!best || best.confidence < minConfidence) {
+    return null;
+  }
+
+  const { track } = best;
+  const [lyrics, subtitle] = await Promise.all([
+    track.hasLyrics && !track.instrumental
+      ? orUndefined(
+          client.tracks.lyrics(
+            { commontrack_id: track.commontrackId },
+            requestOptions
+          )
+        )
+      : undefined,
+    synced && track.hasSubtitles
+      ? orUndefined(
+          client.tracks.subtitle(
+            {
+              commontrack_id: track.commontrackId,
+              subtitle_format: 'lrc',
+              ...(query.durationSec
+                ? {
+                    f_subtitle_length: Math.round(query.durationSec),
+                    f_subtitle_length_max_deviation: DURATION_TOLERANCE_SEC
+                  }
+                : {})
+            },
+            requestOptions
+          )
+        )
+      : undefined
+  ]);
+
+  return {
+    ...best,
+    lyrics,
+    synced: subtitle
+      ? { subtitle, lines: parseLrc(subtitle.body).lines }
+      : undefined
+  };
+}
+
+export {
+  normalizeTitle,
+  normalizeArtist,
+  similarity,
+  scoreCandidate,
+  orUndefined,
+  resolveLyrics
+};
@@ -0,0 +1,536 @@
+import {
+  AlbumGetParams,
+  AlbumModel,
+  AlbumTracksGetParams,
+  ArtistAlbumsGetParams,
+  ArtistGetParams,
+  ArtistModel,
+  ArtistRelatedGetParams,
+  ArtistSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  GenreModel,
+  LyricsModel,
+  MatchedTrackModel,
+  MatcherLyricsGetParams,
+  MatcherSubtitleGetParams,
+  MatcherTrackGetParams,
+  Mood,
+  MoodModel,
+  RequestOptions,
+  RichSyncModel,
+  SnippetModel,
+  SubtitleModel,
+  TrackGetParams,
+  TrackLyricsGetParams,
+  TrackLyricsMoodGetParams,
+  TrackLyricsTranslationGetParams,
+  TrackModel,
+  TrackRichSyncGetParams,
+  TrackSearchParams,
+  TrackSnippetGetParams,
+  TrackSubtitleGetParams,
+  TrackSubtitleTranslationGetParams,
+  TranslationModel
+} from '../interfaces';
+import { ResponseShapeError } from './expectations';
+import {
+  toAlbum,
+  toArtist,
+  toGenres,
+  toLyrics,
+  toMood,
+  toRichSync,
+  toSnippet,
+  toSubtitle,
+  toTrack,
+  toTranslation
+} from './models';
+import { buildQueryParams } from './params';
+import type { Musixmatch } from './musixmatch';
+
+/**
+ * Reads a value out of `message.body`, or throws when it is missing, which
+ * is what the API does for restricted content (`body: ""`).
+ * @param apiMethod - The API method.
+ * @param params - The parameters of the call.
+ * @param body - The `message.body` of the response.
+ * @param key - The key to read.
+ * @returns The value.
+ * @throws ResponseShapeError - When the value is missing.
+ */
+function unwrap<B, K extends keyof B>(
+  apiMethod: string,
+  params: object,
+  body: B,
+  key: K
+): NonNullable<B[K]> {
+  const value = (body as any)?.[key];
+  if (value === undefined || value === null || value === '') {
+    throw new ResponseShapeError(
+      [
+        {
+          path: `message.body.${String(key)}`,
+          expected: 'object',
+          received: body === '' ? 'empty string' : 'undefined'
+        }
+      ],
+      { apiMethod, params: buildQueryParams(apiMethod, [params]) }
+    );
+  }
+  return value;
+}
+
+/**
+ * Converts the body of `track.lyrics.mood.get`, or throws when it has no
+ * numeric valence and arousal.
+ * @param params - The parameters of the call.
+ * @param body - The `message.body` of the response.
+ * @returns The mood.
+ * @throws ResponseShapeError - When `raw_data` or one of its values is missing.
+ */
+function unwrapMood(params: object, body: Mood): MoodModel {
+  const raw = unwrap('track.lyrics.mood.get', params, body, 'raw_data');
+  const mood = toMood(body);
+  if (!mood) {
+    const key = typeof raw.valence === 'number' ? 'arousal' : 'valence';
+    throw new ResponseShapeError(
+      [
+        {
+          path: `message.body.raw_data.${key}`,
+          expected: 'number',
+          received: raw[key] === null ? 'null' : typeof raw[key]
+        }
+      ],
+      {
+        apiMethod: 'track.lyrics.mood.get',
+        params: buildQueryParams('track.lyrics.mood.get', [params])
+      }
+    );
+  }
+  return mood;
+}
+
+/**
+ * Reads a list out of `message.body` and drops the `{ item: {...} }`
+ * wrappers. A missing list is an empty one.
+ */
+function unwrapList<T, K extends string>(
+  list: Array<{ [P in K]: T }> | undefined,
+  key: K
+): T[] {
+  return (list ?? []).map((entry) => entry[key]);
+}
+
+/**
+ * Tracks, their lyrics and their syncs, as camelCase models.
+ */
+class TrackResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the TrackResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Gets a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async get(
+    params: TrackGetParams,
+    options?: RequestOptions
+  ): Promise<TrackModel> {
+    const response = await this.client.trackGet(params, options);
+    return toTrack(unwrap('track.get', params, response.message.body, 'track'));
+  }
+
+  /**
+   * Searches for tracks. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async search(
+    params: TrackSearchParams = {},
+    options?: RequestOptions
+  ): Promise<TrackModel[]> {
+    const response = await this.client.trackSearch(params, options);
+    return unwrapList(response.message.body?.track_list, 'track').map(toTrack);
+  }
+
+  /**
+   * Gets the lyrics of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async lyrics(
+    params: TrackLyricsGetParams,
+    options?: RequestOptions
+  ): Promise<LyricsModel> {
+    const response = await this.client.trackLyricsGet(params, options);
+    return toLyrics(
+      unwrap('track.lyrics.get', params, response.message.body, 'lyrics')
+    );
+  }
+
+  /**
+   * Gets the subtitle of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async subtitle(
+    params: TrackSubtitleGetParams,
+    options?: RequestOptions
+  ): Promise<SubtitleModel> {
+    const response = await this.client.trackSubtitleGet(params, options);
+    return toSubtitle(
+      unwrap('track.subtitle.get', params, response.message.body, 'subtitle')
+    );
+  }
+
+  /**
+   * Gets the richsync of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async richSync(
+    params: TrackRichSyncGetParams,
+    options?: RequestOptions
+  ): Promise<RichSyncModel> {
+    const response = await this.client.trackRichSyncGet(params, options);
+    return toRichSync(
+      unwrap('track.richsync.get', params, response.message.body, 'richsync')
+    );
+  }
+
+  /**
+   * Gets the snippet of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async snippet(
+    params: TrackSnippetGetParams,
+    options?: RequestOptions
+  ): Promise<SnippetModel> {
+    const response = await this.client.trackSnippetGet(params, options);
+    return toSnippet(
+      unwrap('track.snippet.get', params, response.message.body, 'snippet')
+    );
+  }
+
+  /**
+   * Gets the mood of the lyrics of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async mood(
+    params: TrackLyricsMoodGetParams,
+    options?: RequestOptions
+  ): Promise<MoodModel> {
+    const response = await this.client.trackLyricsMoodGet(params, options);
+    return unwrapMood(params, response.message.body);
+  }
+
+  /**
+   * Gets the lyrics of a track translated into `selected_language`.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async lyricsTranslation(
+    params: TrackLyricsTranslationGetParams,
+    options?: RequestOptions
+  ): Promise<TranslationModel> {
+    const response = await this.client.trackLyricsTranslationGet(
+      params,
+      options
+    );
+    const lyrics = unwrap(
+      'track.lyrics.translation.get',
+      params,
+      response.message.body,
+      'lyrics'
+    );
+    return toTranslation(lyrics.lyrics_translated);
+  }
+
+  /**
+   * Gets the subtitle of a track translated into `selected_language`.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async subtitleTranslation(
+    params: TrackSubtitleTranslationGetParams,
+    options?: RequestOptions
+  ): Promise<TranslationModel> {
+    const response = await this.client.trackSubttileTranslationGet(
+      params,
+      options
+    );
+    const subtitle = unwrap(
+      'track.subtitle.translation.get',
+      params,
+      response.message.body,
+      'subtitle'
+    );
+    return toTranslation(subtitle.subtitle_translated);
+  }
+}
+
+/**
+ * Artists, their albums and related artists, as camelCase models.
+ */
+class ArtistResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the ArtistResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Gets an artist.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async get(
+    params: ArtistGetParams,
+    options?: RequestOptions
+  ): Promise<ArtistModel> {
+    const response = await this.client.artistGet(params, options);
+    return toArtist(
+      unwrap('artist.get', params, response.message.body, 'artist')
+    );
+  }
+
+  /**
+   * Searches for artists. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async search(
+    params: ArtistSearchParams = {},
+    options?: RequestOptions
+  ): Promise<ArtistModel[]> {
+    const response = await this.client.artistSearch(params, options);
+    return unwrapList(response.message.body?.artist_list, 'artist').map(
+      toArtist
+    );
+  }
+
+  /**
+   * Gets the albums of an artist. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async albums(
+    params: ArtistAlbumsGetParams,
+    options?: RequestOptions
+  ): Promise<AlbumModel[]> {
+    const response = await this.client.artistAlbumsGet(params, options);
+    return unwrapList(response.message.body?.album_list, 'album').map(toAlbum);
+  }
+
+  /**
+   * Gets the artists related to a given one. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async related(
+    params: ArtistRelatedGetParams,
+    options?: RequestOptions
+  ): Promise<ArtistModel[]> {
+    const response = await this.client.artistRelatedGet(params, options);
+    return unwrapList(response.message.body?.artist_list, 'artist').map(
+      toArtist
+    );
+  }
+}
+
+/**
+ * Albums and their tracks, as camelCase models.
+ */
+class AlbumResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the AlbumResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Gets an album.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async get(
+    params: AlbumGetParams,
+    options?: RequestOptions
+  ): Promise<AlbumModel> {
+    const response = await this.client.albumGet(params, options);
+    return toAlbum(unwrap('album.get', params, response.message.body, 'album'));
+  }
+
+  /**
+   * Gets the tracks of an album. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async tracks(
+    params: AlbumTracksGetParams,
+    options?: RequestOptions
+  ): Promise<TrackModel[]> {
+    const response = await this.client.albumTracksGet(params, options);
+    return unwrapList(response.message.body?.track_list, 'track').map(toTrack);
+  }
+}
+
+/**
+ * Top tracks and artists, as camelCase models.
+ */
+class ChartResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the ChartResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Gets the top tracks of a country. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async tracks(
+    params: ChartTracksGetParams = {},
+    options?: RequestOptions
+  ): Promise<TrackModel[]> {
+    const response = await this.client.chartTracksGet(params, options);
+    return unwrapList(response.message.body?.track_list, 'track').map(toTrack);
+  }
+
+  /**
+   * Gets the top artists of a country. Returns a single page.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async artists(
+    params: ChartArtistsGetParams = {},
+    options?: RequestOptions
+  ): Promise<ArtistModel[]> {
+    const response = await this.client.chartArtistGet(params, options);
+    return unwrapList(response.message.body?.artist_list, 'artist').map(
+      toArtist
+    );
+  }
+}
+
+/**
+ * Matches tracks, lyrics and subtitles by title and artist, as camelCase models.
+ */
+class MatcherResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the MatcherResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Matches a track, with the confidence of the match.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async track(
+    params: MatcherTrackGetParams,
+    options?: RequestOptions
+  ): Promise<MatchedTrackModel> {
+    const response = await this.client.matcherTrackGet(params, options);
+    const { header, body } = response.message;
+    return {
+      track: toTrack(unwrap('matcher.track.get', params, body, 'track')),
+      confidence: header.confidence,
+      mode: header.mode,
+      cached: Number(header.cached) === 1
+    };
+  }
+
+  /**
+   * Matches the lyrics of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async lyrics(
+    params: MatcherLyricsGetParams,
+    options?: RequestOptions
+  ): Promise<LyricsModel> {
+    const response = await this.client.matcherLyricsGet(params, options);
+    return toLyrics(
+      unwrap('matcher.lyrics.get', params, response.message.body, 'lyrics')
+    );
+  }
+
+  /**
+   * Matches the subtitle of a track.
+   * @param params - The parameters.
+   * @param options - The request options.
+   */
+  async subtitle(
+    params: MatcherSubtitleGetParams,
+    options?: RequestOptions
+  ): Promise<SubtitleModel> {
+    const response = await this.client.matcherSubtitleGet(params, options);
+    return toSubtitle(
+      unwrap('matcher.subtitle.get', params, response.message.body, 'subtitle')
+    );
+  }
+}
+
+/**
+ * Music genres, as camelCase models.
+ */
+class GenreResource {
+  private client: Musixmatch;
+
+  /**
+   * Constructs a new instance of the GenreResource class.
+   * @param client - The Musixmatch instance used to call the API.
+   */
+  constructor(client: Musixmatch) {
+    this.client = client;
+  }
+
+  /**
+   * Lists every music genre.
+   * @param options - The request options.
+   */
+  async list(options?: RequestOptions): Promise<GenreModel[]> {
+    const response = await this.client.musicGenresGet(options);
+    return toGenres(response.message.body || undefined);
+  }
+}
+
+export {
+  unwrapMood,
+  TrackResource,
+  ArtistResource,
+  AlbumResource,
+  ChartResource,
+  MatcherResource,
+  GenreResource
+};
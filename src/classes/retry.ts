@@ -0,0 +1,161 @@
+import { RetryOptions, TransportResponse } from '../interfaces';
+import { AbortError, MusixmatchError } from './expectations';
+
+type RetryPolicy = Required<Omit<RetryOptions, 'onRetry'>> &
+  Pick<RetryOptions, 'onRetry'>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  retryableStatusCodes: [502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'ECONNABORTED',
+    'EPIPE',
+    'EAI_AGAIN'
+  ]
+};
+
+/**
+ * Copies an object without its `undefined` values, so spreading it does not
+ * overwrite defaults.
+ * @param options - The object.
+ * @returns The copy.
+ */
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  const defined: Partial<T> = {};
+  (Object.keys(options) as Array<keyof T>).forEach((key) => {
+    if (options[key] !== undefined) {
+      defined[key] = options[key];
+    }
+  });
+  return defined;
+}
+
+/**
+ * Fills the missing retry options with their defaults. Options set to
+ * `undefined` count as missing.
+ * @param options - The user options, or `false` to disable retries.
+ * @returns The policy, or `null` when retries are disabled.
+ * @throws MusixmatchError - When `maxAttempts` is not an integer of at least 1.
+ */
+function resolveRetryPolicy(
+  options?: RetryOptions | false
+): RetryPolicy | null {
+  if (options === false) {
+    return null;
+  }
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...withoutUndefined(options ?? {})
+  };
+  if (!(policy.maxAttempts >= 1) || policy.maxAttempts % 1 !== 0) {
+    throw new MusixmatchError(
+      'retry.maxAttempts must be an integer of at least 1.'
+    );
+  }
+  return policy;
+}
+
+/**
+ * Reads the status code that decides whether a response is retried: the HTTP
+ * status when it is not 2xx, the header-level `status_code` otherwise.
+ * @param response - The transport response.
+ * @returns The status code, if any.
+ */
+function responseStatus(response: TransportResponse): number | undefined {
+  if (response.status < 200 || response.status >= 300) {
+    return response.status;
+  }
+  const header = response.data?.message?.header;
+  return header ? header.status_code : undefined;
+}
+
+/**
+ * Reads the network error code, looking into `cause` for fetch errors.
+ * @param error - The transport error.
+ * @returns The error code, if any.
+ */
+function errorCode(error: any): string | undefined {
+  return error?.code ?? error?.cause?.code;
+}
+
+/**
+ * Computes the exponential backoff delay of an attempt.
+ * @param policy - The retry policy.
+ * @param attempt - The number of the attempt that failed, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  return policy.jitter
+    ? Math.round(delay / 2 + Math.random() * (delay / 2))
+    : delay;
+}
+
+/**
+ * Decides whether an attempt is retried.
+ * @param policy - The retry policy.
+ * @param attempt - The number of the attempt that just finished.
+ * @param response - The response, when one was received.
+ * @param error - The network error, when no response was received.
+ * @returns Whether another attempt should be made.
+ */
+function shouldRetry(
+  policy: RetryPolicy,
+  attempt: number,
+  response?: TransportResponse,
+  error?: unknown
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  if (response) {
+    const status = responseStatus(response);
+    return (
+      status !== undefined && policy.retryableStatusCodes.indexOf(status) !== -1
+    );
+  }
+  const code = errorCode(error);
+  return code !== undefined && policy.retryableErrorCodes.indexOf(code) !== -1;
+}
+
+/**
+ * Waits for the given amount of time.
+ * @param ms - The delay in milliseconds.
+ * @param signal - Cancels the wait: the timer is cleared and the promise rejects with an AbortError.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('The wait was aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('The wait was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+export {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  responseStatus,
+  errorCode,
+  backoffDelay,
+  shouldRetry,
+  sleep
+};
@@ -0,0 +1,193 @@
+import {
+  RawRichSyncLine,
+  RichSyncChar,
+  RichSyncLine,
+  RichSyncWord
+} from '../interfaces';
+import { SubtitleParseError } from './expectations';
+import { formatLrcTimestamp } from './lrc';
+import { formatVttTimestamp } from './subtitles';
+
+/**
+ * Splits a raw line into characters with absolute times. A chunk lasts until
+ * the next one starts (or the line ends), and its characters share that time
+ * evenly.
+ * @param line - The raw line.
+ * @param te - The end of the line in seconds.
+ * @returns The characters.
+ */
+function decodeChars(line: RawRichSyncLine, te: number): RichSyncChar[] {
+  const start = line.ts * 1000;
+  const end = te * 1000;
+  const chunks = (line.l || [])
+    .filter((chunk) => chunk && typeof chunk.c === 'string')
+    .sort((a, b) => a.o - b.o);
+  const chars: RichSyncChar[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const chunkStart = start + chunk.o * 1000;
+    const chunkEnd =
+      index + 1 < chunks.length ? start + chunks[index + 1].o * 1000 : end;
+    const letters = Array.from(chunk.c);
+    const step = letters.length ? (chunkEnd - chunkStart) / letters.length : 0;
+    letters.forEach((char, position) => {
+      chars.push({
+        char,
+        start_ms: Math.round(chunkStart + step * position),
+        end_ms: Math.round(chunkStart + step * (position + 1))
+      });
+    });
+  });
+
+  return chars;
+}
+
+/**
+ * Groups characters into words, splitting on whitespace.
+ * @param chars - The characters of a line.
+ * @returns The words.
+ */
+function groupWords(chars: RichSyncChar[]): RichSyncWord[] {
+  const words: RichSyncWord[] = [];
+  let current: RichSyncChar[] = [];
+  const flush = () => {
+    if (current.length) {
+      words.push({
+        text: current.map((char) => char.char).join(''),
+        start_ms: current[0].start_ms,
+        end_ms: current[current.length - 1].end_ms,
+        chars: current
+      });
+      current = [];
+    }
+  };
+
+  chars.forEach((char) => {
+    if (/\s/.test(char.char)) {
+      flush();
+    } else {
+      current.push(char);
+    }
+  });
+  flush();
+
+  return words;
+}
+
+/**
+ * Decodes a `richsync_body` into lines, words and characters with absolute
+ * start and end times in milliseconds. A line without a `te` ends when the
+ * next one starts.
+ * @param body - The richsync JSON text, or the already parsed array.
+ * @returns The lines, sorted by time.
+ * @throws SubtitleParseError - When the body is not a JSON array, or when the last line has no `te`.
+ */
+function decodeRichSync(body: string | RawRichSyncLine[]): RichSyncLine[] {
+  let raw: unknown;
+  try {
+    raw = typeof body === 'string' ? JSON.parse(body) : body;
+  } catch (error) {
+    throw new SubtitleParseError(1, 'invalid richsync JSON');
+  }
+  if (!Array.isArray(raw)) {
+    throw new SubtitleParseError(1, 'expected an array of richsync lines');
+  }
+
+  const lines = (raw as RawRichSyncLine[])
+    .filter((line) => line && typeof line.ts === 'number')
+    .sort((a, b) => a.ts - b.ts);
+
+  return lines.map((line, index) => {
+    const next = lines[index + 1];
+    const te = typeof line.te === 'number' ? line.te : next?.ts;
+    if (te === undefined) {
+      throw new SubtitleParseError(
+        (raw as RawRichSyncLine[]).indexOf(line) + 1,
+        'the last richsync line has no end time'
+      );
+    }
+    const words = groupWords(decodeChars(line, te));
+    return {
+      text:
+        typeof line.x === 'string'
+          ? line.x
+          : words.map((word) => word.text).join(' '),
+      start_ms: Math.round(line.ts * 1000),
+      end_ms: Math.round(te * 1000),
+      words
+    };
+  });
+}
+
+/**
+ * Finds the word being sung at a given playback time. Between two words of
+ * the same line, the previous word stays active.
+ * @param lines - The decoded lines.
+ * @param ms - The playback time in milliseconds.
+ * @returns The active line and word, or `undefined` outside of any line.
+ */
+function wordAt(
+  lines: RichSyncLine[],
+  ms: number
+): { line: RichSyncLine; word?: RichSyncWord } | undefined {
+  let line: RichSyncLine | undefined;
+  for (const candidate of lines) {
+    if (candidate.start_ms > ms) {
+      break;
+    }
+    if (ms < candidate.end_ms) {
+      line = candidate;
+    }
+  }
+  if (!line) {
+    return undefined;
+  }
+
+  let word: RichSyncWord | undefined;
+  for (const candidate of line.words) {
+    if (candidate.start_ms > ms) {
+      break;
+    }
+    word = candidate;
+  }
+  return { line, word };
+}
+
+/**
+ * Converts decoded richsync to enhanced LRC, with a `<mm:ss.xx>` tag before
+ * every word and one closing each line.
+ * @param lines - The decoded lines.
+ * @returns The enhanced LRC text.
+ */
+function richSyncToEnhancedLrc(lines: RichSyncLine[]): string {
+  return lines
+    .map((line) => {
+      const words = line.words
+        .map((word) => `<${formatLrcTimestamp(word.start_ms)}>${word.text}`)
+        .join(' ');
+      return `[${formatLrcTimestamp(line.start_ms)}]${words}<${formatLrcTimestamp(line.end_ms)}>`;
+    })
+    .join('\n');
+}
+
+/**
+ * Converts decoded richsync to WebVTT, one cue per line with a karaoke
+ * timestamp tag before every word after the first.
+ * @param lines - The decoded lines.
+ * @returns The WebVTT text.
+ */
+function richSyncToWebVtt(lines: RichSyncLine[]): string {
+  const cues = lines.map((line, index) => {
+    const text = line.words
+      .map((word, position) =>
+        position === 0
+          ? word.text
+          : `<${formatVttTimestamp(word.start_ms)}>${word.text}`
+      )
+      .join(' ');
+    return `${index + 1}\n${formatVttTimestamp(line.start_ms)} --> ${formatVttTimestamp(line.end_ms)}\n${text}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export { decodeRichSync, wordAt, richSyncToEnhancedLrc, richSyncToWebVtt };
@@ -0,0 +1,474 @@
+import {
+  Album,
+  Artist,
+  Envelope,
+  Lyrics,
+  LyricsTranslation,
+  Mood,
+  MusicGenre,
+  MusicGenreList,
+  PaginatedHeader,
+  ResponseMap,
+  RichSync,
+  Snippet,
+  Subtitle,
+  SubtitleTranslation,
+  Track,
+  ValidationIssue
+} from '../interfaces';
+
+/**
+ * Checks a value at runtime. `T` is the type the rule stands for: it is only
+ * used at compile time, and makes a rule for `number` unusable where a rule
+ * for `number | undefined` is expected (and the other way around).
+ *
+ * `coerce` turns a value decoded from XML, where every leaf is a string, into
+ * the JSON shape: numeric strings become numbers and lists become arrays.
+ */
+interface Rule<T> {
+  readonly expected: string;
+  readonly check: (
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[]
+  ) => void;
+  readonly coerce: (value: unknown) => unknown;
+  readonly __type?: (value: T) => T;
+}
+
+/**
+ * The rules of an object, keyed like its interface. Optional fields need an
+ * `optional(...)` rule too, so a field added to an entity type does not
+ * compile until its schema checks it (same idea as `ParamRules`).
+ */
+type Shape<T> = { [K in keyof T]-?: Rule<T[K]> };
+
+/**
+ * Describes a value for an issue, e.g. `string`, `array` or `null`.
+ * @param value - The value.
+ * @returns The description.
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string' && value === '') {
+    return 'empty string';
+  }
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number'): Rule<T> {
+  return {
+    expected: type,
+    check: (value, path, issues) => {
+      if (typeof value !== type) {
+        issues.push({ path, expected: type, received: describe(value) });
+      }
+    },
+    coerce: (value) =>
+      type === 'number' &&
+      typeof value === 'string' &&
+      value.trim() !== '' &&
+      !isNaN(Number(value))
+        ? Number(value)
+        : value
+  };
+}
+
+const string = (): Rule<string> => primitive<string>('string');
+const number = (): Rule<number> => primitive<number>('number');
+
+/**
+ * Accepts any value. Used where the API documents no stable shape.
+ */
+function anything<T>(): Rule<T> {
+  return { expected: 'any', check: () => undefined, coerce: (value) => value };
+}
+
+function optional<T>(rule: Rule<T>): Rule<T | undefined> {
+  return {
+    expected: `${rule.expected} | undefined`,
+    check: (value, path, issues) => {
+      if (value !== undefined && value !== null) {
+        rule.check(value, path, issues);
+      }
+    },
+    coerce: (value) =>
+      value === undefined || value === null ? value : rule.coerce(value)
+  };
+}
+
+function array<T>(item: Rule<T>): Rule<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) =>
+        item.check(entry, `${path}[${index}]`, issues)
+      );
+    },
+    coerce: (value) => {
+      if (value === '') {
+        return [];
+      }
+      if (typeof value !== 'object' || value === null) {
+        return value;
+      }
+      // Repeated XML elements that are not in a `_list` come as an object of arrays.
+      const entries = Array.isArray(value)
+        ? value
+        : Object.keys(value).reduce<unknown[]>(
+            (all, key) =>
+              all.concat((value as { [key: string]: unknown })[key]),
+            []
+          );
+      return entries.map(item.coerce);
+    }
+  };
+}
+
+function object<T>(shape: Shape<T>): Rule<T> {
+  return {
+    expected: 'object',
+    check: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      const record = value as { [key: string]: unknown };
+      (Object.keys(shape) as Array<keyof T>).forEach((key) =>
+        shape[key].check(
+          record[key as string],
+          `${path}.${String(key)}`,
+          issues
+        )
+      );
+    },
+    coerce: (value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return value;
+      }
+      const record = value as { [key: string]: unknown };
+      const result: { [key: string]: unknown } = {};
+      Object.keys(record).forEach((key) => {
+        const rule = (shape as { [key: string]: Rule<unknown> | undefined })[
+          key
+        ];
+        result[key] = rule ? rule.coerce(record[key]) : record[key];
+      });
+      return result;
+    }
+  };
+}
+
+/**
+ * Defers building a rule, for recursive types.
+ */
+function lazy<T>(build: () => Rule<T>): Rule<T> {
+  let rule: Rule<T> | undefined;
+  return {
+    expected: 'object',
+    check: (value, path, issues) => {
+      rule = rule ?? build();
+      rule.check(value, path, issues);
+    },
+    coerce: (value) => {
+      rule = rule ?? build();
+      return rule.coerce(value);
+    }
+  };
+}
+
+/**
+ * Builds the rule of a response envelope.
+ * @param body - The rule of `message.body`.
+ * @param header - The rules of the extra header fields.
+ */
+function envelope<B, H extends object = {}>(
+  body: Rule<B>,
+  header?: Shape<H>
+): Rule<Envelope<B, H>> {
+  return object<Envelope<B, H>>({
+    message: object({
+      header: object({
+        status_code: number(),
+        execute_time: number(),
+        ...header
+      } as unknown as Shape<Envelope<B, H>['message']['header']>),
+      body
+    }),
+    raw: optional(string())
+  });
+}
+
+const paginated: Shape<PaginatedHeader> = { available: number() };
+
+const translationList = <K extends string>(key: K) =>
+  array(
+    object({
+      [key]: object({ language: string(), translation: string() })
+    } as Shape<{ [P in K]: { language: string; translation: string } }>)
+  );
+
+const musicGenre: Rule<MusicGenre> = object<MusicGenre>({
+  music_genre_id: number(),
+  music_genre_parent_id: number(),
+  music_genre_name: string(),
+  music_genre_name_extended: string(),
+  music_genre_vanity: string()
+});
+
+const musicGenreList: Rule<MusicGenreList> = object<MusicGenreList>({
+  music_genre_list: array(object({ music_genre: musicGenre }))
+});
+
+const track: Rule<Track> = object<Track>({
+  track_id: number(),
+  track_mbid: optional(string()),
+  track_isrc: optional(string()),
+  commontrack_isrcs: optional(array(array(string()))),
+  track_spotify_id: optional(string()),
+  track_name: string(),
+  track_name_translation_list: translationList('track_name_translation'),
+  track_rating: number(),
+  track_length: optional(number()),
+  commontrack_id: number(),
+  instrumental: number(),
+  explicit: number(),
+  has_lyrics: number(),
+  has_subtitles: number(),
+  has_richsync: number(),
+  num_favourite: number(),
+  lyrics_id: optional(number()),
+  subtitle_id: optional(number()),
+  album_id: number(),
+  album_name: string(),
+  artist_id: number(),
+  artist_name: string(),
+  album_coverart_100x100: optional(string()),
+  album_coverart_350x350: optional(string()),
+  album_coverart_500x500: optional(string()),
+  album_coverart_800x800: optional(string()),
+  track_share_url: string(),
+  track_edit_url: string(),
+  restricted: number(),
+  updated_time: string(),
+  primary_genres: musicGenreList,
+  secondary_genres: optional(musicGenreList)
+});
+
+const artist: Rule<Artist> = object<Artist>({
+  artist_id: number(),
+  artist_mbid: string(),
+  artist_name: string(),
+  artist_name_translation_list: optional(
+    translationList('artist_name_translation')
+  ),
+  artist_comment: optional(string()),
+  artist_country: optional(string()),
+  artist_alias_list: array(object({ artist_alias: string() })),
+  artist_rating: number(),
+  artist_twitter_url: optional(string()),
+  artist_credits: optional(
+    object({ artist_list: array(object({ artist: lazy(() => artist) })) })
+  ),
+  primary_genres: optional(musicGenreList),
+  secondary_genres: optional(musicGenreList),
+  restricted: optional(number()),
+  begin_date: optional(string()),
+  end_date: optional(string()),
+  updated_time: string()
+});
+
+const album: Rule<Album> = object<Album>({
+  album_id: number(),
+  album_mbid: string(),
+  album_name: string(),
+  album_rating: number(),
+  album_track_count: optional(number()),
+  album_release_date: string(),
+  album_release_type: optional(string()),
+  artist_id: number(),
+  artist_name: string(),
+  primary_genres: musicGenreList,
+  secondary_genres: optional(musicGenreList),
+  album_pline: string(),
+  album_copyright: string(),
+  album_label: string(),
+  album_coverart_100x100: optional(string()),
+  album_coverart_350x350: optional(string()),
+  album_coverart_500x500: optional(string()),
+  album_coverart_800x800: optional(string()),
+  restricted: number(),
+  updated_time: string()
+});
+
+const lyrics: Rule<Lyrics> = object<Lyrics>({
+  lyrics_id: number(),
+  restricted: number(),
+  instrumental: number(),
+  explicit: optional(number()),
+  lyrics_body: string(),
+  lyrics_language: string(),
+  lyrics_language_description: optional(string()),
+  script_tracking_url: string(),
+  pixel_tracking_url: string(),
+  html_tracking_url: optional(string()),
+  lyrics_copyright: string(),
+  backlink_url: optional(string()),
+  updated_time: string()
+});
+
+const lyricsTranslation: Rule<LyricsTranslation> = object<LyricsTranslation>({
+  selected_language: string(),
+  restricted: number(),
+  lyrics_body: string(),
+  lyrics_copyright: optional(string()),
+  script_tracking_url: optional(string()),
+  pixel_tracking_url: optional(string()),
+  html_tracking_url: optional(string()),
+  translation_ratio: optional(number())
+});
+
+const subtitle: Rule<Subtitle> = object<Subtitle>({
+  subtitle_id: number(),
+  restricted: number(),
+  subtitle_body: string(),
+  subtitle_length: optional(number()),
+  subtitle_language: string(),
+  subtitle_language_description: optional(string()),
+  script_tracking_url: string(),
+  pixel_tracking_url: string(),
+  html_tracking_url: string(),
+  lyrics_copyright: string(),
+  updated_time: optional(string())
+});
+
+const subtitleTranslation: Rule<SubtitleTranslation> =
+  object<SubtitleTranslation>({
+    selected_language: string(),
+    restricted: number(),
+    subtitle_body: string(),
+    lyrics_copyright: optional(string()),
+    script_tracking_url: optional(string()),
+    pixel_tracking_url: optional(string()),
+    html_tracking_url: optional(string()),
+    translation_ratio: optional(number())
+  });
+
+const richSync: Rule<RichSync> = object<RichSync>({
+  richsync_id: number(),
+  restricted: number(),
+  richsync_body: string(),
+  lyrics_copyright: string(),
+  richsync_length: number(),
+  richsync_language: string(),
+  richsync_language_description: string(),
+  script_tracking_url: string(),
+  pixel_tracking_url: optional(string()),
+  html_tracking_url: optional(string()),
+  updated_time: string()
+});
+
+const snippet: Rule<Snippet> = object<Snippet>({
+  snippet_language: string(),
+  restricted: number(),
+  instrumental: number(),
+  snippet_body: string(),
+  script_tracking_url: string(),
+  pixel_tracking_url: string(),
+  html_tracking_url: string(),
+  updated_time: string()
+});
+
+const mood: Rule<Mood> = object<Mood>({
+  mood_list: array(object({ label: string(), value: number() })),
+  raw_data: object({ valence: number(), arousal: number() })
+});
+
+const trackList = object({ track_list: array(object({ track })) });
+const artistList = object({ artist_list: array(object({ artist })) });
+
+/**
+ * The schema of every API response, keyed by API method name.
+ */
+const RESPONSE_SCHEMAS: { [M in keyof ResponseMap]: Rule<ResponseMap[M]> } = {
+  'track.get': envelope(object({ track })),
+  'track.search': envelope(trackList, paginated),
+  'chart.artists.get': envelope(artistList),
+  'chart.tracks.get': envelope(trackList),
+  'track.lyrics.get': envelope(object({ lyrics })),
+  'track.lyrics.post': envelope(anything<'' | {}>()),
+  'track.lyrics.mood.get': envelope(mood),
+  'track.snippet.get': envelope(object({ snippet })),
+  'track.subtitle.get': envelope(object({ subtitle })),
+  'track.richsync.get': envelope(object({ richsync: richSync }), paginated),
+  'track.lyrics.translation.get': envelope(
+    object({ lyrics: object({ lyrics_translated: lyricsTranslation }) })
+  ),
+  'track.subtitle.translation.get': envelope(
+    object({ subtitle: object({ subtitle_translated: subtitleTranslation }) })
+  ),
+  'music.genres.get': envelope(musicGenreList),
+  'matcher.lyrics.get': envelope(object({ lyrics })),
+  'matcher.track.get': envelope(object({ track }), {
+    confidence: number(),
+    mode: string(),
+    cached: number()
+  }),
+  'matcher.subtitle.get': envelope(object({ subtitle })),
+  'artist.get': envelope(object({ artist })),
+  'artist.search': envelope(artistList, paginated),
+  'artist.albums.get': envelope(
+    object({ album_list: array(object({ album })) }),
+    paginated
+  ),
+  'artist.related.get': envelope(artistList, paginated),
+  'album.get': envelope(object({ album })),
+  'album.tracks.get': envelope(trackList, paginated)
+};
+
+/**
+ * Checks a response against the schema of its API method.
+ * @param apiMethod - The API method.
+ * @param data - The response.
+ * @returns The issues, empty when the response matches or the method has no schema.
+ */
+function validateResponse(apiMethod: string, data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const schema = (
+    RESPONSE_SCHEMAS as { [apiMethod: string]: Rule<unknown> | undefined }
+  )[apiMethod];
+  if (schema) {
+    schema.check(data, '$', issues);
+  }
+  return issues.map((issue) => ({
+    ...issue,
+    path: issue.path.replace(/^\$\.?/, '')
+  }));
+}
+
+/**
+ * Gives a response decoded from XML the types of its JSON counterpart,
+ * following the schema of its API method. Only the header is converted for
+ * methods without a schema.
+ * @param apiMethod - The API method, e.g. `track.get`.
+ * @param data - The decoded response.
+ * @returns The response in the JSON shape.
+ */
+function coerceResponse(apiMethod: string, data: unknown): unknown {
+  const schema =
+    (RESPONSE_SCHEMAS as { [apiMethod: string]: Rule<unknown> | undefined })[
+      apiMethod
+    ] ?? envelope(anything());
+  return schema.coerce(data);
+}
+
+export { Rule, Shape, RESPONSE_SCHEMAS, validateResponse, coerceResponse };
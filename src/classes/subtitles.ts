@@ -0,0 +1,434 @@
+import {
+  Cue,
+  SubtitleConvertOptions,
+  SubtitleFormat,
+  SubtitleParseOptions,
+  TimedLine
+} from '../interfaces';
+import { SubtitleParseError } from './expectations';
+import {
+  parseLrc,
+  parseMxmSubtitle,
+  serializeLrc,
+  serializeMxmSubtitle
+} from './lrc';
+
+const DEFAULT_LAST_CUE_DURATION_MS = 4000;
+const CUE_TIMING =
+  /^\s*((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d{1,3})/;
+
+/**
+ * Guesses the format of a subtitle body from its content.
+ * @param body - The subtitle text.
+ * @returns The format.
+ * @throws SubtitleParseError - When the format cannot be recognized.
+ */
+function detectSubtitleFormat(body: string): SubtitleFormat {
+  const text = body.replace(/^\uFEFF/, '').trim();
+  if (/^WEBVTT/.test(text)) {
+    return 'vtt';
+  }
+  if (/^</.test(text) && /<tt[\s>]/.test(text)) {
+    return 'dfxp';
+  }
+  if (/^\[\s*\{/.test(text)) {
+    return 'mxm';
+  }
+  if (/^\[[^\]]*\]/m.test(text) && !/-->/.test(text)) {
+    return 'lrc';
+  }
+  if (/-->/.test(text)) {
+    return 'srt';
+  }
+  throw new SubtitleParseError(1, 'unrecognized subtitle format');
+}
+
+/**
+ * Formats a time as a WebVTT timestamp.
+ * @param ms - The time in milliseconds.
+ * @returns The timestamp, e.g. `00:01:02.340`.
+ */
+function formatVttTimestamp(ms: number): string {
+  const total = Math.round(Math.max(0, ms));
+  const pad = (n: number, width: number = 2) => {
+    let str = `${n}`;
+    while (str.length < width) {
+      str = `0${str}`;
+    }
+    return str;
+  };
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Parses `hh:mm:ss.fff`, `mm:ss.fff` and `hh:mm:ss,fff` clock times.
+ * @param value - The clock time.
+ * @returns The time in milliseconds, or `undefined` when malformed.
+ */
+function parseClockTime(value: string): number | undefined {
+  const match = /^\s*(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?\s*$/.exec(
+    value
+  );
+  if (!match) {
+    return undefined;
+  }
+  return (
+    parseInt(match[1] ?? '0', 10) * 3600000 +
+    parseInt(match[2], 10) * 60000 +
+    parseInt(match[3], 10) * 1000 +
+    Math.round(parseFloat(`0.${match[4] ?? '0'}`) * 1000)
+  );
+}
+
+/**
+ * Parses a TTML time expression: a clock time, or an offset such as `1.5s`,
+ * `1500ms`, `2m` or `1h`.
+ * @param value - The time expression.
+ * @returns The time in milliseconds, or `undefined` when malformed.
+ */
+function parseTtmlTime(value: string): number | undefined {
+  const offset = /^\s*(\d+(?:\.\d+)?)(h|m|s|ms)\s*$/.exec(value);
+  if (offset) {
+    const units: { [unit: string]: number } = {
+      h: 3600000,
+      m: 60000,
+      s: 1000,
+      ms: 1
+    };
+    return Math.round(parseFloat(offset[1]) * units[offset[2]]);
+  }
+  // hh:mm:ss:frames, assuming 30 frames per second.
+  const frames = /^\s*(\d+):(\d{2}):(\d{2}):(\d{2})\s*$/.exec(value);
+  if (frames) {
+    return (
+      parseInt(frames[1], 10) * 3600000 +
+      parseInt(frames[2], 10) * 60000 +
+      parseInt(frames[3], 10) * 1000 +
+      Math.round((parseInt(frames[4], 10) * 1000) / 30)
+    );
+  }
+  return parseClockTime(value);
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXmlEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Turns start-only lines into cues. Each cue ends when the next line starts;
+ * lines with empty text only end the previous cue.
+ * @param lines - The timed lines.
+ * @param lastCueDurationMs - The duration of the last cue.
+ * @returns The cues.
+ */
+function linesToCues(
+  lines: TimedLine[],
+  lastCueDurationMs: number = DEFAULT_LAST_CUE_DURATION_MS
+): Cue[] {
+  const sorted = lines.slice().sort((a, b) => a.time_ms - b.time_ms);
+  const cues: Cue[] = [];
+  sorted.forEach((line, index) => {
+    if (!line.text) {
+      return;
+    }
+    const next = sorted[index + 1];
+    cues.push({
+      start_ms: line.time_ms,
+      end_ms: next ? next.time_ms : line.time_ms + lastCueDurationMs,
+      text: line.text
+    });
+  });
+  return cues;
+}
+
+/**
+ * Turns cues into start-only lines, adding an empty line wherever a cue ends
+ * before the next one starts.
+ * @param cues - The cues.
+ * @returns The timed lines.
+ */
+function cuesToLines(cues: Cue[]): TimedLine[] {
+  const sorted = cues.slice().sort((a, b) => a.start_ms - b.start_ms);
+  const lines: TimedLine[] = [];
+  sorted.forEach((cue, index) => {
+    lines.push({ time_ms: cue.start_ms, text: cue.text.replace(/\n/g, ' ') });
+    const next = sorted[index + 1];
+    if (!next || cue.end_ms < next.start_ms) {
+      lines.push({ time_ms: cue.end_ms, text: '' });
+    }
+  });
+  return lines;
+}
+
+/**
+ * Parses SRT and WebVTT cue blocks. Markup tags are dropped.
+ * @param body - The subtitle text.
+ * @param format - The format, WebVTT text also has its entities decoded.
+ * @param options - The parse options.
+ * @returns The cues.
+ */
+function parseCueBlocks(
+  body: string,
+  format: 'vtt' | 'srt',
+  options: SubtitleParseOptions
+): Cue[] {
+  const cues: Cue[] = [];
+  const rows = body.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  let index = 0;
+
+  while (index < rows.length) {
+    const match = CUE_TIMING.exec(rows[index]);
+    if (!match) {
+      index += 1;
+      continue;
+    }
+    const start = parseClockTime(match[1]);
+    const end = parseClockTime(match[2]);
+    const text: string[] = [];
+    index += 1;
+    while (index < rows.length && rows[index].trim() !== '') {
+      text.push(rows[index]);
+      index += 1;
+    }
+    if (start === undefined || end === undefined || end < start) {
+      if (options.strict) {
+        throw new SubtitleParseError(index, 'invalid cue timing');
+      }
+      continue;
+    }
+    const plain = text.join('\n').replace(/<[^>]*>/g, '');
+    cues.push({
+      start_ms: start,
+      end_ms: end,
+      text: format === 'vtt' ? decodeXmlEntities(plain) : plain
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Parses DFXP/TTML `<p>` elements.
+ * @param body - The XML text.
+ * @param options - The parse options.
+ * @returns The cues.
+ */
+function parseDfxp(body: string, options: SubtitleParseOptions): Cue[] {
+  const cues: Cue[] = [];
+  const paragraph = /<p\b([^>]*)>([\s\S]*?)<\/p>/g;
+  let match: RegExpExecArray | null;
+  let position = 0;
+
+  while ((match = paragraph.exec(body)) !== null) {
+    position += 1;
+    const attributes = match[1];
+    const attribute = (name: string) => {
+      const found = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(attributes);
+      return found ? found[1] : undefined;
+    };
+    const beginAttr = attribute('begin');
+    const endAttr = attribute('end');
+    const durAttr = attribute('dur');
+    const begin =
+      beginAttr !== undefined ? parseTtmlTime(beginAttr) : undefined;
+    let end = endAttr !== undefined ? parseTtmlTime(endAttr) : undefined;
+    if (end === undefined && begin !== undefined && durAttr !== undefined) {
+      const dur = parseTtmlTime(durAttr);
+      end = dur !== undefined ? begin + dur : undefined;
+    }
+    if (begin === undefined) {
+      if (options.strict) {
+        throw new SubtitleParseError(position, 'paragraph without begin');
+      }
+      continue;
+    }
+    const text = decodeXmlEntities(
+      match[2].replace(/<br\s*\/?>/g, '\n').replace(/<[^>]*>/g, '')
+    ).trim();
+    // A missing end is inferred from the next paragraph below.
+    cues.push({ start_ms: begin, end_ms: end ?? -1, text });
+  }
+
+  return cues;
+}
+
+/**
+ * Fills cue ends that are unknown (negative) from the next cue's start.
+ * @param cues - The cues, possibly with unknown ends.
+ * @param lastCueDurationMs - The duration of a last cue without an end.
+ * @returns The cues, sorted by start.
+ */
+function inferCueEnds(cues: Cue[], lastCueDurationMs: number): Cue[] {
+  const sorted = cues.slice().sort((a, b) => a.start_ms - b.start_ms);
+  return sorted.map((cue, index) => {
+    if (cue.end_ms >= cue.start_ms) {
+      return cue;
+    }
+    const next = sorted[index + 1];
+    return {
+      ...cue,
+      end_ms: next ? next.start_ms : cue.start_ms + lastCueDurationMs
+    };
+  });
+}
+
+/**
+ * Scales and shifts cue times, e.g. when the matched track is longer or
+ * shorter than the audio. Times never go below zero.
+ * @param cues - The cues.
+ * @param options - The offset and time scale.
+ * @returns The adjusted cues.
+ */
+function adjustCues(
+  cues: Cue[],
+  options: Pick<SubtitleConvertOptions, 'offsetMs' | 'timeScale'>
+): Cue[] {
+  const scale = options.timeScale ?? 1;
+  const offset = options.offsetMs ?? 0;
+  const adjust = (ms: number) => Math.max(0, Math.round(ms * scale + offset));
+  return cues.map((cue) => ({
+    ...cue,
+    start_ms: adjust(cue.start_ms),
+    end_ms: adjust(cue.end_ms)
+  }));
+}
+
+/**
+ * Parses a subtitle body in any supported format into cues.
+ * @param body - The subtitle text.
+ * @param options - The input format, parse and timing options.
+ * @returns The cues, sorted by start.
+ */
+function parseSubtitle(
+  body: string,
+  options: SubtitleConvertOptions = {}
+): Cue[] {
+  const format = options.from ?? detectSubtitleFormat(body);
+  const lastCueDurationMs =
+    options.lastCueDurationMs ?? DEFAULT_LAST_CUE_DURATION_MS;
+  let cues: Cue[];
+
+  switch (format) {
+    case 'lrc':
+      cues = linesToCues(parseLrc(body, options).lines, lastCueDurationMs);
+      break;
+    case 'mxm':
+      cues = linesToCues(parseMxmSubtitle(body, options), lastCueDurationMs);
+      break;
+    case 'dfxp':
+      cues = inferCueEnds(parseDfxp(body, options), lastCueDurationMs);
+      break;
+    case 'vtt':
+    case 'srt':
+      cues = parseCueBlocks(body, format, options);
+      break;
+  }
+
+  return adjustCues(cues, options).sort((a, b) => a.start_ms - b.start_ms);
+}
+
+/**
+ * Serializes cues to a subtitle format.
+ * @param cues - The cues.
+ * @param format - The output format.
+ * @returns The subtitle text.
+ */
+function serializeSubtitle(cues: Cue[], format: SubtitleFormat): string {
+  const sorted = cues.slice().sort((a, b) => a.start_ms - b.start_ms);
+
+  switch (format) {
+    case 'lrc':
+      return serializeLrc(cuesToLines(sorted));
+    case 'mxm':
+      return serializeMxmSubtitle(cuesToLines(sorted));
+    case 'srt':
+      return (
+        sorted
+          .map(
+            (cue, index) =>
+              `${index + 1}\n${formatVttTimestamp(cue.start_ms).replace('.', ',')} --> ${formatVttTimestamp(cue.end_ms).replace('.', ',')}\n${cue.text}`
+          )
+          .join('\n\n') + '\n'
+      );
+    case 'vtt':
+      return (
+        ['WEBVTT']
+          .concat(
+            sorted.map(
+              (cue) =>
+                `${formatVttTimestamp(cue.start_ms)} --> ${formatVttTimestamp(cue.end_ms)}\n${escapeVttText(cue.text)}`
+            )
+          )
+          .join('\n\n') + '\n'
+      );
+    case 'dfxp': {
+      const paragraphs = sorted.map(
+        (cue) =>
+          `      <p begin="${formatVttTimestamp(cue.start_ms)}" end="${formatVttTimestamp(cue.end_ms)}">${encodeXmlEntities(cue.text).replace(/\n/g, '<br/>')}</p>`
+      );
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<tt xmlns="http://www.w3.org/ns/ttml">',
+        '  <body>',
+        '    <div>',
+        ...paragraphs,
+        '    </div>',
+        '  </body>',
+        '</tt>',
+        ''
+      ].join('\n');
+    }
+  }
+}
+
+/**
+ * Converts a subtitle body from one format to another.
+ * @param body - The subtitle text.
+ * @param to - The output format.
+ * @param options - The input format, parse and timing options.
+ * @returns The converted subtitle text.
+ */
+function convertSubtitle(
+  body: string,
+  to: SubtitleFormat,
+  options: SubtitleConvertOptions = {}
+): string {
+  return serializeSubtitle(parseSubtitle(body, options), to);
+}
+
+export {
+  detectSubtitleFormat,
+  parseTtmlTime,
+  linesToCues,
+  cuesToLines,
+  adjustCues,
+  parseSubtitle,
+  serializeSubtitle,
+  convertSubtitle,
+  formatVttTimestamp,
+  decodeXmlEntities
+};
@@ -0,0 +1,299 @@
+import {
+  AlignTranslationOptions,
+  AlignedTranslation,
+  BilingualLine,
+  BilingualVttOptions,
+  TimedBilingualLine,
+  TimedLine,
+  TranslationQuery
+} from '../interfaces';
+import { MusixmatchError } from './expectations';
+import { formatLrcTimestamp } from './lrc';
+import type { Musixmatch } from './musixmatch';
+import { orUndefined } from './resolver';
+import {
+  cuesToLines,
+  linesToCues,
+  parseSubtitle,
+  serializeSubtitle
+} from './subtitles';
+
+/** A translated subtitle line further away than this is not paired by time. */
+const SYNC_TOLERANCE_MS = 500;
+
+/**
+ * The disclaimer and tracking id appended to lyrics bodies on the free plan.
+ */
+const LYRICS_FOOTER = /^(\*{3,}.*\*{3,}|\(\d+\))$/;
+
+/**
+ * Splits a lyrics body into lines, without the free plan footer.
+ */
+function lyricsLines(body: string): string[] {
+  const lines = body
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter((line) => !LYRICS_FOOTER.test(line));
+  while (lines.length && !lines[lines.length - 1]) {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Pairs the lines of a lyrics body with the lines of its translation. When
+ * both have as many non-empty lines, these are paired in order and the blank
+ * lines between verses are kept; otherwise lines are paired by position.
+ * @param original - The original lyrics body.
+ * @param translated - The translated lyrics body.
+ * @returns The original lines with their translation.
+ */
+function alignLyricsTranslation(
+  original: string,
+  translated: string
+): BilingualLine[] {
+  const lines = lyricsLines(original);
+  const translations = lyricsLines(translated);
+  const nonEmpty = translations.filter(Boolean);
+  const inOrder = nonEmpty.length === lines.filter(Boolean).length;
+  let next = 0;
+
+  return lines.map((text, index) => {
+    if (!text) {
+      return { text };
+    }
+    const translation = inOrder ? nonEmpty[next++] : translations[index];
+    return translation ? { text, translation } : { text };
+  });
+}
+
+/**
+ * Pairs the lines of a subtitle with the lines of its translation, keeping
+ * the original timestamps. Lines are paired in order when both have as many
+ * lines, and by nearest start time (within 500 ms) otherwise. Both bodies can
+ * be in any format understood by `parseSubtitle`.
+ * @param original - The original subtitle body.
+ * @param translated - The translated subtitle body.
+ * @returns The timed original lines with their translation.
+ */
+function alignSubtitleTranslation(
+  original: string,
+  translated: string
+): TimedBilingualLine[] {
+  const lines = cuesToLines(parseSubtitle(original));
+  const translations = cuesToLines(parseSubtitle(translated)).filter(
+    (line) => line.text
+  );
+  const inOrder =
+    translations.length === lines.filter((line) => line.text).length;
+  const used: boolean[] = [];
+  let next = 0;
+
+  return lines.map(({ time_ms, text }) => {
+    if (!text) {
+      return { time_ms, text };
+    }
+    const match = inOrder
+      ? translations[next++]
+      : nearestLine(translations, time_ms, used);
+    return match
+      ? { time_ms, text, translation: match.text }
+      : { time_ms, text };
+  });
+}
+
+/**
+ * Finds the unused line starting closest to `ms`, within the tolerance, and
+ * marks it as used.
+ */
+function nearestLine(
+  lines: TimedLine[],
+  ms: number,
+  used: boolean[]
+): TimedLine | undefined {
+  let best = -1;
+  lines.forEach((line, index) => {
+    const distance = Math.abs(line.time_ms - ms);
+    if (
+      !used[index] &&
+      distance <= SYNC_TOLERANCE_MS &&
+      (best === -1 || distance < Math.abs(lines[best].time_ms - ms))
+    ) {
+      best = index;
+    }
+  });
+  if (best === -1) {
+    return undefined;
+  }
+  used[best] = true;
+  return lines[best];
+}
+
+/**
+ * The share of non-empty original lines that have a translation.
+ * @param lines - The aligned lines.
+ * @returns A ratio from 0 to 1, 0 when there is no line.
+ */
+function translationCompletion(lines: BilingualLine[]): number {
+  const sung = lines.filter((line) => line.text);
+  if (!sung.length) {
+    return 0;
+  }
+  return sung.filter((line) => line.translation).length / sung.length;
+}
+
+/**
+ * Serializes aligned lines as a dual-language LRC: each translation follows
+ * its original line with the same timestamp, which most players show as a
+ * second line.
+ * @param lines - The timed aligned lines.
+ * @returns The LRC text.
+ */
+function serializeBilingualLrc(lines: TimedBilingualLine[]): string {
+  const rows: string[] = [];
+  lines
+    .slice()
+    .sort((a, b) => a.time_ms - b.time_ms)
+    .forEach((line) => {
+      const time = `[${formatLrcTimestamp(line.time_ms)}]`;
+      rows.push(`${time}${line.text}`);
+      if (line.translation) {
+        rows.push(`${time}${line.translation}`);
+      }
+    });
+  return rows.length ? rows.join('\n') + '\n' : '';
+}
+
+/**
+ * Serializes aligned lines as a dual-language WebVTT: each cue holds the
+ * original line and its translation below it.
+ * @param lines - The timed aligned lines.
+ * @param options - The cue timing options.
+ * @returns The WebVTT text.
+ */
+function serializeBilingualVtt(
+  lines: TimedBilingualLine[],
+  options: BilingualVttOptions = {}
+): string {
+  const cues = linesToCues(
+    lines.map(({ time_ms, text, translation }) => ({
+      time_ms,
+      text: text && translation ? `${text}\n${translation}` : text
+    })),
+    options.lastCueDurationMs
+  );
+  return serializeSubtitle(cues, 'vtt');
+}
+
+/**
+ * Fetches a track's lyrics and their translation in `selected_language` and
+ * aligns them line by line. With `synced` (the default) and a
+ * `commontrack_id`, the subtitle and its translation are aligned first so the
+ * lines keep their timestamps; the plain lyrics are used when either is
+ * missing. A query with only a `track_isrc` is first resolved to its
+ * `commontrack_id` with `track.get`.
+ * @param client - The Musixmatch instance used to call the API.
+ * @param query - The track and the language.
+ * @param options - The alignment options.
+ * @returns The aligned lines, or `null` when the track has no lyrics or no translation in that language.
+ * @throws {MusixmatchError} When the query has no `commontrack_id`, `track_id` or `track_isrc`.
+ */
+async function alignTranslation(
+  client: Musixmatch,
+  query: TranslationQuery,
+  options: AlignTranslationOptions = {}
+): Promise<AlignedTranslation | null> {
+  const { synced = true, ...requestOptions } = options;
+  const { selected_language, min_completed, track_id, track_isrc } = query;
+  let { commontrack_id } = query;
+
+  if (track_id === undefined && commontrack_id === undefined) {
+    if (track_isrc === undefined) {
+      throw new MusixmatchError(
+        'alignTranslation needs a `commontrack_id`, `track_id` or `track_isrc`.'
+      );
+    }
+    const track = await orUndefined(
+      client.tracks.get({ track_isrc }, requestOptions)
+    );
+    if (!track) {
+      return null;
+    }
+    commontrack_id = track.commontrackId;
+  }
+
+  const result = (
+    lines: BilingualLine[]
+  ): Pick<
+    AlignedTranslation,
+    'language' | 'completion' | 'minCompleted' | 'complete'
+  > => {
+    const completion = translationCompletion(lines);
+    return {
+      language: selected_language,
+      completion,
+      minCompleted: min_completed,
+      complete: completion >= (min_completed ?? 0)
+    };
+  };
+
+  if (synced && commontrack_id !== undefined) {
+    const [subtitle, translation] = await Promise.all([
+      orUndefined(client.tracks.subtitle({ commontrack_id }, requestOptions)),
+      orUndefined(
+        client.tracks.subtitleTranslation(
+          { selected_language, min_completed, commontrack_id, track_isrc },
+          requestOptions
+        )
+      )
+    ]);
+    if (subtitle && translation) {
+      const lines = alignSubtitleTranslation(subtitle.body, translation.body);
+      return {
+        ...result(lines),
+        synced: true,
+        original: subtitle,
+        translation,
+        lines
+      };
+    }
+  }
+
+  const [lyrics, translation] = await Promise.all([
+    orUndefined(
+      client.tracks.lyrics({ track_id, commontrack_id }, requestOptions)
+    ),
+    orUndefined(
+      client.tracks.lyricsTranslation(
+        {
+          selected_language,
+          min_completed,
+          commontrack_id,
+          track_id,
+          track_isrc
+        },
+        requestOptions
+      )
+    )
+  ]);
+  if (!lyrics || !translation) {
+    return null;
+  }
+  const lines = alignLyricsTranslation(lyrics.body, translation.body);
+  return {
+    ...result(lines),
+    synced: false,
+    original: lyrics,
+    translation,
+    lines
+  };
+}
+
+export {
+  alignLyricsTranslation,
+  alignSubtitleTranslation,
+  translationCompletion,
+  serializeBilingualLrc,
+  serializeBilingualVtt,
+  alignTranslation
+};
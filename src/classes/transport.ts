@@ -0,0 +1,117 @@
+import axios, { AxiosInstance } from 'axios';
+import { Transport, TransportRequest, TransportResponse } from '../interfaces';
+import { MusixmatchError } from './expectations';
+
+/**
+ * The subset of the WHATWG `fetch` API used by {@link FetchTransport}.
+ */
+type FetchLike = (
+  url: string,
+  init: {
+    method: string;
+    headers?: { [key: string]: string };
+    signal?: AbortSignal;
+  }
+) => Promise<{
+  status: number;
+  text(): Promise<string>;
+  headers?: { forEach(callback: (value: string, key: string) => void): void };
+}>;
+
+/**
+ * Serializes query parameters, leaving out `undefined` values.
+ * @param params - The parameters.
+ * @returns The query string, without the leading `?`.
+ */
+function toQueryString(params: TransportRequest['params']): string {
+  return Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .map(
+      (key) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`
+    )
+    .join('&');
+}
+
+/**
+ * Sends requests through axios. This is the default transport.
+ */
+class AxiosTransport implements Transport {
+  private client: AxiosInstance;
+
+  /**
+   * Constructs a new instance of the AxiosTransport class.
+   * @param client - The axios instance to use. Defaults to the global one.
+   */
+  constructor(client?: AxiosInstance) {
+    this.client = client ?? axios;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.client.request({
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      headers: request.headers,
+      signal: request.signal,
+      validateStatus: () => true
+    });
+    const headers: { [key: string]: string } = {};
+    Object.keys(response.headers || {}).forEach((key) => {
+      headers[key.toLowerCase()] = String(response.headers[key]);
+    });
+
+    return { status: response.status, data: response.data, headers };
+  }
+}
+
+/**
+ * Sends requests through `fetch`, for runtimes without Node's http module
+ * (edge workers, Deno, browsers).
+ */
+class FetchTransport implements Transport {
+  private fetchFn: FetchLike;
+
+  /**
+   * Constructs a new instance of the FetchTransport class.
+   * @param fetchFn - The fetch implementation. Defaults to the global `fetch`.
+   */
+  constructor(fetchFn?: FetchLike) {
+    const globalFetch =
+      typeof globalThis !== 'undefined' ? (globalThis as any).fetch : undefined;
+    if (!fetchFn && typeof globalFetch !== 'function') {
+      throw new MusixmatchError('No fetch implementation is available.');
+    }
+    this.fetchFn = fetchFn ?? globalFetch.bind(globalThis);
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const query = toQueryString(request.params);
+    const response = await this.fetchFn(
+      query ? `${request.url}?${query}` : request.url,
+      {
+        method: request.method.toUpperCase(),
+        headers: request.headers,
+        signal: request.signal
+      }
+    );
+    const text = await response.text();
+    const headers: { [key: string]: string } = {};
+    if (response.headers) {
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+    }
+
+    let data: any = text;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      // Not JSON, hand the raw body back.
+    }
+
+    return { status: response.status, data, headers };
+  }
+}
+
+export { FetchLike, AxiosTransport, FetchTransport, toQueryString };
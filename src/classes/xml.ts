@@ -0,0 +1,122 @@
+import { coerceResponse } from './schemas';
+import { decodeXmlEntities } from './subtitles';
+
+/**
+ * An element of a parsed XML document. Attributes are not kept: the API
+ * does not use them.
+ */
+interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  /** The text content, entities decoded. */
+  text: string;
+}
+
+const TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)(?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*\s*(\/?)>|([^<]+)/g;
+
+/**
+ * Parses an XML document.
+ * @param xml - The XML text.
+ * @returns The root element, or `undefined` when the text is not well-formed.
+ */
+function parseXml(xml: string): XmlElement | undefined {
+  const document: XmlElement = { name: '', children: [], text: '' };
+  const stack = [document];
+  const pattern = new RegExp(TOKEN.source, 'g');
+  const text = xml.replace(/^﻿/, '');
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while (position < text.length) {
+    pattern.lastIndex = position;
+    match = pattern.exec(text);
+    if (!match || match.index !== position) {
+      return undefined;
+    }
+    position = pattern.lastIndex;
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, selfClosing, chars] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (chars !== undefined) {
+      current.text += decodeXmlEntities(chars);
+    } else if (closing !== undefined) {
+      if (stack.length === 1 || current.name !== closing) {
+        return undefined;
+      }
+      stack.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: opening, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  return stack.length === 1 && document.children.length === 1
+    ? document.children[0]
+    : undefined;
+}
+
+/**
+ * Turns an element into the value its JSON counterpart would have. Leaves
+ * are strings; `*_list` elements become arrays of `{ [child]: value }`, as in
+ * the JSON responses; repeated children become arrays.
+ * @param element - The element.
+ * @returns The value.
+ */
+function xmlToValue(element: XmlElement): unknown {
+  if (!element.children.length) {
+    return element.text;
+  }
+  if (/_list$/.test(element.name)) {
+    return element.children.map((child) => ({
+      [child.name]: xmlToValue(child)
+    }));
+  }
+  const result: { [key: string]: unknown } = {};
+  element.children.forEach((child) => {
+    const value = xmlToValue(child);
+    const existing = result[child.name];
+    if (existing === undefined) {
+      result[child.name] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[child.name] = [existing, value];
+    }
+  });
+  return result;
+}
+
+/**
+ * Tells whether a response body is XML rather than JSON.
+ * @param data - The response body, as returned by the transport.
+ */
+function isXmlResponse(data: unknown): data is string {
+  return typeof data === 'string' && /^\s*</.test(data);
+}
+
+/**
+ * Decodes a `format=xml` response into the envelope the JSON format would
+ * give, with the same types, and keeps the XML text in `raw`.
+ * @param apiMethod - The API method, e.g. `artist.search`.
+ * @param xml - The response body.
+ * @returns The envelope, or `undefined` when the body is not a Musixmatch XML response.
+ */
+function decodeXmlResponse(apiMethod: string, xml: string): any {
+  const root = parseXml(xml);
+  if (!root || root.name !== 'message') {
+    return undefined;
+  }
+  const data = coerceResponse(apiMethod, { message: xmlToValue(root) }) as {
+    [key: string]: unknown;
+  };
+  data.raw = xml;
+  return data;
+}
+
+export { XmlElement, parseXml, xmlToValue, isXmlResponse, decodeXmlResponse };
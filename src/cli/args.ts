@@ -0,0 +1,92 @@
+import { MusixmatchError } from '../classes';
+
+/**
+ * Thrown on unknown commands, missing arguments or malformed flags.
+ */
+class UsageError extends MusixmatchError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * The parsed command line.
+ */
+interface ParsedArgs {
+  /** The arguments that are not flags, commands included. */
+  positionals: string[];
+  /** The flags, keyed by long name. Boolean flags are `true`. */
+  flags: { [name: string]: string | true };
+}
+
+/**
+ * Parses `--name value`, `--name=value`, `-n value` and boolean flags.
+ * Everything after `--` is positional.
+ * @param argv - The arguments, without the node binary and the script.
+ * @param booleans - The flags that take no value.
+ * @param aliases - Short flag names mapped to their long name.
+ * @returns The positionals and the flags.
+ */
+function parseArgs(
+  argv: string[],
+  booleans: string[],
+  aliases: { [short: string]: string }
+): ParsedArgs {
+  const result: ParsedArgs = { positionals: [], flags: {} };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--') {
+      result.positionals.push(...argv.slice(index + 1));
+      break;
+    }
+    const match = /^(?:--([\w-]+)|-(\w))(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      result.positionals.push(arg);
+      continue;
+    }
+    const name = match[1] ?? aliases[match[2]];
+    if (!name) {
+      throw new UsageError(`Unknown flag ${arg}`);
+    }
+    if (booleans.indexOf(name) !== -1) {
+      result.flags[name] = true;
+    } else if (match[3] !== undefined) {
+      result.flags[name] = match[3];
+    } else if (index + 1 < argv.length) {
+      result.flags[name] = argv[++index];
+    } else {
+      throw new UsageError(`Missing value for ${arg}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads a string flag.
+ */
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) {
+    throw new UsageError(`--${name} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * Reads a positive integer flag.
+ */
+function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+export { UsageError, ParsedArgs, parseArgs, stringFlag, numberFlag };
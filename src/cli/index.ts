@@ -0,0 +1,307 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  InvalidParamsError,
+  MXMException,
+  Musixmatch,
+  NetworkError,
+  TimeoutError,
+  convertSubtitle
+} from '../classes';
+import { AlbumModel, TrackModel } from '../interfaces';
+import {
+  ParsedArgs,
+  UsageError,
+  numberFlag,
+  parseArgs,
+  stringFlag
+} from './args';
+import { Column, renderJson, renderTable } from './output';
+
+const USAGE = `Usage: mxm <command> [options]
+
+Commands:
+  search --artist <name> --track <name>   Search tracks (also --lyrics, --query, --has-lyrics)
+  lyrics <track_id|isrc>                  Print the lyrics of a track
+  subtitle <commontrack_id|isrc>          Print the synced lyrics (--format lrc|vtt, -o <file>)
+  chart --country <code> --name <chart>   List a chart (top, hot, mxmweekly, mxmweekly_new)
+  artist albums <artist_id>               List the albums of an artist
+
+Options:
+  --json               Print JSON instead of a table
+  --page <n>           The page number
+  --page-size <n>      The number of results per page
+  --config <file>      The config file. Defaults to ~/.mxmrc
+  --base-url <url>     The root URL of the API, e.g. a mock server
+  -h, --help           Show this help
+
+search and chart list both ids of a track: lyrics takes the ID column,
+subtitle the COMMONTRACK column. The API key is read from MXM_API_KEY, or from the "apikey" field of the config file.
+The root URL is read from --base-url, then MXM_BASE_URL.`;
+
+/**
+ * Exit codes. API errors are mapped from the status code of the response.
+ */
+const EXIT_CODES = {
+  error: 1,
+  usage: 2,
+  network: 3,
+  status: {
+    400: 4,
+    401: 5,
+    402: 6,
+    403: 7,
+    404: 8,
+    405: 9,
+    500: 10,
+    503: 11
+  } as { [status_code: number]: number }
+};
+
+const ISRC = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/i;
+
+const TRACK_COLUMNS: Array<Column<TrackModel>> = [
+  { header: 'ID', value: (track) => track.id },
+  { header: 'COMMONTRACK', value: (track) => track.commontrackId },
+  { header: 'TRACK', value: (track) => track.name },
+  { header: 'ARTIST', value: (track) => track.artistName },
+  { header: 'ALBUM', value: (track) => track.albumName },
+  { header: 'LYRICS', value: (track) => track.hasLyrics },
+  { header: 'SYNCED', value: (track) => track.hasSubtitles }
+];
+
+const ALBUM_COLUMNS: Array<Column<AlbumModel>> = [
+  { header: 'ID', value: (album) => album.id },
+  { header: 'ALBUM', value: (album) => album.name },
+  { header: 'RELEASED', value: (album) => album.releaseDate },
+  { header: 'TRACKS', value: (album) => album.trackCount },
+  { header: 'LABEL', value: (album) => album.label }
+];
+
+/**
+ * Reads the API key from `MXM_API_KEY`, then from the config file.
+ */
+function readApiKey(args: ParsedArgs): string {
+  if (process.env.MXM_API_KEY) {
+    return process.env.MXM_API_KEY;
+  }
+  const explicit = stringFlag(args, 'config');
+  const file = explicit ?? path.join(os.homedir(), '.mxmrc');
+  if (fs.existsSync(file)) {
+    let config: { apikey?: unknown };
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`${file} is not valid JSON`);
+    }
+    if (typeof config.apikey === 'string' && config.apikey) {
+      return config.apikey;
+    }
+    throw new UsageError(`${file} has no "apikey" field`);
+  }
+  if (explicit) {
+    throw new UsageError(`${file} does not exist`);
+  }
+  throw new UsageError(
+    'No API key: set MXM_API_KEY or add {"apikey": "..."} to ~/.mxmrc'
+  );
+}
+
+/**
+ * Resolves a `<track_id|isrc>` or `<commontrack_id|isrc>` argument, looking
+ * the track up when an ISRC is given.
+ * @param mxm - The client.
+ * @param id - The argument.
+ * @param key - Which id of the track to return.
+ */
+async function trackId(
+  mxm: Musixmatch,
+  id: string,
+  key: 'id' | 'commontrackId'
+): Promise<number> {
+  if (/^\d+$/.test(id)) {
+    return parseInt(id, 10);
+  }
+  if (ISRC.test(id)) {
+    return (await mxm.tracks.get({ track_isrc: id.toUpperCase() }))[key];
+  }
+  throw new UsageError(`${id} is neither a Musixmatch id nor an ISRC`);
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Runs a command and returns its output.
+ */
+async function execute(mxm: Musixmatch, args: ParsedArgs): Promise<string> {
+  const json = args.flags.json === true;
+  const page = numberFlag(args, 'page');
+  const page_size = numberFlag(args, 'page-size');
+  const [command, ...rest] = args.positionals;
+
+  switch (command) {
+    case 'search': {
+      const params = {
+        q_track: stringFlag(args, 'track'),
+        q_artist: stringFlag(args, 'artist'),
+        q_lyrics: stringFlag(args, 'lyrics'),
+        q: stringFlag(args, 'query')
+      };
+      if (
+        !params.q_track &&
+        !params.q_artist &&
+        !params.q_lyrics &&
+        !params.q
+      ) {
+        throw new UsageError(
+          'search needs --artist, --track, --lyrics or --query'
+        );
+      }
+      const tracks = await mxm.tracks.search({
+        ...params,
+        f_has_lyrics: args.flags['has-lyrics'] === true ? 1 : undefined,
+        s_track_rating: 'desc',
+        page,
+        page_size
+      });
+      return json ? renderJson(tracks) : renderTable(tracks, TRACK_COLUMNS);
+    }
+
+    case 'lyrics': {
+      const id = requireArg(rest[0], '<track_id|isrc>');
+      const lyrics = await mxm.tracks.lyrics({
+        track_id: await trackId(mxm, id, 'id')
+      });
+      if (json) {
+        return renderJson(lyrics);
+      }
+      return lyrics.copyright
+        ? `${lyrics.body.replace(/\s+$/, '')}\n\n${lyrics.copyright}`
+        : lyrics.body;
+    }
+
+    case 'subtitle': {
+      const id = requireArg(rest[0], '<commontrack_id|isrc>');
+      const format = stringFlag(args, 'format') ?? 'lrc';
+      if (format !== 'lrc' && format !== 'vtt') {
+        throw new UsageError('--format must be lrc or vtt');
+      }
+      const subtitle = await mxm.tracks.subtitle({
+        commontrack_id: await trackId(mxm, id, 'commontrackId'),
+        subtitle_format: 'lrc'
+      });
+      const body =
+        format === 'lrc'
+          ? subtitle.body
+          : convertSubtitle(subtitle.body, 'vtt', { from: 'lrc' });
+      const file = stringFlag(args, 'output');
+      if (file) {
+        fs.writeFileSync(file, body);
+        return json ? renderJson({ ...subtitle, body, file }) : `Wrote ${file}`;
+      }
+      return json ? renderJson({ ...subtitle, body }) : body;
+    }
+
+    case 'chart': {
+      const name = stringFlag(args, 'name');
+      if (
+        name !== undefined &&
+        ['top', 'hot', 'mxmweekly', 'mxmweekly_new'].indexOf(name) === -1
+      ) {
+        throw new UsageError(
+          '--name must be top, hot, mxmweekly or mxmweekly_new'
+        );
+      }
+      const tracks = await mxm.charts.tracks({
+        country: stringFlag(args, 'country'),
+        chart_name: name as 'top' | 'hot' | 'mxmweekly' | 'mxmweekly_new',
+        page,
+        page_size
+      });
+      return json ? renderJson(tracks) : renderTable(tracks, TRACK_COLUMNS);
+    }
+
+    case 'artist': {
+      if (rest[0] !== 'albums') {
+        throw new UsageError('Usage: mxm artist albums <artist_id>');
+      }
+      const id = requireArg(rest[1], '<artist_id>');
+      if (!/^\d+$/.test(id)) {
+        throw new UsageError(`${id} is not a Musixmatch artist id`);
+      }
+      const albums = await mxm.artists.albums({
+        artist_id: parseInt(id, 10),
+        s_release_date: 'desc',
+        page,
+        page_size
+      });
+      return json ? renderJson(albums) : renderTable(albums, ALBUM_COLUMNS);
+    }
+
+    default:
+      throw new UsageError(
+        command ? `Unknown command ${command}` : 'Missing command'
+      );
+  }
+}
+
+/**
+ * Maps an error to the exit code of the process.
+ */
+function exitCode(error: unknown): number {
+  if (error instanceof UsageError || error instanceof InvalidParamsError) {
+    return EXIT_CODES.usage;
+  }
+  if (error instanceof MXMException) {
+    return (
+      EXIT_CODES.status[error.status_code] ??
+      (error.status_code >= 500 ? EXIT_CODES.status[500] : EXIT_CODES.error)
+    );
+  }
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return EXIT_CODES.network;
+  }
+  return EXIT_CODES.error;
+}
+
+/**
+ * Runs the command line and resolves to the exit code.
+ * @param argv - The arguments, without the node binary and the script.
+ */
+async function run(argv: string[]): Promise<number> {
+  try {
+    const args = parseArgs(argv, ['json', 'help', 'has-lyrics'], {
+      h: 'help',
+      o: 'output'
+    });
+    if (args.flags.help === true || !args.positionals.length) {
+      process.stdout.write(`${USAGE}\n`);
+      return args.flags.help === true ? 0 : EXIT_CODES.usage;
+    }
+    const mxm = new Musixmatch(readApiKey(args), {
+      baseUrl:
+        stringFlag(args, 'base-url') ?? (process.env.MXM_BASE_URL || undefined)
+    });
+    process.stdout.write(`${await execute(mxm, args)}\n`);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(
+      error instanceof MXMException
+        ? `mxm: ${error.status_code} ${message}\n`
+        : `mxm: ${message}\n`
+    );
+    return exitCode(error);
+  }
+}
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
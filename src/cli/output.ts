@@ -0,0 +1,65 @@
+/**
+ * A column of a table: its header and how to read the cell from a row.
+ */
+interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | undefined;
+}
+
+/** Cells longer than this are cut with an ellipsis. */
+const MAX_CELL_WIDTH = 40;
+
+function cell(value: string | number | boolean | undefined): string {
+  const text =
+    value === undefined
+      ? ''
+      : typeof value === 'boolean'
+        ? value
+          ? 'yes'
+          : 'no'
+        : String(value);
+  return text.length > MAX_CELL_WIDTH
+    ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…`
+    : text;
+}
+
+function pad(text: string, width: number): string {
+  return text + new Array(Math.max(0, width - text.length) + 1).join(' ');
+}
+
+/**
+ * Renders rows as a plain-text table with aligned columns.
+ * @param rows - The rows.
+ * @param columns - The columns.
+ * @returns The table, or a note when there is no row.
+ */
+function renderTable<T>(rows: T[], columns: Array<Column<T>>): string {
+  if (!rows.length) {
+    return 'No results.';
+  }
+  const cells = rows.map((row) =>
+    columns.map((column) => cell(column.value(row)))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index].length))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => pad(value, widths[index]))
+      .join('  ')
+      .replace(/\s+$/, '');
+  return [
+    line(columns.map((column) => column.header)),
+    line(widths.map((width) => new Array(width + 1).join('-'))),
+    ...cells.map(line)
+  ].join('\n');
+}
+
+/**
+ * Renders a value as indented JSON.
+ */
+function renderJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+export { Column, renderTable, renderJson };
@@ -0,0 +1,6 @@
+import { Envelope } from './base';
+import { Album } from './entities';
+
+interface AlbumGet extends Envelope<{ album: Album }> {}
+
+export { AlbumGet };
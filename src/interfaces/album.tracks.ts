@@ -0,0 +1,9 @@
+import { Envelope, PaginatedHeader } from './base';
+import { Track } from './entities';
+
+interface AlbumTracks extends Envelope<
+  { track_list: Array<{ track: Track }> },
+  PaginatedHeader
+> {}
+
+export { AlbumTracks };
@@ -0,0 +1,9 @@
+import { Envelope, PaginatedHeader } from './base';
+import { Album } from './entities';
+
+interface ArtistAlbums extends Envelope<
+  { album_list: Array<{ album: Album }> },
+  PaginatedHeader
+> {}
+
+export { ArtistAlbums };
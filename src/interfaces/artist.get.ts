@@ -0,0 +1,6 @@
+import { Envelope } from './base';
+import { Artist } from './entities';
+
+interface ArtistGet extends Envelope<{ artist: Artist }> {}
+
+export { ArtistGet };
@@ -0,0 +1,9 @@
+import { Envelope, PaginatedHeader } from './base';
+import { Artist } from './entities';
+
+interface ArtistRelated extends Envelope<
+  { artist_list: Array<{ artist: Artist }> },
+  PaginatedHeader
+> {}
+
+export { ArtistRelated };
@@ -5,6 +5,28 @@ interface BaseInterface {
       execute_time: number;
     };
   };
+  /** The response body as sent by the API, for `format=xml` requests. */
+  raw?: string;
 }
 
-export { BaseInterface };
+/**
+ * The response envelope shared by every endpoint.
+ * @typeParam B - The type of `message.body`.
+ * @typeParam H - Extra fields of `message.header`, e.g. `available`.
+ */
+interface Envelope<B, H extends object = {}> extends BaseInterface {
+  message: {
+    header: BaseInterface['message']['header'] & H;
+    body: B;
+  };
+}
+
+/**
+ * Header of the paginated endpoints.
+ */
+interface PaginatedHeader {
+  /** The total number of results. */
+  available: number;
+}
+
+export { BaseInterface, Envelope, PaginatedHeader };
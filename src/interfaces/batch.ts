@@ -0,0 +1,34 @@
+import { RequestOptions } from './options';
+
+/**
+ * How far a batch has got.
+ */
+interface BatchProgress {
+  /** The number of items settled so far, duplicates included. */
+  completed: number;
+  /** How many of them failed. */
+  failed: number;
+  /** The number of items in the batch. */
+  total: number;
+}
+
+/**
+ * Options accepted by the `batch` helpers.
+ */
+interface BatchOptions extends RequestOptions {
+  /** The maximum number of requests in flight, a positive integer. Defaults to 5. */
+  concurrency?: number;
+  /** Called every time an item settles. An error it throws rejects the batch. */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Cancels the batch: requests in flight and items not started yet fail with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * The outcome of one item of a batch, shaped like the results of `Promise.allSettled`.
+ */
+type BatchResult<P, T> =
+  | { status: 'fulfilled'; params: P; value: T }
+  | { status: 'rejected'; params: P; reason: unknown };
+
+export { BatchProgress, BatchOptions, BatchResult };
@@ -0,0 +1,16 @@
+/**
+ * Stores cached API responses. Methods may return promises, so remote stores
+ * (Redis, files) can be plugged in.
+ */
+interface CacheStore {
+  /** Gets a cached value, or `undefined` when missing or expired. */
+  get(key: string): Promise<any> | any;
+  /** Stores a value for `ttlMs` milliseconds. */
+  set(key: string, value: any, ttlMs: number): Promise<void> | void;
+  /** Removes a value. */
+  delete(key: string): Promise<void> | void;
+  /** Removes every value. */
+  clear(): Promise<void> | void;
+}
+
+export { CacheStore };
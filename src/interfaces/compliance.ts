@@ -0,0 +1,63 @@
+import { ContentNotice } from './models';
+
+/**
+ * Lyrics, subtitles, richsync, snippets and translations: content that comes
+ * with a `restricted` flag, a copyright notice and tracking URLs.
+ */
+interface LicensedContent extends ContentNotice {
+  restricted: boolean;
+}
+
+/**
+ * The same content as returned by the endpoint methods, e.g.
+ * `message.body.lyrics` of `trackLyricsGet`.
+ */
+interface RawLicensedContent {
+  restricted: number;
+  lyrics_copyright?: string;
+  script_tracking_url?: string;
+  pixel_tracking_url?: string;
+  html_tracking_url?: string;
+}
+
+/**
+ * Compliance settings for the licence terms of the API key.
+ */
+interface ComplianceOptions {
+  /** The end user's country (ISO 3166-1 alpha-2). */
+  country?: string;
+  /** The countries the API key is licensed for. When set, content is treated as restricted in any other country. */
+  allowedCountries?: string[];
+  /** `throw` raises a `RestrictedContentError` for restricted content, `filter` drops it. Defaults to `throw`. */
+  onRestricted?: 'throw' | 'filter';
+  /** `fire` loads the tracking pixel on every display, `return` leaves it to the caller. Defaults to `return`. */
+  pixels?: 'fire' | 'return';
+  /** Loads a tracking pixel. Defaults to a GET with the global `fetch`. */
+  sendPixel?: (url: string) => Promise<unknown>;
+  /** Shown when the content has no copyright notice. Defaults to `Lyrics powered by www.musixmatch.com`. */
+  defaultNotice?: string;
+}
+
+/**
+ * What to show and load when displaying licensed content.
+ */
+interface ComplianceDisplay<T extends LicensedContent | RawLicensedContent> {
+  content: T;
+  /** The copyright notice to show next to the content. */
+  notice: string;
+  /** The tracking pixel to load once per display. */
+  pixelUrl?: string;
+  /** Whether the pixel was loaded by the compliance helper. */
+  pixelFired: boolean;
+  /** The tracking script to include on web pages. */
+  scriptUrl?: string;
+  /** The tracking HTML to include on web pages. */
+  htmlUrl?: string;
+}
+
+export {
+  LicensedContent,
+  RawLicensedContent,
+  ComplianceOptions,
+  ComplianceDisplay
+};
@@ -0,0 +1,189 @@
+interface MusicGenre {
+  music_genre_id: number;
+  music_genre_parent_id: number;
+  music_genre_name: string;
+  music_genre_name_extended: string;
+  music_genre_vanity: string;
+}
+
+interface MusicGenreList {
+  music_genre_list: Array<{ music_genre: MusicGenre }>;
+}
+
+interface Track {
+  track_id: number;
+  track_mbid?: string;
+  track_isrc?: string;
+  commontrack_isrcs?: string[][];
+  track_spotify_id?: string;
+  track_name: string;
+  track_name_translation_list: Array<{
+    track_name_translation: { language: string; translation: string };
+  }>;
+  track_rating: number;
+  track_length?: number;
+  commontrack_id: number;
+  instrumental: number;
+  explicit: number;
+  has_lyrics: number;
+  has_subtitles: number;
+  has_richsync: number;
+  num_favourite: number;
+  lyrics_id?: number;
+  subtitle_id?: number;
+  album_id: number;
+  album_name: string;
+  artist_id: number;
+  artist_name: string;
+  album_coverart_100x100?: string;
+  album_coverart_350x350?: string;
+  album_coverart_500x500?: string;
+  album_coverart_800x800?: string;
+  track_share_url: string;
+  track_edit_url: string;
+  restricted: number;
+  updated_time: string;
+  primary_genres: MusicGenreList;
+  secondary_genres?: MusicGenreList;
+}
+
+interface Artist {
+  artist_id: number;
+  artist_mbid: string;
+  artist_name: string;
+  artist_name_translation_list?: Array<{
+    artist_name_translation: { language: string; translation: string };
+  }>;
+  artist_comment?: string;
+  artist_country?: string;
+  artist_alias_list: Array<{ artist_alias: string }>;
+  artist_rating: number;
+  artist_twitter_url?: string;
+  artist_credits?: { artist_list: Array<{ artist: Artist }> };
+  primary_genres?: MusicGenreList;
+  secondary_genres?: MusicGenreList;
+  restricted?: number;
+  begin_date?: string;
+  end_date?: string;
+  updated_time: string;
+}
+
+interface Album {
+  album_id: number;
+  album_mbid: string;
+  album_name: string;
+  album_rating: number;
+  album_track_count?: number;
+  album_release_date: string;
+  album_release_type?: string;
+  artist_id: number;
+  artist_name: string;
+  primary_genres: MusicGenreList;
+  secondary_genres?: MusicGenreList;
+  album_pline: string;
+  album_copyright: string;
+  album_label: string;
+  album_coverart_100x100?: string;
+  album_coverart_350x350?: string;
+  album_coverart_500x500?: string;
+  album_coverart_800x800?: string;
+  restricted: number;
+  updated_time: string;
+}
+
+interface Lyrics {
+  lyrics_id: number;
+  restricted: number;
+  instrumental: number;
+  explicit?: number;
+  lyrics_body: string;
+  lyrics_language: string;
+  lyrics_language_description?: string;
+  script_tracking_url: string;
+  pixel_tracking_url: string;
+  html_tracking_url?: string;
+  lyrics_copyright: string;
+  backlink_url?: string;
+  updated_time: string;
+}
+
+interface LyricsTranslation {
+  selected_language: string;
+  restricted: number;
+  lyrics_body: string;
+  lyrics_copyright?: string;
+  script_tracking_url?: string;
+  pixel_tracking_url?: string;
+  html_tracking_url?: string;
+  translation_ratio?: number;
+}
+
+interface Subtitle {
+  subtitle_id: number;
+  restricted: number;
+  subtitle_body: string;
+  subtitle_length?: number;
+  subtitle_language: string;
+  subtitle_language_description?: string;
+  script_tracking_url: string;
+  pixel_tracking_url: string;
+  html_tracking_url: string;
+  lyrics_copyright: string;
+  updated_time?: string;
+}
+
+interface SubtitleTranslation {
+  selected_language: string;
+  restricted: number;
+  subtitle_body: string;
+  lyrics_copyright?: string;
+  script_tracking_url?: string;
+  pixel_tracking_url?: string;
+  html_tracking_url?: string;
+  translation_ratio?: number;
+}
+
+interface RichSync {
+  richsync_id: number;
+  restricted: number;
+  richsync_body: string;
+  lyrics_copyright: string;
+  richsync_length: number;
+  richsync_language: string;
+  richsync_language_description: string;
+  script_tracking_url: string;
+  pixel_tracking_url?: string;
+  html_tracking_url?: string;
+  updated_time: string;
+}
+
+interface Snippet {
+  snippet_language: string;
+  restricted: number;
+  instrumental: number;
+  snippet_body: string;
+  script_tracking_url: string;
+  pixel_tracking_url: string;
+  html_tracking_url: string;
+  updated_time: string;
+}
+
+interface Mood {
+  mood_list: Array<{ label: string; value: number }>;
+  raw_data: { valence: number; arousal: number };
+}
+
+export {
+  MusicGenre,
+  MusicGenreList,
+  Track,
+  Artist,
+  Album,
+  Lyrics,
+  LyricsTranslation,
+  Subtitle,
+  SubtitleTranslation,
+  RichSync,
+  Snippet,
+  Mood
+};
@@ -0,0 +1,31 @@
+/**
+ * Discriminates the errors thrown for a request.
+ */
+type MusixmatchErrorKind =
+  | 'api'
+  | 'auth'
+  | 'quota'
+  | 'not_found'
+  | 'rate_limited'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'invalid_response';
+
+/**
+ * What is known about the request that failed.
+ */
+interface RequestErrorContext {
+  /** The API method, e.g. `track.get`. */
+  apiMethod: string;
+  /** The query parameters, with the apikey redacted. */
+  params: { [key: string]: string | number | undefined };
+  /** The `hint` of the response header, when there is one. */
+  hint?: string;
+  /** The `execute_time` of the response header, when there is one. */
+  execute_time?: number;
+  /** The underlying error, e.g. the transport error. */
+  cause?: unknown;
+}
+
+export { MusixmatchErrorKind, RequestErrorContext };
@@ -0,0 +1,38 @@
+import { TransportResponse } from './transport';
+
+/**
+ * A recorded request/response pair. The apikey is scrubbed from both.
+ */
+interface Fixture {
+  request: {
+    method: string;
+    url: string;
+    /** The query parameters, without the apikey. */
+    params: { [key: string]: string | number | undefined };
+  };
+  response: TransportResponse;
+}
+
+/**
+ * Stores fixtures by request key. Methods may return promises.
+ */
+interface FixtureStore {
+  /** Gets a fixture, or `undefined` when none was recorded for the key. */
+  get(key: string): Promise<Fixture | undefined> | Fixture | undefined;
+  /** Stores a fixture, replacing any previous one with the same key. */
+  set(key: string, fixture: Fixture): Promise<void> | void;
+}
+
+/**
+ * Record/replay settings.
+ */
+interface FixtureOptions {
+  /** `record` sends the requests and saves them, `replay` serves saved ones without any network access. */
+  mode: 'record' | 'replay';
+  /** The directory of the fixture files. Ignored when `store` is set. */
+  dir?: string;
+  /** Where fixtures are kept. Defaults to one JSON file per request in `dir`. */
+  store?: FixtureStore;
+}
+
+export { Fixture, FixtureStore, FixtureOptions };
@@ -10,4 +10,145 @@ export { TrackSnippet } from './track.snippet';
 export { MatcherLyrics } from './matcher.lyrics';
 export { MatcherSubtitle } from './matcher.subtitle';
 export { MatcherTrack } from './matcher.track';
-export { BaseInterface } from './base';
+export { TrackLyricsPost } from './track.lyrics.post';
+export { TrackLyricsTranslation } from './track.lyrics.translation';
+export { TrackSubtitleTranslation } from './track.subtitle.translation';
+export { MusicGenres } from './music.genres';
+export { ArtistGet } from './artist.get';
+export { ArtistSearch } from './artist.search';
+export { ArtistAlbums } from './artist.albums';
+export { ArtistRelated } from './artist.related';
+export { AlbumGet } from './album.get';
+export { AlbumTracks } from './album.tracks';
+export { BaseInterface, Envelope, PaginatedHeader } from './base';
+export { ResponseMap } from './responses';
+export {
+  MusicGenre,
+  MusicGenreList,
+  Track,
+  Artist,
+  Album,
+  Lyrics,
+  LyricsTranslation,
+  Subtitle,
+  SubtitleTranslation,
+  RichSync,
+  Snippet,
+  Mood
+} from './entities';
+export {
+  Flag,
+  SortOrder,
+  ResponseFormat,
+  DateString,
+  PaginationParams,
+  TrackGetParams,
+  TrackSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  TrackLyricsGetParams,
+  TrackLyricsPostParams,
+  TrackLyricsMoodGetParams,
+  TrackSnippetGetParams,
+  TrackSubtitleGetParams,
+  TrackRichSyncGetParams,
+  TrackLyricsTranslationGetParams,
+  TrackSubtitleTranslationGetParams,
+  MatcherLyricsGetParams,
+  MatcherTrackGetParams,
+  MatcherSubtitleGetParams,
+  ArtistGetParams,
+  ArtistSearchParams,
+  ArtistAlbumsGetParams,
+  ArtistRelatedGetParams,
+  AlbumGetParams,
+  AlbumTracksGetParams
+} from './params';
+export { TransportRequest, TransportResponse, Transport } from './transport';
+export {
+  RetryAttempt,
+  RetryOptions,
+  RateLimitOptions,
+  QuotaOptions,
+  QuotaUsage,
+  CacheOptions,
+  RequestOptions,
+  PaginateOptions,
+  MusixmatchOptions
+} from './options';
+export { CacheStore } from './cache';
+export {
+  TimedLine,
+  Lrc,
+  MxmSubtitleLine,
+  SubtitleParseOptions,
+  Cue,
+  SubtitleFormat,
+  SubtitleConvertOptions
+} from './subtitle';
+export {
+  RawRichSyncLine,
+  RichSyncChar,
+  RichSyncWord,
+  RichSyncLine
+} from './richsync';
+export { MusixmatchErrorKind, RequestErrorContext } from './errors';
+export { ValidationIssue, ValidationOptions } from './validation';
+export {
+  GenreModel,
+  NameTranslation,
+  TrackModel,
+  ArtistModel,
+  AlbumModel,
+  ContentNotice,
+  LyricsModel,
+  SubtitleModel,
+  RichSyncModel,
+  SnippetModel,
+  TranslationModel,
+  MoodModel,
+  MatchedTrackModel
+} from './models';
+export {
+  LyricsQuery,
+  ResolveLyricsOptions,
+  ResolveSource,
+  ResolvedLyrics
+} from './resolver';
+export { BatchProgress, BatchOptions, BatchResult } from './batch';
+export {
+  MiddlewareContext,
+  Middleware,
+  RequestEvent,
+  ResponseEvent,
+  ErrorEvent,
+  MusixmatchEvents,
+  Timing
+} from './middleware';
+export { Fixture, FixtureStore, FixtureOptions } from './fixtures';
+export { MockCatalog, MockServerOptions, MockRequest } from './mock';
+export {
+  TranslationQuery,
+  AlignTranslationOptions,
+  BilingualLine,
+  TimedBilingualLine,
+  AlignedTranslation,
+  BilingualVttOptions
+} from './translation';
+export {
+  LicensedContent,
+  RawLicensedContent,
+  ComplianceOptions,
+  ComplianceDisplay
+} from './compliance';
+export { PooledApiKey, KeyPoolOptions, ApiKeyStats } from './keys';
+export {
+  MoodTrackRef,
+  MoodQuadrant,
+  MoodPoint,
+  TrackMoodPosition,
+  MoodStats,
+  MoodProfile,
+  MoodProfileOptions,
+  MoodTrajectory
+} from './mood';
@@ -0,0 +1,47 @@
+/**
+ * An API key of a pool, with its selection weight.
+ */
+interface PooledApiKey {
+  key: string;
+  /** The share of calls sent with this key in `weighted` mode. Defaults to 1. */
+  weight?: number;
+  /** The name of the key in the stats, e.g. the product using it. Defaults to the masked key. */
+  label?: string;
+}
+
+/**
+ * Settings of a pool of API keys.
+ */
+interface KeyPoolOptions {
+  keys: Array<string | PooledApiKey>;
+  /** `round-robin` cycles through the keys, `weighted` spreads calls by weight. Defaults to `round-robin`. */
+  strategy?: 'round-robin' | 'weighted';
+  /** How long a key that got a 402 is left aside, in milliseconds (positive). Defaults to the next UTC midnight, when the daily limit resets. */
+  cooldownMs?: number;
+}
+
+/**
+ * Usage of a pooled API key.
+ */
+interface ApiKeyStats {
+  label: string;
+  /** `cooling` after a 402, `retired` after a 401. */
+  status: 'active' | 'cooling' | 'retired';
+  /** Requests sent with the key, retries included. */
+  requests: number;
+  /** Calls the API answered with the key accepted, 404s and other API errors included. */
+  successes: number;
+  /** Answers that refused the key: `authErrors` plus `quotaErrors`. */
+  failures: number;
+  /** The 401 answers received. */
+  authErrors: number;
+  /** The 402 answers received. */
+  quotaErrors: number;
+  /** Requests that got no answer, e.g. a connection reset. */
+  networkErrors: number;
+  lastUsedAt?: Date;
+  /** When a cooling key is used again. */
+  coolingUntil?: Date;
+}
+
+export { PooledApiKey, KeyPoolOptions, ApiKeyStats };
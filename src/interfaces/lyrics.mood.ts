@@ -1,20 +1,6 @@
-interface TrackMood {
-  message: {
-    header: {
-      status_code: number;
-      execute_time: number;
-    };
-    body: {
-      mood_list: Array<{
-        label: string;
-        value: number;
-      }>;
-      raw_data: {
-        valence: number;
-        arousal: number;
-      };
-    };
-  };
-}
+import { Envelope } from './base';
+import { Mood } from './entities';
+
+interface TrackMood extends Envelope<Mood> {}
 
 export { TrackMood };
@@ -1,22 +1,6 @@
-interface MatcherSubtitle {
-  message: {
-    header: {
-      status_code: number;
-      execute_time: number;
-    };
-    body: {
-      subtitle: {
-        subtitle_id: number;
-        restricted: number;
-        subtitle_body: string;
-        subtitle_language: string;
-        script_tracking_url: string;
-        pixel_tracking_url: string;
-        html_tracking_url: string;
-        lyrics_copyright: string;
-      };
-    };
-  };
-}
+import { Envelope } from './base';
+import { Subtitle } from './entities';
+
+interface MatcherSubtitle extends Envelope<{ subtitle: Subtitle }> {}
 
 export { MatcherSubtitle };
@@ -0,0 +1,106 @@
+import { RequestOptions, RetryAttempt } from './options';
+
+/**
+ * The call a middleware sees. `params` and `headers` can be changed before
+ * calling `next`.
+ */
+interface MiddlewareContext {
+  /** The HTTP method (get, post, or others). */
+  method: string;
+  /** The API method, e.g. `track.get`. */
+  apiMethod: string;
+  /** The absolute URL, without the query string. */
+  url: string;
+  /** The query parameters, apikey included. Use `redactParams` before logging them. */
+  params: { [key: string]: string | number | undefined };
+  /** Extra HTTP headers, e.g. tracing headers. */
+  headers: { [key: string]: string };
+  /** The options of the call. */
+  options: RequestOptions;
+}
+
+/**
+ * Wraps every call. Call `next` to go on with the chain, and return its
+ * result (or a replacement). Errors of the call reject `next`.
+ */
+type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<any>
+) => Promise<any>;
+
+/**
+ * The payload of the `request` event, emitted before each attempt.
+ */
+interface RequestEvent {
+  apiMethod: string;
+  method: string;
+  url: string;
+  /** The query parameters, with the apikey redacted. */
+  params: { [key: string]: string | number | undefined };
+  /** The number of the attempt, starting at 1. */
+  attempt: number;
+}
+
+/**
+ * The payload of the `response` event, emitted once per successful call.
+ */
+interface ResponseEvent {
+  apiMethod: string;
+  /** The query parameters, with the apikey redacted. */
+  params: { [key: string]: string | number | undefined };
+  /** The HTTP status, undefined for cache hits. */
+  status?: number;
+  /** Time spent in the call, retries included. */
+  durationMs: number;
+  /** The `execute_time` of the response header, in seconds. */
+  execute_time?: number;
+  /** Whether the response came from the cache. */
+  cached: boolean;
+  /** The number of attempts made. */
+  attempts: number;
+}
+
+/**
+ * The payload of the `error` event, emitted once per failed call.
+ */
+interface ErrorEvent {
+  apiMethod: string;
+  /** The query parameters, with the apikey redacted. */
+  params: { [key: string]: string | number | undefined };
+  error: unknown;
+  /** Time spent in the call, retries included. */
+  durationMs: number;
+}
+
+/**
+ * The events emitted by `mxm.events`, keyed by name.
+ */
+interface MusixmatchEvents {
+  request: RequestEvent;
+  response: ResponseEvent;
+  retry: RetryAttempt;
+  error: ErrorEvent;
+}
+
+/**
+ * A latency measure reported by the timing middleware.
+ */
+interface Timing {
+  apiMethod: string;
+  /** Time spent in the call as seen by the client, in milliseconds. */
+  durationMs: number;
+  /** Time spent by the API, from `header.execute_time`, in milliseconds. */
+  executeTimeMs?: number;
+  /** Whether the call failed. */
+  failed: boolean;
+}
+
+export {
+  MiddlewareContext,
+  Middleware,
+  RequestEvent,
+  ResponseEvent,
+  ErrorEvent,
+  MusixmatchEvents,
+  Timing
+};
@@ -0,0 +1,69 @@
+import {
+  Album,
+  Artist,
+  Lyrics,
+  Mood,
+  MusicGenre,
+  RichSync,
+  Snippet,
+  Subtitle,
+  Track
+} from './entities';
+
+/**
+ * Fake catalogue data served by the mock server. Missing entity fields get
+ * defaults, so responses keep the shape of the real API.
+ */
+interface MockCatalog {
+  tracks?: Array<Partial<Track> & Pick<Track, 'track_id' | 'track_name'>>;
+  artists?: Array<Partial<Artist> & Pick<Artist, 'artist_id' | 'artist_name'>>;
+  albums?: Array<Partial<Album> & Pick<Album, 'album_id' | 'album_name'>>;
+  genres?: MusicGenre[];
+  /** Lyrics keyed by track_id. */
+  lyrics?: {
+    [track_id: number]: Partial<Lyrics> & Pick<Lyrics, 'lyrics_body'>;
+  };
+  /** Subtitles keyed by track_id. */
+  subtitles?: {
+    [track_id: number]: Partial<Subtitle> & Pick<Subtitle, 'subtitle_body'>;
+  };
+  /** Rich syncs keyed by track_id. */
+  richsyncs?: {
+    [track_id: number]: Partial<RichSync> & Pick<RichSync, 'richsync_body'>;
+  };
+  /** Snippets keyed by track_id. */
+  snippets?: {
+    [track_id: number]: Partial<Snippet> & Pick<Snippet, 'snippet_body'>;
+  };
+  /** Lyrics moods keyed by track_id. */
+  moods?: { [track_id: number]: Mood };
+  /** Translated lyrics bodies keyed by track_id, then by language. */
+  lyricsTranslations?: { [track_id: number]: { [language: string]: string } };
+  /** Translated subtitle bodies keyed by track_id, then by language. */
+  subtitleTranslations?: {
+    [track_id: number]: { [language: string]: string };
+  };
+}
+
+/**
+ * Mock server settings.
+ */
+interface MockServerOptions {
+  catalog?: MockCatalog;
+  /** When set, requests with another apikey get a 401. */
+  apikey?: string;
+  /** Requests answered before every further one gets a 402. */
+  dailyLimit?: number;
+  /** Delay before each response, in milliseconds. */
+  latencyMs?: number;
+}
+
+/**
+ * A request received by the mock server.
+ */
+interface MockRequest {
+  apiMethod: string;
+  params: { [key: string]: string };
+}
+
+export { MockCatalog, MockServerOptions, MockRequest };
@@ -0,0 +1,189 @@
+/**
+ * A music genre, as returned by the facade.
+ */
+interface GenreModel {
+  id: number;
+  parentId: number;
+  name: string;
+  nameExtended: string;
+  vanity: string;
+}
+
+/**
+ * A translated name of a track or an artist.
+ */
+interface NameTranslation {
+  language: string;
+  translation: string;
+}
+
+interface TrackModel {
+  id: number;
+  mbid?: string;
+  isrc?: string;
+  commontrackIsrcs?: string[][];
+  spotifyId?: string;
+  name: string;
+  nameTranslations: NameTranslation[];
+  rating: number;
+  /** The length in seconds. */
+  length?: number;
+  commontrackId: number;
+  instrumental: boolean;
+  explicit: boolean;
+  hasLyrics: boolean;
+  hasSubtitles: boolean;
+  hasRichSync: boolean;
+  numFavourite: number;
+  lyricsId?: number;
+  subtitleId?: number;
+  albumId: number;
+  albumName: string;
+  artistId: number;
+  artistName: string;
+  albumCoverart100x100?: string;
+  albumCoverart350x350?: string;
+  albumCoverart500x500?: string;
+  albumCoverart800x800?: string;
+  shareUrl: string;
+  editUrl: string;
+  restricted: boolean;
+  updatedTime?: Date;
+  primaryGenres: GenreModel[];
+  secondaryGenres: GenreModel[];
+}
+
+interface ArtistModel {
+  id: number;
+  mbid: string;
+  name: string;
+  nameTranslations: NameTranslation[];
+  comment?: string;
+  country?: string;
+  aliases: string[];
+  rating: number;
+  twitterUrl?: string;
+  credits: ArtistModel[];
+  primaryGenres: GenreModel[];
+  secondaryGenres: GenreModel[];
+  restricted: boolean;
+  beginDate?: string;
+  endDate?: string;
+  updatedTime?: Date;
+}
+
+interface AlbumModel {
+  id: number;
+  mbid: string;
+  name: string;
+  rating: number;
+  trackCount?: number;
+  /** The release date as returned by the API, e.g. `2017-08-25` or `2017`. */
+  releaseDate: string;
+  releaseType?: string;
+  artistId: number;
+  artistName: string;
+  primaryGenres: GenreModel[];
+  secondaryGenres: GenreModel[];
+  pline: string;
+  copyright: string;
+  label: string;
+  coverart100x100?: string;
+  coverart350x350?: string;
+  coverart500x500?: string;
+  coverart800x800?: string;
+  restricted: boolean;
+  updatedTime?: Date;
+}
+
+/**
+ * The tracking URLs and copyright notice that come with lyrics content.
+ */
+interface ContentNotice {
+  copyright?: string;
+  scriptTrackingUrl?: string;
+  pixelTrackingUrl?: string;
+  htmlTrackingUrl?: string;
+}
+
+interface LyricsModel extends ContentNotice {
+  id: number;
+  restricted: boolean;
+  instrumental: boolean;
+  explicit?: boolean;
+  body: string;
+  language: string;
+  languageDescription?: string;
+  backlinkUrl?: string;
+  updatedTime?: Date;
+}
+
+interface SubtitleModel extends ContentNotice {
+  id: number;
+  restricted: boolean;
+  body: string;
+  /** The length in seconds. */
+  length?: number;
+  language: string;
+  languageDescription?: string;
+  updatedTime?: Date;
+}
+
+interface RichSyncModel extends ContentNotice {
+  id: number;
+  restricted: boolean;
+  body: string;
+  /** The length in seconds. */
+  length: number;
+  language: string;
+  languageDescription: string;
+  updatedTime?: Date;
+}
+
+interface SnippetModel extends ContentNotice {
+  language: string;
+  restricted: boolean;
+  instrumental: boolean;
+  body: string;
+  updatedTime?: Date;
+}
+
+interface TranslationModel extends ContentNotice {
+  language: string;
+  restricted: boolean;
+  body: string;
+  /** The share of lines translated, from 0 to 1. */
+  ratio?: number;
+}
+
+interface MoodModel {
+  labels: Array<{ label: string; value: number }>;
+  valence: number;
+  arousal: number;
+}
+
+/**
+ * A track returned by `matcher.track.get`, with the match details.
+ */
+interface MatchedTrackModel {
+  track: TrackModel;
+  confidence: number;
+  mode: string;
+  cached: boolean;
+}
+
+export {
+  GenreModel,
+  NameTranslation,
+  TrackModel,
+  ArtistModel,
+  AlbumModel,
+  ContentNotice,
+  LyricsModel,
+  SubtitleModel,
+  RichSyncModel,
+  SnippetModel,
+  TranslationModel,
+  MoodModel,
+  MatchedTrackModel
+};
@@ -0,0 +1,86 @@
+import { BatchOptions } from './batch';
+import { MoodModel } from './models';
+
+/**
+ * A track to profile: a commontrack id, or an ISRC.
+ */
+type MoodTrackRef = number | string;
+
+/**
+ * The quadrants of the valence/arousal plane: `happy` (positive, intense),
+ * `angry` (negative, intense), `sad` (negative, low-key) and `calm`
+ * (positive, low-key).
+ */
+type MoodQuadrant = 'happy' | 'angry' | 'sad' | 'calm';
+
+/**
+ * A position on the valence/arousal plane.
+ */
+interface MoodPoint {
+  valence: number;
+  arousal: number;
+}
+
+/**
+ * The mood of one track of a profile.
+ */
+interface TrackMoodPosition extends MoodPoint {
+  /** The track, as it was passed. */
+  track: MoodTrackRef;
+  quadrant: MoodQuadrant;
+  labels: MoodModel['labels'];
+}
+
+/**
+ * The mean and the (population) variance of a dimension.
+ */
+interface MoodStats {
+  mean: number;
+  variance: number;
+}
+
+/**
+ * The aggregate mood of a list of tracks.
+ */
+interface MoodProfile {
+  /** The tracks whose mood was found, in input order. */
+  tracks: TrackMoodPosition[];
+  /** The tracks whose mood could not be fetched, with the error. */
+  missing: Array<{ track: MoodTrackRef; reason: unknown }>;
+  valence: MoodStats;
+  arousal: MoodStats;
+  /** The number of tracks carrying each mood label. */
+  labels: { [label: string]: number };
+  /** The number of tracks in each quadrant. */
+  quadrants: { [Q in MoodQuadrant]: number };
+}
+
+/**
+ * Options accepted by `profileMoods`.
+ */
+interface MoodProfileOptions extends BatchOptions {
+  /** The valence and arousal value splitting the quadrants. Defaults to 0.5. */
+  center?: number;
+}
+
+/**
+ * A direction to order tracks along: a preset, or any two points of the
+ * valence/arousal plane.
+ */
+type MoodTrajectory =
+  | 'calm-to-energetic'
+  | 'energetic-to-calm'
+  | 'sad-to-happy'
+  | 'happy-to-sad'
+  | { from: MoodPoint; to: MoodPoint };
+
+export {
+  MoodTrackRef,
+  MoodQuadrant,
+  MoodPoint,
+  TrackMoodPosition,
+  MoodStats,
+  MoodProfile,
+  MoodProfileOptions,
+  MoodTrajectory
+};
@@ -0,0 +1,6 @@
+import { Envelope } from './base';
+import { MusicGenreList } from './entities';
+
+interface MusicGenres extends Envelope<MusicGenreList> {}
+
+export { MusicGenres };
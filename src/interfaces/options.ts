@@ -0,0 +1,152 @@
+import { CacheStore } from './cache';
+import { Transport } from './transport';
+import { ValidationOptions } from './validation';
+import { FixtureOptions } from './fixtures';
+import { ComplianceOptions } from './compliance';
+import { KeyPoolOptions } from './keys';
+
+/**
+ * Describes a failed attempt that is about to be retried.
+ */
+interface RetryAttempt {
+  /** The API method being called. */
+  apiMethod: string;
+  /** The number of the attempt that failed, starting at 1. */
+  attempt: number;
+  /** How long the client waits before the next attempt. */
+  delayMs: number;
+  /** The HTTP or header-level status code, when a response was received. */
+  statusCode?: number;
+  /** The network error, when no response was received. */
+  error?: unknown;
+}
+
+/**
+ * Retry policy for idempotent (GET) requests.
+ */
+interface RetryOptions {
+  /** The maximum number of attempts, first one included. Defaults to 3. */
+  maxAttempts?: number;
+  /** The delay before the first retry, doubled on every attempt. Defaults to 500. */
+  baseDelayMs?: number;
+  /** The upper bound of a single delay. Defaults to 8000. */
+  maxDelayMs?: number;
+  /** Randomize each delay between half and all of its value. Defaults to true. */
+  jitter?: boolean;
+  /** HTTP or header-level status codes that are retried. Defaults to 502, 503 and 504. */
+  retryableStatusCodes?: number[];
+  /** Network error codes that are retried. Defaults to ECONNRESET, ETIMEDOUT, ECONNABORTED, EPIPE and EAI_AGAIN. */
+  retryableErrorCodes?: string[];
+  /** Called before every retry. */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Client-side token-bucket limiter settings.
+ */
+interface RateLimitOptions {
+  /** The sustained number of requests per second. */
+  requestsPerSecond: number;
+  /** The number of requests that can be sent at once. Defaults to `requestsPerSecond`, rounded up. */
+  burst?: number;
+}
+
+/**
+ * Daily request quota settings.
+ */
+interface QuotaOptions {
+  /** The number of requests allowed per day (UTC). */
+  dailyLimit: number;
+  /** The number of requests already made today, e.g. restored from storage. Defaults to 0. */
+  used?: number;
+  /** What to do when the quota runs out: wait for the next day, or throw a `QuotaExhaustedError`. Defaults to `'fail'`. */
+  onExhausted?: 'wait' | 'fail';
+}
+
+/**
+ * A snapshot of the daily quota.
+ */
+interface QuotaUsage {
+  /** The number of requests allowed per day. */
+  limit: number;
+  /** The number of requests made today. */
+  used: number;
+  /** The number of requests left today. */
+  remaining: number;
+  /** When the counter goes back to zero (next UTC midnight). */
+  resetsAt: Date;
+}
+
+/**
+ * Response cache settings.
+ */
+interface CacheOptions {
+  /** Where responses are stored. Defaults to an in-memory LRU store of 500 entries. */
+  store?: CacheStore;
+  /** Time to live in milliseconds per API method, merged over the defaults. `0` disables caching for that method. */
+  ttl?: { [apiMethod: string]: number };
+  /** Time to live of the API methods missing from `ttl`. Defaults to 0 (not cached). */
+  defaultTtlMs?: number;
+}
+
+/**
+ * Per-call options accepted by every endpoint method.
+ */
+interface RequestOptions {
+  /** Set to `false` to skip the cache for this call. The fresh response is still stored. */
+  cache?: boolean;
+  /** Cancels the call. It then rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Time allowed for the call in milliseconds, retries included. It then rejects with a TimeoutError. Overrides the client-wide `timeoutMs`. */
+  timeoutMs?: number;
+  /** The API key of this call, e.g. the tenant's own key. Overrides the client key and the key pool, without failover. */
+  apikey?: string;
+}
+
+/**
+ * Options accepted by the `paginate` helpers.
+ */
+interface PaginateOptions extends RequestOptions {
+  /** Stop after this many items. */
+  maxItems?: number;
+}
+
+/**
+ * Options accepted by the Musixmatch constructor.
+ */
+interface MusixmatchOptions {
+  /** The root URL of the API. Defaults to `https://api.musixmatch.com/ws/1.1/`. */
+  baseUrl?: string;
+  /** The transport used to send requests. Defaults to an {@link AxiosTransport}. */
+  transport?: Transport;
+  /** The retry policy for GET requests, or `false` to disable retries. */
+  retry?: RetryOptions | false;
+  /** Limits the number of requests per second sent by this instance. */
+  rateLimit?: RateLimitOptions;
+  /** Tracks the daily request quota of the API key. */
+  quota?: QuotaOptions;
+  /** Caches successful GET responses. Disabled when not set. */
+  cache?: CacheOptions;
+  /** Checks every successful response against the schema of its API method. Disabled when not set. */
+  validation?: ValidationOptions;
+  /** Default time allowed for each call in milliseconds, retries included. No limit when not set. */
+  timeoutMs?: number;
+  /** Records the requests to fixtures, or replays them without network access. Wraps `transport`. */
+  fixtures?: FixtureOptions;
+  /** How restricted content, copyright notices and tracking pixels are handled by `compliance`. */
+  compliance?: ComplianceOptions;
+  /** Several API keys to spread the calls over, with failover on 401 and 402. Replaces the `apiKey` argument. */
+  keyPool?: KeyPoolOptions;
+}
+
+export {
+  RetryAttempt,
+  RetryOptions,
+  RateLimitOptions,
+  QuotaOptions,
+  QuotaUsage,
+  CacheOptions,
+  RequestOptions,
+  PaginateOptions,
+  MusixmatchOptions
+};
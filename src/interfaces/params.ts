@@ -0,0 +1,275 @@
+/**
+ * A boolean filter. `true` (or `1`) sends the filter, `false` (or `0`) leaves it out.
+ */
+type Flag = boolean | 0 | 1;
+
+/**
+ * Sort direction accepted by every `s_*` parameter.
+ */
+type SortOrder = 'asc' | 'desc';
+
+/**
+ * Output type accepted by the endpoints that support XML. XML responses are
+ * decoded into the same envelopes as JSON, with the XML text in `raw`.
+ */
+type ResponseFormat = 'json' | 'xml';
+
+/**
+ * A date in `YYYYMMDD` format.
+ */
+type DateString = string;
+
+interface PaginationParams {
+  /** Define the page number for paginated results. */
+  page?: number;
+  /** Define the page size for paginated results. Range is 1 to 100. */
+  page_size?: number;
+}
+
+interface TrackGetParams {
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+  /** A valid ISRC identifier */
+  track_isrc?: string;
+}
+
+interface TrackSearchParams extends PaginationParams {
+  /** The song title */
+  q_track?: string;
+  /** The song artist */
+  q_artist?: string;
+  /** Any word in the lyrics */
+  q_lyrics?: string;
+  /** Any word in the song title or artist name */
+  q_track_artist?: string;
+  /** Search among writers */
+  q_writer?: string;
+  /** Any word in the song title or artist name or lyrics */
+  q?: string;
+  /** When set, filter by this artist id */
+  f_artist_id?: number;
+  /** When set, filter by this music category id */
+  f_music_genre_id?: number;
+  /** Filter by the lyrics language (en,it,..) */
+  f_lyrics_language?: string;
+  /** When set, filter only contents with lyrics */
+  f_has_lyrics?: Flag;
+  /** Filter the tracks with release date newer than value (YYYYMMDD) */
+  f_track_release_group_first_release_date_min?: DateString;
+  /** Filter the tracks with release date older than value (YYYYMMDD) */
+  f_track_release_group_first_release_date_max?: DateString;
+  /** Sort by our popularity index for artists */
+  s_artist_rating?: SortOrder;
+  /** Sort by our popularity index for tracks */
+  s_track_rating?: SortOrder;
+  /** Search only a part of the given query string. Allowed range is (0.1 – 0.9) */
+  quorum_factor?: number;
+}
+
+interface ChartArtistsGetParams extends PaginationParams {
+  /** A valid country code (default US) */
+  country?: string;
+  /** Decide the output type (json or xml) */
+  format?: ResponseFormat;
+}
+
+interface ChartTracksGetParams extends PaginationParams {
+  /** A valid 2 letters country code (default US). Set XW as worldwide */
+  country?: string;
+  /** Select among available charts */
+  chart_name?: 'top' | 'hot' | 'mxmweekly' | 'mxmweekly_new';
+  /** When set, filter only contents with lyrics */
+  f_has_lyrics?: Flag;
+}
+
+interface TrackLyricsGetParams {
+  /** The Musixmatch track id */
+  track_id?: number;
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+}
+
+interface TrackLyricsPostParams {
+  /** A valid commontrack_id */
+  commontrack_id?: number;
+  /** A valid isrc */
+  track_isrc?: string;
+  /** The lyrics */
+  lyrics_body: string;
+}
+
+interface TrackLyricsMoodGetParams {
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+  /** A valid ISRC identifier */
+  track_isrc?: string;
+}
+
+interface TrackSnippetGetParams {
+  /** The Musixmatch track id */
+  track_id: number;
+}
+
+interface TrackSubtitleGetParams {
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+  /** The format of the subtitle. Default to lrc */
+  subtitle_format?: 'lrc' | 'dfxp' | 'stledu';
+  /** The desired length of the subtitle (seconds) */
+  f_subtitle_length?: number;
+  /** The maximum deviation allowed from the f_subtitle_length (seconds) */
+  f_subtitle_length_max_deviation?: number;
+}
+
+interface TrackRichSyncGetParams {
+  /** The Musixmatch track id */
+  track_id: number;
+  /** The desired length of the sync (seconds) */
+  f_richsync_length?: number;
+  /** The maximum deviation allowed from the f_sync_length (seconds) */
+  f_richsync_length_max_deviation?: number;
+}
+
+interface TrackLyricsTranslationGetParams {
+  /** The language of the translated lyrics (ISO 639-1) */
+  selected_language: string;
+  /** Minimum translation ratio, from 0 to 1 */
+  min_completed?: number;
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+  /** The Musixmatch track id */
+  track_id?: number;
+  /** A valid ISRC identifier */
+  track_isrc?: string;
+  /** The musicbrainz recording id */
+  track_mbid?: string;
+}
+
+interface TrackSubtitleTranslationGetParams {
+  /** The language of the translated lyrics (ISO 639-1) */
+  selected_language: string;
+  /** Minimum translation ratio, from 0 to 1 */
+  min_completed?: number;
+  /** The Musixmatch commontrack id */
+  commontrack_id?: number;
+  /** A valid ISRC identifier */
+  track_isrc?: string;
+  /** The desired length of the subtitle (seconds) */
+  f_subtitle_length?: number;
+  /** The maximum deviation allowed from the f_subtitle_length (seconds) */
+  f_subtitle_length_max_deviation?: number;
+}
+
+interface MatcherLyricsGetParams {
+  /** The song title */
+  q_track?: string;
+  /** The song artist */
+  q_artist?: string;
+  /** If you have an available isrc id in your catalogue you can query using this id only */
+  track_isrc?: string;
+}
+
+interface MatcherTrackGetParams {
+  /** The song title */
+  q_track?: string;
+  /** The song artist */
+  q_artist?: string;
+  /** The song album */
+  q_album?: string;
+}
+
+interface MatcherSubtitleGetParams {
+  /** The song title */
+  q_track?: string;
+  /** The song artist */
+  q_artist?: string;
+  /** Filter by subtitle length in seconds */
+  f_subtitle_length?: number;
+  /** Max deviation for a subtitle length in seconds */
+  f_subtitle_length_max_deviation?: number;
+  /** If you have an available isrc id in your catalogue you can query using this id only */
+  track_isrc?: string;
+}
+
+interface ArtistGetParams {
+  /** Musixmatch artist id */
+  artist_id?: number;
+  /** Musicbrainz artist id */
+  artist_mbid?: string;
+}
+
+interface ArtistSearchParams extends PaginationParams {
+  /** The song artist */
+  q_artist?: string;
+  /** When set, filter by this artist id */
+  f_artist_id?: number;
+  /** When set, filter by this artist musicbrainz id */
+  f_artist_mbid?: string;
+  /** Decide the output type (json or xml) */
+  format?: ResponseFormat;
+}
+
+interface ArtistAlbumsGetParams extends PaginationParams {
+  /** Musixmatch artist id */
+  artist_id?: number;
+  /** Musicbrainz artist id */
+  artist_mbid?: string;
+  /** Group by Album Name */
+  g_album_name?: Flag;
+  /** Sort by release date */
+  s_release_date?: SortOrder;
+}
+
+interface ArtistRelatedGetParams extends PaginationParams {
+  /** The Musixmatch artist id */
+  artist_id?: number;
+  /** The Musicbrainz artist id */
+  artist_mbid?: string;
+  /** Decide the output type (json or xml) */
+  format?: ResponseFormat;
+}
+
+interface AlbumGetParams {
+  /** The Musixmatch album id */
+  album_id?: number;
+  /** The Musicbrainz album id */
+  album_mbid?: string;
+}
+
+interface AlbumTracksGetParams extends PaginationParams {
+  /** The Musixmatch album id */
+  album_id?: number;
+  /** The Musicbrainz album id */
+  album_mbid?: string;
+  /** When set, filter only contents with lyrics */
+  f_has_lyrics?: Flag;
+}
+
+export {
+  Flag,
+  SortOrder,
+  ResponseFormat,
+  DateString,
+  PaginationParams,
+  TrackGetParams,
+  TrackSearchParams,
+  ChartArtistsGetParams,
+  ChartTracksGetParams,
+  TrackLyricsGetParams,
+  TrackLyricsPostParams,
+  TrackLyricsMoodGetParams,
+  TrackSnippetGetParams,
+  TrackSubtitleGetParams,
+  TrackRichSyncGetParams,
+  TrackLyricsTranslationGetParams,
+  TrackSubtitleTranslationGetParams,
+  MatcherLyricsGetParams,
+  MatcherTrackGetParams,
+  MatcherSubtitleGetParams,
+  ArtistGetParams,
+  ArtistSearchParams,
+  ArtistAlbumsGetParams,
+  ArtistRelatedGetParams,
+  AlbumGetParams,
+  AlbumTracksGetParams
+};
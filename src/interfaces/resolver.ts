@@ -0,0 +1,48 @@
+import { LyricsModel, SubtitleModel, TrackModel } from './models';
+import { RequestOptions } from './options';
+import { TimedLine } from './subtitle';
+
+/**
+ * Catalogue metadata of the track to resolve.
+ */
+interface LyricsQuery {
+  title: string;
+  artist: string;
+  album?: string;
+  /** The length of the recording in seconds, used to tell versions apart. */
+  durationSec?: number;
+  isrc?: string;
+}
+
+/**
+ * Options accepted by `resolveLyrics`.
+ */
+interface ResolveLyricsOptions extends RequestOptions {
+  /** Candidates below this confidence are rejected. Defaults to 0.6. */
+  minConfidence?: number;
+  /** Stop looking once a candidate reaches this confidence. Defaults to 0.9. */
+  acceptConfidence?: number;
+  /** Fetch the synced lyrics when the track has some. Defaults to `true`. */
+  synced?: boolean;
+}
+
+/**
+ * Which lookup found a candidate.
+ */
+type ResolveSource = 'matcher' | 'search' | 'isrc';
+
+/**
+ * The best match of a `resolveLyrics` call.
+ */
+interface ResolvedLyrics {
+  track: TrackModel;
+  /** How well the track matches the query, from 0 to 1. */
+  confidence: number;
+  source: ResolveSource;
+  /** The lyrics, when the track has some. */
+  lyrics?: LyricsModel;
+  /** The synced lyrics, when the track has some. */
+  synced?: { subtitle: SubtitleModel; lines: TimedLine[] };
+}
+
+export { LyricsQuery, ResolveLyricsOptions, ResolveSource, ResolvedLyrics };
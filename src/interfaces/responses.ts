@@ -0,0 +1,52 @@
+import { TrackGet } from './track.get';
+import { TrackSearch } from './track.search';
+import { ChartArtists } from './chart.artitsts';
+import { ChartTracks } from './chart.tracks';
+import { TrackLyrics } from './track.lyrics';
+import { TrackLyricsPost } from './track.lyrics.post';
+import { TrackMood } from './lyrics.mood';
+import { TrackSnippet } from './track.snippet';
+import { TrackSubtitle } from './track.subtitle';
+import { TrackRichSync } from './track.richsync';
+import { TrackLyricsTranslation } from './track.lyrics.translation';
+import { TrackSubtitleTranslation } from './track.subtitle.translation';
+import { MusicGenres } from './music.genres';
+import { MatcherLyrics } from './matcher.lyrics';
+import { MatcherTrack } from './matcher.track';
+import { MatcherSubtitle } from './matcher.subtitle';
+import { ArtistGet } from './artist.get';
+import { ArtistSearch } from './artist.search';
+import { ArtistAlbums } from './artist.albums';
+import { ArtistRelated } from './artist.related';
+import { AlbumGet } from './album.get';
+import { AlbumTracks } from './album.tracks';
+
+/**
+ * The response type of every API method.
+ */
+interface ResponseMap {
+  'track.get': TrackGet;
+  'track.search': TrackSearch;
+  'chart.artists.get': ChartArtists;
+  'chart.tracks.get': ChartTracks;
+  'track.lyrics.get': TrackLyrics;
+  'track.lyrics.post': TrackLyricsPost;
+  'track.lyrics.mood.get': TrackMood;
+  'track.snippet.get': TrackSnippet;
+  'track.subtitle.get': TrackSubtitle;
+  'track.richsync.get': TrackRichSync;
+  'track.lyrics.translation.get': TrackLyricsTranslation;
+  'track.subtitle.translation.get': TrackSubtitleTranslation;
+  'music.genres.get': MusicGenres;
+  'matcher.lyrics.get': MatcherLyrics;
+  'matcher.track.get': MatcherTrack;
+  'matcher.subtitle.get': MatcherSubtitle;
+  'artist.get': ArtistGet;
+  'artist.search': ArtistSearch;
+  'artist.albums.get': ArtistAlbums;
+  'artist.related.get': ArtistRelated;
+  'album.get': AlbumGet;
+  'album.tracks.get': AlbumTracks;
+}
+
+export { ResponseMap };
@@ -0,0 +1,44 @@
+/**
+ * A line of the raw `richsync_body` JSON.
+ */
+interface RawRichSyncLine {
+  /** Line start, in seconds. */
+  ts: number;
+  /** Line end, in seconds. When missing, the line ends where the next one starts. */
+  te: number;
+  /** The chunks of the line, with their offset from `ts` in seconds. */
+  l: Array<{ c: string; o: number }>;
+  /** The full line text. */
+  x: string;
+}
+
+/**
+ * A character of a richsync word, with absolute times.
+ */
+interface RichSyncChar {
+  char: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+/**
+ * A word of a richsync line, with absolute times.
+ */
+interface RichSyncWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  chars: RichSyncChar[];
+}
+
+/**
+ * A decoded richsync line, with absolute times.
+ */
+interface RichSyncLine {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  words: RichSyncWord[];
+}
+
+export { RawRichSyncLine, RichSyncChar, RichSyncWord, RichSyncLine };
@@ -0,0 +1,82 @@
+/**
+ * A line of synced lyrics.
+ */
+interface TimedLine {
+  /** When the line starts, in milliseconds. */
+  time_ms: number;
+  /** The line text. Empty for instrumental gaps. */
+  text: string;
+}
+
+/**
+ * A parsed LRC document.
+ */
+interface Lrc {
+  /** The ID tags (`ar`, `ti`, `al`, `by`, `length`, ...), keyed by tag name. A numeric `offset` is applied to the lines instead. */
+  tags: { [tag: string]: string };
+  /** The timed lines, sorted by time. */
+  lines: TimedLine[];
+}
+
+/**
+ * An entry of the JSON subtitle format returned by Musixmatch.
+ */
+interface MxmSubtitleLine {
+  text: string;
+  time: {
+    total: number;
+    minutes: number;
+    seconds: number;
+    hundredths: number;
+  };
+}
+
+/**
+ * Options of the subtitle parsers.
+ */
+interface SubtitleParseOptions {
+  /** Throw a `SubtitleParseError` on malformed input instead of skipping it. Defaults to false. */
+  strict?: boolean;
+}
+
+/**
+ * A subtitle cue with an explicit end time.
+ */
+interface Cue {
+  /** When the cue starts, in milliseconds. */
+  start_ms: number;
+  /** When the cue ends, in milliseconds. */
+  end_ms: number;
+  /** The cue text. Lines are separated by `\n`. */
+  text: string;
+}
+
+/**
+ * The subtitle formats understood by the conversion module. `mxm` is the JSON
+ * format returned by Musixmatch; `dfxp` also covers TTML.
+ */
+type SubtitleFormat = 'lrc' | 'dfxp' | 'vtt' | 'srt' | 'mxm';
+
+/**
+ * Options of the subtitle conversion functions.
+ */
+interface SubtitleConvertOptions extends SubtitleParseOptions {
+  /** The format of the input. Detected from the content when not set. */
+  from?: SubtitleFormat;
+  /** Duration of a cue whose end cannot be inferred from the next one (the last cue of LRC). Defaults to 4000. */
+  lastCueDurationMs?: number;
+  /** Shifts every cue by this many milliseconds, after scaling. */
+  offsetMs?: number;
+  /** Multiplies every time, e.g. `audioDuration / trackDuration` when the matched track length differs from the audio. Defaults to 1. */
+  timeScale?: number;
+}
+
+export {
+  TimedLine,
+  Lrc,
+  MxmSubtitleLine,
+  SubtitleParseOptions,
+  Cue,
+  SubtitleFormat,
+  SubtitleConvertOptions
+};
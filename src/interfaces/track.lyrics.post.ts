@@ -0,0 +1,8 @@
+import { Envelope } from './base';
+
+/**
+ * The API answers a successful submission with an empty body.
+ */
+interface TrackLyricsPost extends Envelope<'' | {}> {}
+
+export { TrackLyricsPost };
@@ -0,0 +1,8 @@
+import { Envelope } from './base';
+import { LyricsTranslation } from './entities';
+
+interface TrackLyricsTranslation extends Envelope<{
+  lyrics: { lyrics_translated: LyricsTranslation };
+}> {}
+
+export { TrackLyricsTranslation };
@@ -0,0 +1,8 @@
+import { Envelope } from './base';
+import { SubtitleTranslation } from './entities';
+
+interface TrackSubtitleTranslation extends Envelope<{
+  subtitle: { subtitle_translated: SubtitleTranslation };
+}> {}
+
+export { TrackSubtitleTranslation };
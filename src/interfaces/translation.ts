@@ -0,0 +1,87 @@
+import { LyricsModel, SubtitleModel, TranslationModel } from './models';
+import { RequestOptions } from './options';
+import { TimedLine } from './subtitle';
+
+/**
+ * The track and language of a translation to align.
+ */
+interface TranslationQuery {
+  /** The language of the translation (ISO 639-1) */
+  selected_language: string;
+  /** Minimum translation ratio, from 0 to 1 */
+  min_completed?: number;
+  /** The Musixmatch commontrack id. Needed for the synced lines. */
+  commontrack_id?: number;
+  /** The Musixmatch track id */
+  track_id?: number;
+  /** A valid ISRC identifier. Resolved to its `commontrack_id` when no id is given. */
+  track_isrc?: string;
+}
+
+/**
+ * Options accepted by `alignTranslation`.
+ */
+interface AlignTranslationOptions extends RequestOptions {
+  /** Align the subtitle and its translation, keeping the timestamps. Falls back to the plain lyrics when either is missing. Defaults to `true`. */
+  synced?: boolean;
+}
+
+/**
+ * An original line next to its translation.
+ */
+interface BilingualLine {
+  text: string;
+  /** The translated line, `undefined` when the line is not translated. */
+  translation?: string;
+}
+
+/**
+ * A synced original line next to its translation.
+ */
+interface TimedBilingualLine extends TimedLine {
+  translation?: string;
+}
+
+interface AlignedTranslationBase {
+  language: string;
+  /** The share of non-empty original lines that have a translation, from 0 to 1. */
+  completion: number;
+  /** The `min_completed` of the query, when set. */
+  minCompleted?: number;
+  /** Whether `completion` reaches `minCompleted`. Always `true` without `minCompleted`. */
+  complete: boolean;
+  translation: TranslationModel;
+}
+
+/**
+ * The result of `alignTranslation`: timed lines when the subtitle and its
+ * translation were found, plain lines otherwise.
+ */
+type AlignedTranslation =
+  | (AlignedTranslationBase & {
+      synced: true;
+      original: SubtitleModel;
+      lines: TimedBilingualLine[];
+    })
+  | (AlignedTranslationBase & {
+      synced: false;
+      original: LyricsModel;
+      lines: BilingualLine[];
+    });
+
+/**
+ * Options of `serializeBilingualVtt`.
+ */
+interface BilingualVttOptions {
+  /** Duration of the last cue, in milliseconds. Defaults to 4000. */
+  lastCueDurationMs?: number;
+}
+
+export {
+  TranslationQuery,
+  AlignTranslationOptions,
+  BilingualLine,
+  TimedBilingualLine,
+  AlignedTranslation,
+  BilingualVttOptions
+};
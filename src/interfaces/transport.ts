@@ -0,0 +1,37 @@
+/**
+ * A request handed to a {@link Transport}.
+ */
+interface TransportRequest {
+  /** The HTTP method (get, post, or others). */
+  method: string;
+  /** The absolute URL, without the query string. */
+  url: string;
+  /** The query parameters, apikey included. */
+  params: { [key: string]: string | number | undefined };
+  /** Extra HTTP headers set by the middlewares. */
+  headers?: { [key: string]: string };
+  /** Aborted when the call is cancelled or times out. Transports should stop the request when it fires. */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a {@link Transport} resolves to. Any HTTP response, whatever its
+ * status, resolves; only network-level failures reject.
+ */
+interface TransportResponse {
+  /** The HTTP status code. */
+  status: number;
+  /** The response body, parsed from JSON when possible. */
+  data: any;
+  /** The response headers, lower-cased. */
+  headers?: { [key: string]: string };
+}
+
+/**
+ * Sends the HTTP requests made by the Musixmatch class.
+ */
+interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export { TransportRequest, TransportResponse, Transport };
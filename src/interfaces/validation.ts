@@ -0,0 +1,23 @@
+/**
+ * A mismatch between a response and the schema of its API method.
+ */
+interface ValidationIssue {
+  /** Where the mismatch is, e.g. `message.body.track.track_id`. */
+  path: string;
+  /** What the schema expects, e.g. `number`. */
+  expected: string;
+  /** What the response contains, e.g. `string`. */
+  received: string;
+}
+
+/**
+ * Response validation settings.
+ */
+interface ValidationOptions {
+  /** `strict` throws a ResponseShapeError, `lenient` only reports the issues. */
+  mode: 'strict' | 'lenient';
+  /** Called in lenient mode with the issues of a response. Without it, lenient mode is silent. */
+  onWarning?: (apiMethod: string, issues: ValidationIssue[]) => void;
+}
+
+export { ValidationIssue, ValidationOptions };
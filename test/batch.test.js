@@ -0,0 +1,166 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AbortError,
+  InvalidParamsError,
+  Musixmatch,
+  MusixmatchError,
+  NotFoundError
+} = require('../dist');
+
+/**
+ * A transport answering `track.get` after `delays[isrc]` ms (0 by default),
+ * with a 404 for ISRCs starting with `MISSING`. Counts the requests in flight.
+ */
+function delayed(delays = {}) {
+  const transport = {
+    calls: [],
+    inFlight: 0,
+    maxInFlight: 0,
+    request: (req) => {
+      const isrc = req.params.track_isrc;
+      transport.calls.push(isrc);
+      transport.inFlight += 1;
+      transport.maxInFlight = Math.max(
+        transport.maxInFlight,
+        transport.inFlight
+      );
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          transport.inFlight -= 1;
+          const found = !isrc.startsWith('MISSING');
+          resolve({
+            status: 200,
+            data: {
+              message: {
+                header: { status_code: found ? 200 : 404, execute_time: 0 },
+                body: found ? { track: { track_isrc: isrc } } : ''
+              }
+            }
+          });
+        }, delays[isrc] ?? 0);
+        req.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          transport.inFlight -= 1;
+          reject(new Error('aborted'));
+        });
+      });
+    }
+  };
+  return transport;
+}
+
+function client(transport) {
+  return new Musixmatch('test-key', { transport, retry: false });
+}
+
+function isrcs(results) {
+  return results.map((result) =>
+    result.status === 'fulfilled'
+      ? result.value.message.body.track.track_isrc
+      : result.reason.name
+  );
+}
+
+describe('batch', () => {
+  it('returns the results in input order', async () => {
+    const transport = delayed({ SLOW: 30, MEDIUM: 10 });
+    const results = await client(transport).batch.trackGet([
+      { track_isrc: 'SLOW' },
+      { track_isrc: 'FAST' },
+      { track_isrc: 'MEDIUM' }
+    ]);
+    assert.deepStrictEqual(isrcs(results), ['SLOW', 'FAST', 'MEDIUM']);
+    assert.deepStrictEqual(results[1].params, { track_isrc: 'FAST' });
+  });
+
+  it('sends identical requests once', async () => {
+    const transport = delayed();
+    const results = await client(transport).batch.trackGet([
+      { track_isrc: 'A' },
+      { track_isrc: 'B' },
+      { track_isrc: 'A' }
+    ]);
+    assert.deepStrictEqual(transport.calls, ['A', 'B']);
+    assert.deepStrictEqual(isrcs(results), ['A', 'B', 'A']);
+    assert.strictEqual(results[2].value, results[0].value);
+  });
+
+  it('reports failures per item', async () => {
+    const transport = delayed();
+    const results = await client(transport).batch.trackGet([
+      { track_isrc: 'A' },
+      { track_isrc: 'MISSING' },
+      { commontrack_id: 'not a number' }
+    ]);
+    assert.deepStrictEqual(transport.calls, ['A', 'MISSING']);
+    assert.strictEqual(results[0].status, 'fulfilled');
+    assert.ok(results[1].reason instanceof NotFoundError);
+    assert.ok(results[2].reason instanceof InvalidParamsError);
+  });
+
+  it('keeps at most concurrency requests in flight', async () => {
+    const transport = delayed({ A: 10, B: 10, C: 10, D: 10, E: 10 });
+    await client(transport).batch.trackGet(
+      ['A', 'B', 'C', 'D', 'E'].map((isrc) => ({ track_isrc: isrc })),
+      { concurrency: 2 }
+    );
+    assert.strictEqual(transport.calls.length, 5);
+    assert.strictEqual(transport.maxInFlight, 2);
+  });
+
+  it('rejects a concurrency that is not a positive integer', async () => {
+    const mxm = client(delayed());
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      await assert.rejects(
+        mxm.batch.trackGet([{ track_isrc: 'A' }], { concurrency }),
+        (error) =>
+          error instanceof MusixmatchError && /concurrency/.test(error.message)
+      );
+    }
+  });
+
+  it('reports the progress of every item', async () => {
+    const progress = [];
+    await client(delayed()).batch.trackGet(
+      [{ track_isrc: 'A' }, { track_isrc: 'MISSING' }, { track_isrc: 'A' }],
+      { concurrency: 1, onProgress: (update) => progress.push(update) }
+    );
+    assert.deepStrictEqual(progress, [
+      { completed: 2, failed: 0, total: 3 },
+      { completed: 3, failed: 1, total: 3 }
+    ]);
+  });
+
+  it('does not blame an item for an error thrown by onProgress', async () => {
+    const transport = delayed();
+    const failure = new Error('progress bar broke');
+    const progress = [];
+    await assert.rejects(
+      client(transport).batch.trackGet([{ track_isrc: 'A' }], {
+        onProgress: (update) => {
+          progress.push(update);
+          throw failure;
+        }
+      }),
+      (error) => error === failure
+    );
+    assert.deepStrictEqual(transport.calls, ['A']);
+    assert.deepStrictEqual(progress, [{ completed: 1, failed: 0, total: 1 }]);
+  });
+
+  it('fails the unfinished items with an AbortError', async () => {
+    const transport = delayed({ A: 0, B: 1000, C: 0 });
+    const controller = new AbortController();
+    const pending = client(transport).batch.trackGet(
+      [{ track_isrc: 'A' }, { track_isrc: 'B' }, { track_isrc: 'C' }],
+      { concurrency: 1, signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 20);
+    const results = await pending;
+    assert.deepStrictEqual(isrcs(results), ['A', 'AbortError', 'AbortError']);
+    assert.ok(results[2].reason instanceof AbortError);
+    assert.deepStrictEqual(transport.calls, ['A', 'B']);
+    assert.strictEqual(transport.inFlight, 0);
+  });
+});
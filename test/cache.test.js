@@ -0,0 +1,167 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const { MemoryCacheStore, Musixmatch, NotFoundError } = require('../dist');
+
+function lyricsEnvelope(body) {
+  return {
+    message: {
+      header: { status_code: 200 },
+      body: { lyrics: { lyrics_id: 1, lyrics_body: body } }
+    }
+  };
+}
+
+/**
+ * A transport answering every request with a new lyrics body, or with the
+ * given header-level status.
+ */
+function counter(statusCode = 200) {
+  const transport = {
+    calls: 0,
+    request: async () => {
+      transport.calls += 1;
+      return {
+        status: 200,
+        data:
+          statusCode === 200
+            ? lyricsEnvelope(`version ${transport.calls}`)
+            : { message: { header: { status_code: statusCode }, body: '' } }
+      };
+    }
+  };
+  return transport;
+}
+
+function client(transport, cache = {}, apikey = 'test-key') {
+  return new Musixmatch(apikey, { transport, cache, retry: false });
+}
+
+function bodyOf(response) {
+  return response.message.body.lyrics.lyrics_body;
+}
+
+describe('response cache', () => {
+  it('caches lyrics by default, whatever the order of the params', async () => {
+    const transport = counter();
+    const mxm = client(transport);
+    await mxm.trackLyricsGet({ commontrack_id: 1, track_id: 2 });
+    const cached = await mxm.trackLyricsGet({ track_id: 2, commontrack_id: 1 });
+    assert.strictEqual(bodyOf(cached), 'version 1');
+    assert.strictEqual(transport.calls, 1);
+
+    await mxm.trackLyricsGet({ commontrack_id: 3 });
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  it('leaves the apikey out of the keys', async () => {
+    const transport = counter();
+    const store = new MemoryCacheStore();
+    await client(transport, { store }, 'key-a').trackLyricsGet({
+      commontrack_id: 1
+    });
+    await client(transport, { store }, 'key-b').trackLyricsGet({
+      commontrack_id: 1
+    });
+    assert.strictEqual(transport.calls, 1);
+  });
+
+  it('caches only the methods with a TTL', async () => {
+    const transport = counter();
+    const mxm = client(transport);
+    await mxm.trackGet({ commontrack_id: 1 });
+    await mxm.trackGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls, 2);
+
+    const cached = counter();
+    const withTtl = client(cached, { ttl: { 'track.get': 1000 } });
+    await withTtl.trackGet({ commontrack_id: 1 });
+    await withTtl.trackGet({ commontrack_id: 1 });
+    assert.strictEqual(cached.calls, 1);
+
+    const byDefault = counter();
+    const withDefault = client(byDefault, { defaultTtlMs: 1000 });
+    await withDefault.albumGet({ album_id: 1 });
+    await withDefault.albumGet({ album_id: 1 });
+    assert.strictEqual(byDefault.calls, 1);
+  });
+
+  it('expires entries after their TTL', async () => {
+    const transport = counter();
+    const mxm = client(transport, { ttl: { 'track.lyrics.get': 20 } });
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const fresh = await mxm.trackLyricsGet({ commontrack_id: 1 });
+    assert.strictEqual(bodyOf(fresh), 'version 2');
+  });
+
+  it('skips the lookup with cache: false but stores the response', async () => {
+    const transport = counter();
+    const mxm = client(transport);
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    const fresh = await mxm.trackLyricsGet(
+      { commontrack_id: 1 },
+      { cache: false }
+    );
+    assert.strictEqual(bodyOf(fresh), 'version 2');
+    const cached = await mxm.trackLyricsGet({ commontrack_id: 1 });
+    assert.strictEqual(bodyOf(cached), 'version 2');
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  it('never caches errors', async () => {
+    const transport = counter(404);
+    const mxm = client(transport);
+    await assert.rejects(
+      mxm.trackLyricsGet({ commontrack_id: 1 }),
+      NotFoundError
+    );
+    await assert.rejects(
+      mxm.trackLyricsGet({ commontrack_id: 1 }),
+      NotFoundError
+    );
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  it('hands out copies, so changing a result leaves the cache alone', async () => {
+    const mxm = client(counter());
+    const first = await mxm.trackLyricsGet({ commontrack_id: 1 });
+    first.message.body.lyrics.lyrics_body = 'changed';
+    const second = await mxm.trackLyricsGet({ commontrack_id: 1 });
+    second.message.body.lyrics.lyrics_body = 'changed again';
+    const third = await mxm.trackLyricsGet({ commontrack_id: 1 });
+    assert.strictEqual(bodyOf(third), 'version 1');
+  });
+
+  it('does not count hits against the quota', async () => {
+    const mxm = new Musixmatch('test-key', {
+      transport: counter(),
+      cache: {},
+      quota: { dailyLimit: 5 }
+    });
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    assert.strictEqual(mxm.getQuotaUsage().used, 1);
+  });
+
+  it('empties on clearCache', async () => {
+    const transport = counter();
+    const mxm = client(transport);
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    await mxm.clearCache();
+    await mxm.trackLyricsGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('evicts the least recently used entry', () => {
+      const store = new MemoryCacheStore(2);
+      store.set('a', 1, 1000);
+      store.set('b', 2, 1000);
+      store.get('a');
+      store.set('c', 3, 1000);
+      assert.strictEqual(store.get('b'), undefined);
+      assert.strictEqual(store.get('a'), 1);
+      assert.strictEqual(store.get('c'), 3);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+const assert = require('assert');
+const { execFile } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { after, before, describe, it } = require('node:test');
+const { MockMusixmatchServer } = require('../dist');
+const { parseArgs, numberFlag, stringFlag } = require('../dist/cli/args');
+const { CATALOG } = require('./endpoints');
+
+const BIN = path.join(__dirname, '..', 'dist', 'cli', 'index.js');
+
+/**
+ * Runs the command with a home directory of its own, so no real ~/.mxmrc
+ * is read.
+ */
+function mxm(args, env = {}) {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'mxm-home-'));
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      [BIN, ...args],
+      {
+        env: { PATH: process.env.PATH, HOME: home, USERPROFILE: home, ...env },
+        timeout: 10000
+      },
+      (error, stdout, stderr) => {
+        fs.rmSync(home, { recursive: true, force: true });
+        resolve({ code: error ? error.code : 0, stdout, stderr });
+      }
+    );
+  });
+}
+
+describe('mxm command line', () => {
+  describe('parseArgs', () => {
+    it('reads positionals, flags and aliases', () => {
+      assert.deepStrictEqual(
+        parseArgs(
+          ['subtitle', '5920049', '--format=vtt', '-o', 'out.vtt', '--json'],
+          ['json'],
+          { o: 'output' }
+        ),
+        {
+          positionals: ['subtitle', '5920049'],
+          flags: { format: 'vtt', output: 'out.vtt', json: true }
+        }
+      );
+    });
+
+    it('keeps everything after -- positional', () => {
+      assert.deepStrictEqual(
+        parseArgs(['search', '--', '--track'], [], {}).positionals,
+        ['search', '--track']
+      );
+    });
+
+    it('rejects unknown aliases and missing values', () => {
+      assert.throws(() => parseArgs(['-x'], [], {}), {
+        name: 'UsageError',
+        message: 'Unknown flag -x'
+      });
+      assert.throws(() => parseArgs(['--artist'], [], {}), {
+        name: 'UsageError',
+        message: 'Missing value for --artist'
+      });
+    });
+
+    it('checks the type of a flag', () => {
+      const args = parseArgs(['--page', 'two', '--json'], ['json'], {});
+      assert.throws(() => numberFlag(args, 'page'), {
+        message: '--page must be a positive integer'
+      });
+      assert.throws(() => stringFlag(args, 'json'), {
+        message: '--json needs a value'
+      });
+      assert.strictEqual(
+        numberFlag(parseArgs(['--page', '2'], [], {}), 'page'),
+        2
+      );
+    });
+  });
+
+  describe('commands', () => {
+    const server = new MockMusixmatchServer({
+      apikey: 'test-key',
+      catalog: CATALOG
+    });
+    let env;
+
+    before(async () => {
+      env = { MXM_API_KEY: 'test-key', MXM_BASE_URL: await server.listen() };
+    });
+
+    after(() => server.close());
+
+    it('lists both ids of the tracks found', async () => {
+      const { code, stdout } = await mxm(
+        ['search', '--artist', 'adele', '--track', 'hello'],
+        env
+      );
+      assert.strictEqual(code, 0);
+      const [header, , row] = stdout.split('\n');
+      assert.match(header, /^ID\s+COMMONTRACK\s+TRACK\s+ARTIST/);
+      assert.match(
+        row,
+        /^84584600\s+5920049\s+Hello\s+Adele\s+25\s+yes\s+yes$/
+      );
+    });
+
+    it('prints the lyrics of a track id or an ISRC', async () => {
+      const byId = await mxm(['lyrics', '84584600'], env);
+      assert.strictEqual(byId.code, 0);
+      assert.match(byId.stdout, /^Hello, it's me/);
+      const byIsrc = await mxm(['lyrics', 'gbbks1500214'], env);
+      assert.strictEqual(byIsrc.stdout, byId.stdout);
+      const lyricsCall = server.requests
+        .filter((request) => request.apiMethod === 'track.lyrics.get')
+        .map((request) => request.params.track_id);
+      assert.deepStrictEqual(lyricsCall, ['84584600', '84584600']);
+    });
+
+    it('prints JSON with --json', async () => {
+      const { code, stdout } = await mxm(['lyrics', '84584600', '--json'], env);
+      assert.strictEqual(code, 0);
+      const lyrics = JSON.parse(stdout);
+      assert.strictEqual(lyrics.language, 'en');
+      assert.match(lyrics.body, /^Hello, it's me/);
+
+      const albums = JSON.parse(
+        (await mxm(['artist', 'albums', '346898', '--json'], env)).stdout
+      );
+      assert.deepStrictEqual(
+        albums.map((album) => [album.id, album.name]),
+        [[20828429, '25']]
+      );
+    });
+
+    it('writes a subtitle as WebVTT', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mxm-'));
+      const file = path.join(dir, 'hello.vtt');
+      try {
+        const { code, stdout } = await mxm(
+          ['subtitle', '5920049', '--format', 'vtt', '-o', file],
+          env
+        );
+        assert.strictEqual(code, 0);
+        assert.strictEqual(stdout, `Wrote ${file}\n`);
+        assert.match(fs.readFileSync(file, 'utf8'), /^WEBVTT\n\n00:00:/);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('exits with 2 on a bad command line', async () => {
+      for (const args of [
+        [],
+        ['dance'],
+        ['search'],
+        ['lyrics', 'not-an-id'],
+        ['chart', '--name', 'cold'],
+        ['search', '--track', 'hello', '--page', 'two']
+      ]) {
+        const { code, stderr } = await mxm(args, env);
+        assert.strictEqual(code, 2, args.join(' '));
+        assert.ok(args.length === 0 || /^mxm: /.test(stderr), stderr);
+      }
+    });
+
+    it('exits with 0 and the usage on --help', async () => {
+      const { code, stdout } = await mxm(['--help']);
+      assert.strictEqual(code, 0);
+      assert.match(stdout, /lyrics <track_id\|isrc>/);
+    });
+
+    it('exits with 2 without an API key', async () => {
+      const { code, stderr } = await mxm(['lyrics', '84584600'], {
+        MXM_BASE_URL: env.MXM_BASE_URL
+      });
+      assert.strictEqual(code, 2);
+      assert.match(stderr, /No API key/);
+    });
+
+    it('reads the API key from the config file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mxm-'));
+      const config = path.join(dir, 'mxmrc.json');
+      fs.writeFileSync(config, JSON.stringify({ apikey: 'test-key' }));
+      try {
+        const { code } = await mxm(['lyrics', '84584600', '--config', config], {
+          MXM_BASE_URL: env.MXM_BASE_URL
+        });
+        assert.strictEqual(code, 0);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('maps API status codes to exit codes', async () => {
+      const cases = [
+        [400, 4],
+        [401, 5],
+        [402, 6],
+        [403, 7],
+        [404, 8],
+        [500, 10]
+      ];
+      try {
+        for (const [statusCode, exitCode] of cases) {
+          server.setStatus('track.lyrics.get', statusCode);
+          const { code, stderr } = await mxm(['lyrics', '84584600'], env);
+          assert.strictEqual(code, exitCode, `status ${statusCode}`);
+          assert.match(stderr, new RegExp(`^mxm: ${statusCode} `));
+        }
+      } finally {
+        server.setStatus('track.lyrics.get');
+      }
+    });
+
+    it('exits with 5 for a rejected API key', async () => {
+      const { code } = await mxm(['lyrics', '84584600'], {
+        ...env,
+        MXM_API_KEY: 'wrong-key'
+      });
+      assert.strictEqual(code, 5);
+    });
+
+    it('exits with 3 when the API cannot be reached', async () => {
+      const closed = new MockMusixmatchServer();
+      const baseUrl = await closed.listen();
+      await closed.close();
+      const { code } = await mxm(['lyrics', '84584600'], {
+        ...env,
+        MXM_BASE_URL: baseUrl
+      });
+      assert.strictEqual(code, 3);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  Compliance,
+  Musixmatch,
+  MusixmatchError,
+  RestrictedContentError
+} = require('../dist');
+
+const PIXEL = 'https://tracking.musixmatch.com/t1.0/m_img/e_1/sn_0/l_1/su_0/';
+const SCRIPT = 'https://tracking.musixmatch.com/t1.0/m_js/e_1/sn_0/l_1/su_0/';
+
+const MODEL = {
+  body: "Hello, it's me",
+  restricted: false,
+  copyright: 'Writer(s): Adele Adkins, Greg Kurstin',
+  pixelTrackingUrl: PIXEL,
+  scriptTrackingUrl: SCRIPT
+};
+
+const RAW = {
+  lyrics_body: "Hello, it's me",
+  restricted: 0,
+  lyrics_copyright: 'Writer(s): Adele Adkins, Greg Kurstin',
+  pixel_tracking_url: PIXEL,
+  script_tracking_url: SCRIPT,
+  html_tracking_url: ''
+};
+
+/**
+ * A compliance helper whose pixels are recorded instead of loaded.
+ */
+function compliance(options = {}) {
+  const pixels = [];
+  const helper = new Compliance({
+    sendPixel: async (url) => {
+      pixels.push(url);
+    },
+    ...options
+  });
+  return { helper, pixels };
+}
+
+describe('Compliance', () => {
+  describe('restrictions', () => {
+    it('follows the restricted flag of models and raw payloads', () => {
+      const { helper } = compliance();
+      assert.strictEqual(helper.isRestricted(MODEL), false);
+      assert.strictEqual(
+        helper.isRestricted({ ...MODEL, restricted: true }),
+        true
+      );
+      assert.strictEqual(helper.isRestricted(RAW), false);
+      assert.strictEqual(helper.isRestricted({ ...RAW, restricted: 1 }), true);
+    });
+
+    it('restricts content outside the allowed countries', () => {
+      const allowed = { allowedCountries: ['IT', 'fr'] };
+      assert.strictEqual(
+        compliance({ ...allowed, country: 'it' }).helper.isRestricted(RAW),
+        false
+      );
+      assert.strictEqual(
+        compliance({ ...allowed, country: 'FR' }).helper.isRestricted(MODEL),
+        false
+      );
+      assert.strictEqual(
+        compliance({ ...allowed, country: 'US' }).helper.isRestricted(RAW),
+        true
+      );
+      assert.strictEqual(compliance(allowed).helper.isRestricted(MODEL), true);
+      assert.strictEqual(
+        compliance({ country: 'US' }).helper.isRestricted(MODEL),
+        false
+      );
+    });
+
+    it('throws a RestrictedContentError by default', () => {
+      const { helper } = compliance({
+        country: 'us',
+        allowedCountries: ['IT']
+      });
+      assert.throws(
+        () => helper.check(RAW),
+        (error) =>
+          error instanceof RestrictedContentError &&
+          error.country === 'US' &&
+          error.message === 'This content is restricted in US.'
+      );
+      assert.throws(
+        () => compliance().helper.check({ ...MODEL, restricted: true }),
+        { message: 'This content is restricted.' }
+      );
+    });
+
+    it('drops restricted content with onRestricted filter', () => {
+      const { helper } = compliance({ onRestricted: 'filter' });
+      const restricted = { ...RAW, restricted: 1 };
+      assert.strictEqual(helper.check(restricted), null);
+      assert.strictEqual(helper.check(RAW), RAW);
+      assert.deepStrictEqual(
+        compliance().helper.filter([MODEL, restricted, RAW]),
+        [MODEL, RAW]
+      );
+    });
+  });
+
+  describe('notices', () => {
+    it('reads the copyright of models and raw payloads', () => {
+      const { helper } = compliance();
+      assert.strictEqual(
+        helper.notice(MODEL),
+        'Writer(s): Adele Adkins, Greg Kurstin'
+      );
+      assert.strictEqual(
+        helper.notice(RAW),
+        'Writer(s): Adele Adkins, Greg Kurstin'
+      );
+    });
+
+    it('falls back to the Musixmatch attribution', () => {
+      assert.strictEqual(
+        compliance().helper.notice({ ...RAW, lyrics_copyright: '  ' }),
+        'Lyrics powered by www.musixmatch.com'
+      );
+      assert.strictEqual(
+        compliance({ defaultNotice: 'Lyrics by Musixmatch' }).helper.notice({
+          restricted: false
+        }),
+        'Lyrics by Musixmatch'
+      );
+    });
+  });
+
+  describe('display', () => {
+    it('returns the pixel to the caller by default', async () => {
+      const { helper, pixels } = compliance();
+      const display = await helper.display(MODEL);
+      assert.deepStrictEqual(display, {
+        content: MODEL,
+        notice: 'Writer(s): Adele Adkins, Greg Kurstin',
+        pixelUrl: PIXEL,
+        pixelFired: false,
+        scriptUrl: SCRIPT,
+        htmlUrl: undefined
+      });
+      assert.deepStrictEqual(pixels, []);
+    });
+
+    it('fires the pixel of a raw payload on every display', async () => {
+      const { helper, pixels } = compliance({ pixels: 'fire' });
+      const display = await helper.display(RAW);
+      await helper.display(RAW);
+      assert.strictEqual(display.content, RAW);
+      assert.strictEqual(display.pixelUrl, PIXEL);
+      assert.strictEqual(display.scriptUrl, SCRIPT);
+      assert.strictEqual(display.htmlUrl, undefined);
+      assert.strictEqual(display.pixelFired, true);
+      assert.deepStrictEqual(pixels, [PIXEL, PIXEL]);
+    });
+
+    it('reports a pixel that failed to load', async () => {
+      const helper = new Compliance({
+        pixels: 'fire',
+        sendPixel: () => Promise.reject(new Error('offline'))
+      });
+      const display = await helper.display(MODEL);
+      assert.strictEqual(display.pixelFired, false);
+      assert.strictEqual(display.pixelUrl, PIXEL);
+    });
+
+    it('loads no pixel for restricted content', async () => {
+      const { helper, pixels } = compliance({
+        pixels: 'fire',
+        onRestricted: 'filter'
+      });
+      assert.strictEqual(await helper.display({ ...RAW, restricted: 1 }), null);
+      await assert.rejects(
+        compliance({ pixels: 'fire' }).helper.display({
+          ...MODEL,
+          restricted: true
+        }),
+        RestrictedContentError
+      );
+      assert.deepStrictEqual(pixels, []);
+    });
+
+    it('needs a way to fire pixels', () => {
+      const fetch = globalThis.fetch;
+      globalThis.fetch = undefined;
+      try {
+        assert.throws(
+          () => new Compliance({ pixels: 'fire' }),
+          (error) =>
+            error instanceof MusixmatchError && /sendPixel/.test(error.message)
+        );
+      } finally {
+        globalThis.fetch = fetch;
+      }
+    });
+  });
+
+  it('is configured from the client options', async () => {
+    const mxm = new Musixmatch('test-key', {
+      compliance: {
+        country: 'US',
+        allowedCountries: ['IT'],
+        onRestricted: 'filter'
+      }
+    });
+    assert.strictEqual(await mxm.compliance.display(RAW), null);
+  });
+});
@@ -0,0 +1,144 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const { AbortError, Musixmatch, TimeoutError } = require('../dist');
+
+const OK = {
+  message: { header: { status_code: 200, execute_time: 0 }, body: {} }
+};
+
+/**
+ * A transport that answers after `delayMs`, or never when it is not set.
+ * Keeps the signal of every request. With `ignoreSignal`, it does not stop
+ * when the signal is aborted.
+ */
+function slow(delayMs, { ignoreSignal = false, data = OK } = {}) {
+  const transport = {
+    signals: [],
+    request: (req) => {
+      transport.signals.push(req.signal);
+      return new Promise((resolve, reject) => {
+        const timer =
+          delayMs === undefined
+            ? undefined
+            : setTimeout(() => resolve({ status: 200, data }), delayMs);
+        if (!ignoreSignal) {
+          req.signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('socket hang up'));
+          });
+        }
+      });
+    }
+  };
+  return transport;
+}
+
+function client(transport, options = {}) {
+  return new Musixmatch('test-key', { transport, retry: false, ...options });
+}
+
+function timers() {
+  return process
+    .getActiveResourcesInfo()
+    .filter((resource) => resource === 'Timeout').length;
+}
+
+describe('abort and timeout', () => {
+  it('rejects with a TimeoutError once timeoutMs runs out', async () => {
+    const transport = slow();
+    await assert.rejects(
+      client(transport).trackGet(
+        { commontrack_id: 5920049 },
+        { timeoutMs: 20 }
+      ),
+      (error) =>
+        error instanceof TimeoutError &&
+        !(error instanceof AbortError) &&
+        error.kind === 'timeout' &&
+        error.apiMethod === 'track.get' &&
+        error.message === 'The request timed out after 20 ms'
+    );
+    assert.strictEqual(transport.signals[0].aborted, true);
+  });
+
+  it('uses the client-wide timeoutMs unless the call overrides it', async () => {
+    const mxm = client(slow(40), { timeoutMs: 10 });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }),
+      TimeoutError
+    );
+    const response = await mxm.trackGet(
+      { commontrack_id: 5920049 },
+      { timeoutMs: 1000 }
+    );
+    assert.deepStrictEqual(response, OK);
+  });
+
+  it('rejects with an AbortError when the signal is aborted', async () => {
+    const transport = slow();
+    const controller = new AbortController();
+    const pending = client(transport).trackGet(
+      { commontrack_id: 5920049 },
+      { signal: controller.signal, timeoutMs: 1000 }
+    );
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(
+      pending,
+      (error) =>
+        error instanceof AbortError &&
+        !(error instanceof TimeoutError) &&
+        error.kind === 'aborted' &&
+        error.apiMethod === 'track.get'
+    );
+    assert.strictEqual(transport.signals[0].aborted, true);
+  });
+
+  it('sends nothing when the signal is already aborted', async () => {
+    const transport = slow(0);
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      client(transport).trackGet(
+        { commontrack_id: 5920049 },
+        { signal: controller.signal }
+      ),
+      AbortError
+    );
+    assert.strictEqual(transport.signals.length, 0);
+  });
+
+  it('does not wait for a transport that ignores the signal', async () => {
+    const started = Date.now();
+    await assert.rejects(
+      client(slow(500, { ignoreSignal: true })).trackGet(
+        { commontrack_id: 5920049 },
+        { timeoutMs: 20 }
+      ),
+      TimeoutError
+    );
+    assert.ok(Date.now() - started < 400);
+  });
+
+  it('counts the retries in the time allowed', async () => {
+    const unavailable = {
+      message: { header: { status_code: 503, execute_time: 0 }, body: '' }
+    };
+    const transport = slow(0, { data: unavailable });
+    await assert.rejects(
+      client(transport, {
+        retry: { maxAttempts: 10, baseDelayMs: 30, jitter: false }
+      }).trackGet({ commontrack_id: 5920049 }, { timeoutMs: 50 }),
+      TimeoutError
+    );
+    assert.ok(transport.signals.length <= 2);
+  });
+
+  it('clears its timer once the call is over', async () => {
+    const before = timers();
+    await client(slow(0)).trackGet(
+      { commontrack_id: 5920049 },
+      { timeoutMs: 60000 }
+    );
+    assert.strictEqual(timers(), before);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * The catalogue the fixtures are recorded from, and one call per endpoint
+ * method. Shared by record-fixtures.js and replay.test.js, so the replayed
+ * calls always match the recorded ones.
+ */
+
+const CATALOG = {
+  tracks: [
+    {
+      track_id: 84584600,
+      commontrack_id: 5920049,
+      track_isrc: 'GBBKS1500214',
+      track_name: 'Hello',
+      track_length: 295,
+      album_id: 20828429,
+      album_name: '25',
+      artist_id: 346898,
+      artist_name: 'Adele'
+    },
+    {
+      track_id: 84584601,
+      commontrack_id: 5920050,
+      track_name: 'Send My Love (To Your New Lover)',
+      album_id: 20828429,
+      album_name: '25',
+      artist_id: 346898,
+      artist_name: 'Adele'
+    }
+  ],
+  artists: [
+    { artist_id: 346898, artist_name: 'Adele', artist_country: 'GB' },
+    { artist_id: 24410130, artist_name: 'Sam Smith', artist_country: 'GB' }
+  ],
+  albums: [
+    {
+      album_id: 20828429,
+      album_name: '25',
+      album_release_date: '2015-11-20',
+      album_track_count: 11,
+      artist_id: 346898,
+      artist_name: 'Adele'
+    }
+  ],
+  genres: [
+    {
+      music_genre_id: 14,
+      music_genre_parent_id: 34,
+      music_genre_name: 'Pop',
+      music_genre_name_extended: 'Pop',
+      music_genre_vanity: 'Pop'
+    }
+  ],
+  lyrics: {
+    84584600: {
+      lyrics_body: "Hello, it's me\nI was wondering if after all these years",
+      lyrics_copyright: 'Lyrics powered by www.musixmatch.com'
+    }
+  },
+  subtitles: {
+    84584600: {
+      subtitle_body:
+        "[00:01.00] Hello, it's me\n[00:05.50] I was wondering if after all these years",
+      subtitle_length: 295
+    }
+  },
+  richsyncs: {
+    84584600: {
+      richsync_body: JSON.stringify([
+        {
+          ts: 1,
+          te: 5.5,
+          l: [
+            { c: 'Hello,', o: 0 },
+            { c: ' ', o: 0.8 },
+            { c: "it's", o: 1.2 },
+            { c: ' ', o: 1.6 },
+            { c: 'me', o: 2 }
+          ],
+          x: "Hello, it's me"
+        }
+      ]),
+      richsync_length: 295
+    }
+  },
+  snippets: {
+    84584600: { snippet_body: "Hello, it's me" }
+  },
+  moods: {
+    84584600: {
+      mood_list: [
+        { label: 'Sad', value: 0.82 },
+        { label: 'Romantic', value: 0.41 }
+      ],
+      raw_data: { valence: 0.21, arousal: 0.34 }
+    }
+  },
+  lyricsTranslations: {
+    84584600: {
+      it: 'Ciao, sono io\nMi chiedevo se dopo tutti questi anni'
+    }
+  },
+  subtitleTranslations: {
+    84584600: {
+      it: '[00:01.00] Ciao, sono io\n[00:05.50] Mi chiedevo se dopo tutti questi anni'
+    }
+  }
+};
+
+/**
+ * One call per endpoint method: the method name and its params.
+ */
+const CALLS = [
+  ['trackGet', { commontrack_id: 5920049 }],
+  ['trackSearch', { q_artist: 'adele', q_track: 'hello', page_size: 3 }],
+  ['chartArtistGet', { country: 'gb', page: 1, page_size: 3 }],
+  ['chartTracksGet', { country: 'gb', chart_name: 'top', page_size: 3 }],
+  ['trackLyricsGet', { commontrack_id: 5920049 }],
+  [
+    'trackLyricsPost',
+    { commontrack_id: 5920050, lyrics_body: 'This was all you, none of it me' }
+  ],
+  ['trackLyricsMoodGet', { commontrack_id: 5920049 }],
+  ['trackSnippetGet', { track_id: 84584600 }],
+  ['trackSubtitleGet', { commontrack_id: 5920049 }],
+  ['trackRichSyncGet', { track_id: 84584600 }],
+  [
+    'trackLyricsTranslationGet',
+    { commontrack_id: 5920049, selected_language: 'it' }
+  ],
+  [
+    'trackSubttileTranslationGet',
+    { commontrack_id: 5920049, selected_language: 'it' }
+  ],
+  ['musicGenresGet', undefined],
+  ['matcherLyricsGet', { q_artist: 'adele', q_track: 'hello' }],
+  ['matcherTrackGet', { q_artist: 'adele', q_track: 'hello' }],
+  ['matcherSubtitleGet', { q_artist: 'adele', q_track: 'hello' }],
+  ['artistGet', { artist_id: 346898 }],
+  ['artistSearch', { q_artist: 'adele' }],
+  ['artistAlbumsGet', { artist_id: 346898, s_release_date: 'desc' }],
+  ['artistRelatedGet', { artist_id: 346898 }],
+  ['albumGet', { album_id: 20828429 }],
+  ['albumTracksGet', { album_id: 20828429 }]
+];
+
+/**
+ * Sends a call of CALLS.
+ * @param mxm - The Musixmatch instance.
+ * @param call - The method name and its params.
+ * @returns The response.
+ */
+function send(mxm, [method, params]) {
+  return params === undefined ? mxm[method]() : mxm[method](params);
+}
+
+module.exports = { CATALOG, CALLS, send };
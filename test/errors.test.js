@@ -0,0 +1,137 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AuthError,
+  MXMException,
+  Musixmatch,
+  MusixmatchError,
+  MusixmatchRequestError,
+  NetworkError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitedError,
+  TimeoutError
+} = require('../dist');
+
+function answering(response) {
+  return new Musixmatch('secret-key', {
+    transport: {
+      request: async () => {
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      }
+    },
+    retry: false
+  });
+}
+
+function headerStatus(statusCode, header = {}) {
+  return answering({
+    status: 200,
+    data: {
+      message: { header: { status_code: statusCode, ...header }, body: '' }
+    }
+  });
+}
+
+function failure(mxm) {
+  return mxm.trackGet({ commontrack_id: 5920049 }).then(
+    () => assert.fail('expected the call to fail'),
+    (error) => error
+  );
+}
+
+describe('errors', () => {
+  const statuses = [
+    [401, AuthError, 'auth'],
+    [402, QuotaExceededError, 'quota'],
+    [404, NotFoundError, 'not_found'],
+    [429, RateLimitedError, 'rate_limited'],
+    [503, RateLimitedError, 'rate_limited'],
+    [400, MXMException, 'api'],
+    [403, MXMException, 'api'],
+    [500, MXMException, 'api']
+  ];
+
+  statuses.forEach(([statusCode, ErrorClass, kind]) => {
+    it(`maps a ${statusCode} to ${ErrorClass.name}`, async () => {
+      for (const mxm of [
+        headerStatus(statusCode),
+        answering({ status: statusCode, data: 'error' })
+      ]) {
+        const error = await failure(mxm);
+        assert.ok(error instanceof ErrorClass);
+        assert.strictEqual(error.kind, kind);
+        assert.strictEqual(error.status_code, statusCode);
+        assert.strictEqual(error.name, ErrorClass.name);
+      }
+    });
+  });
+
+  it('keeps MXMException as the base of every API error', async () => {
+    for (const [statusCode] of statuses) {
+      const error = await failure(headerStatus(statusCode));
+      assert.ok(error instanceof MXMException);
+      assert.ok(error instanceof MusixmatchRequestError);
+      assert.ok(error instanceof MusixmatchError);
+      assert.ok(error instanceof Error);
+    }
+  });
+
+  it('carries the request context, apikey redacted', async () => {
+    const error = await failure(
+      headerStatus(404, { hint: 'track not found', execute_time: 0.02 })
+    );
+    assert.strictEqual(error.apiMethod, 'track.get');
+    assert.deepStrictEqual(error.params, {
+      commontrack_id: 5920049,
+      apikey: '***'
+    });
+    assert.strictEqual(error.hint, 'track not found');
+    assert.strictEqual(error.execute_time, 0.02);
+    assert.strictEqual(error.message, 'track not found');
+    assert.strictEqual(
+      error.requestURL,
+      'https://api.musixmatch.com/ws/1.1/track.get?commontrack_id=5920049&apikey=***'
+    );
+    assert.strictEqual(
+      error.toString(),
+      `Error code: 404 - message: track not found\nRequest URL: ${error.requestURL}`
+    );
+  });
+
+  it('falls back to the message of the status code', async () => {
+    const error = await failure(headerStatus(401));
+    assert.strictEqual(error.message, MXMException.codes[401]);
+    assert.strictEqual(error.hint, undefined);
+  });
+
+  it('turns a refused connection into a NetworkError', async () => {
+    const cause = Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED'
+    });
+    const error = await failure(answering(cause));
+    assert.ok(error instanceof NetworkError);
+    assert.ok(!(error instanceof MXMException));
+    assert.strictEqual(error.kind, 'network');
+    assert.strictEqual(error.code, 'ECONNREFUSED');
+    assert.strictEqual(error.message, 'Connection refused');
+    assert.strictEqual(error.cause, cause);
+  });
+
+  it('turns a transport timeout into a TimeoutError', async () => {
+    const error = await failure(
+      answering(Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }))
+    );
+    assert.ok(error instanceof TimeoutError);
+    assert.strictEqual(error.kind, 'timeout');
+  });
+
+  it('rejects a response without a header', async () => {
+    const error = await failure(answering({ status: 200, data: {} }));
+    assert.ok(error instanceof MusixmatchError);
+    assert.ok(!(error instanceof MusixmatchRequestError));
+  });
+});
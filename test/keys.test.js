@@ -0,0 +1,208 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AuthError,
+  KeyPoolExhaustedError,
+  Musixmatch,
+  MusixmatchError,
+  NotFoundError,
+  NetworkError,
+  QuotaExceededError
+} = require('../dist');
+
+/**
+ * A transport answering per API key: a header status code, or `network`
+ * for a connection reset. Keys missing from `answers` get a 200.
+ */
+function byKey(answers = {}) {
+  const transport = {
+    keys: [],
+    request: async (req) => {
+      const key = req.params.apikey;
+      transport.keys.push(key);
+      const answer = answers[key] ?? 200;
+      if (answer === 'network') {
+        throw Object.assign(new Error('socket hang up'), {
+          code: 'ECONNRESET'
+        });
+      }
+      return {
+        status: 200,
+        data: {
+          message: {
+            header: { status_code: answer, execute_time: 0 },
+            body: answer === 200 ? { track: {} } : ''
+          }
+        }
+      };
+    }
+  };
+  return transport;
+}
+
+function client(transport, keyPool) {
+  return new Musixmatch(undefined, { transport, keyPool, retry: false });
+}
+
+async function calls(mxm, count) {
+  for (let i = 0; i < count; i++) {
+    await mxm.trackGet({ commontrack_id: 5920049 });
+  }
+}
+
+describe('key pool', () => {
+  it('cycles through the keys in round-robin', async () => {
+    const transport = byKey();
+    await calls(client(transport, { keys: ['a', 'b', 'c'] }), 5);
+    assert.deepStrictEqual(transport.keys, ['a', 'b', 'c', 'a', 'b']);
+  });
+
+  it('spreads the calls by weight, interleaved', async () => {
+    const transport = byKey();
+    await calls(
+      client(transport, {
+        strategy: 'weighted',
+        keys: [
+          { key: 'a', weight: 3 },
+          { key: 'b', weight: 1 }
+        ]
+      }),
+      8
+    );
+    assert.deepStrictEqual(transport.keys, [
+      'a',
+      'a',
+      'b',
+      'a',
+      'a',
+      'a',
+      'b',
+      'a'
+    ]);
+  });
+
+  it('fails over to the next key on a 402 and cools the key down', async () => {
+    const transport = byKey({ a: 402 });
+    const mxm = client(transport, { keys: ['a', 'b'], cooldownMs: 60000 });
+    await calls(mxm, 3);
+    assert.deepStrictEqual(transport.keys, ['a', 'b', 'b', 'b']);
+    const [a, b] = mxm.getKeyStats();
+    assert.strictEqual(a.status, 'cooling');
+    assert.ok(a.coolingUntil.getTime() - Date.now() > 59000);
+    assert.strictEqual(a.quotaErrors, 1);
+    assert.strictEqual(a.failures, 1);
+    assert.strictEqual(b.successes, 3);
+  });
+
+  it('retires a key refused with a 401', async () => {
+    const transport = byKey({ b: 401 });
+    const mxm = client(transport, { keys: ['a', 'b'] });
+    await calls(mxm, 3);
+    assert.deepStrictEqual(transport.keys, ['a', 'b', 'a', 'a']);
+    assert.strictEqual(mxm.getKeyStats()[1].status, 'retired');
+    assert.strictEqual(mxm.getKeyStats()[1].authErrors, 1);
+  });
+
+  it('tries each key once per call', async () => {
+    const transport = byKey({ a: 402, b: 401, c: 402 });
+    const mxm = client(transport, { keys: ['a', 'b', 'c'], cooldownMs: 1 });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }),
+      QuotaExceededError
+    );
+    assert.deepStrictEqual(transport.keys, ['a', 'b', 'c']);
+  });
+
+  it('rejects once every key is left aside', async () => {
+    const transport = byKey({ a: 401 });
+    const mxm = client(transport, { keys: ['a'] });
+    await assert.rejects(mxm.trackGet({ commontrack_id: 5920049 }), AuthError);
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }),
+      (error) =>
+        error instanceof KeyPoolExhaustedError && error.retryAt === undefined
+    );
+    assert.deepStrictEqual(transport.keys, ['a']);
+  });
+
+  it('counts other API errors as accepted keys', async () => {
+    const transport = byKey({ a: 404 });
+    const mxm = client(transport, { keys: ['a', 'b'] });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }),
+      NotFoundError
+    );
+    assert.deepStrictEqual(transport.keys, ['a']);
+    const [a] = mxm.getKeyStats();
+    assert.strictEqual(a.status, 'active');
+    assert.strictEqual(a.successes, 1);
+    assert.strictEqual(a.failures, 0);
+  });
+
+  it('counts network errors apart', async () => {
+    const transport = byKey({ a: 'network' });
+    const mxm = client(transport, { keys: ['a', 'b'] });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }),
+      NetworkError
+    );
+    const [a] = mxm.getKeyStats();
+    assert.strictEqual(a.requests, 1);
+    assert.strictEqual(a.networkErrors, 1);
+    assert.strictEqual(a.failures, 0);
+    assert.strictEqual(a.status, 'active');
+  });
+
+  it('reports the usage of every key', async () => {
+    const transport = byKey();
+    const mxm = client(transport, {
+      keys: [{ key: 'abcdefghijkl', label: 'web' }, '0123456789ab', 'short']
+    });
+    await calls(mxm, 2);
+    const stats = mxm.getKeyStats();
+    assert.deepStrictEqual(
+      stats.map((entry) => entry.label),
+      ['web', '0123…89ab', '***']
+    );
+    const { lastUsedAt, ...web } = stats[0];
+    assert.ok(lastUsedAt instanceof Date);
+    assert.deepStrictEqual(web, {
+      label: 'web',
+      status: 'active',
+      requests: 1,
+      successes: 1,
+      failures: 0,
+      authErrors: 0,
+      quotaErrors: 0,
+      networkErrors: 0,
+      coolingUntil: undefined
+    });
+    assert.strictEqual(stats[2].requests, 0);
+    assert.strictEqual(stats[2].lastUsedAt, undefined);
+  });
+
+  it('leaves a per-call key out of the pool', async () => {
+    const transport = byKey({ tenant: 402 });
+    const mxm = client(transport, { keys: ['a', 'b'] });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 5920049 }, { apikey: 'tenant' }),
+      QuotaExceededError
+    );
+    assert.deepStrictEqual(transport.keys, ['tenant']);
+    mxm.getKeyStats().forEach((entry) => {
+      assert.strictEqual(entry.requests, 0);
+    });
+  });
+
+  it('rejects bad settings', () => {
+    const invalid = [
+      { keys: [] },
+      { keys: [{ key: 'a', weight: 0 }] },
+      { keys: ['a'], cooldownMs: 0 },
+      { keys: ['a'], cooldownMs: -1000 }
+    ];
+    invalid.forEach((keyPool) =>
+      assert.throws(() => client(byKey(), keyPool), MusixmatchError)
+    );
+  });
+});
@@ -0,0 +1,143 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AbortError,
+  Musixmatch,
+  MusixmatchError,
+  QuotaExhaustedError,
+  TimeoutError
+} = require('../dist');
+
+const OK = { message: { header: { status_code: 200 }, body: '' } };
+
+function counter() {
+  const transport = {
+    calls: 0,
+    request: async () => {
+      transport.calls += 1;
+      return { status: 200, data: OK };
+    }
+  };
+  return transport;
+}
+
+function timers() {
+  return process
+    .getActiveResourcesInfo()
+    .filter((resource) => resource === 'Timeout').length;
+}
+
+describe('rate limit', () => {
+  it('sends the burst at once, then requestsPerSecond', async () => {
+    const mxm = new Musixmatch('test-key', {
+      transport: counter(),
+      rateLimit: { requestsPerSecond: 20, burst: 2 }
+    });
+    const started = Date.now();
+    await Promise.all(
+      [1, 2, 3, 4].map((id) => mxm.trackGet({ commontrack_id: id }))
+    );
+    // Two tokens right away, then one every 50 ms.
+    assert.ok(Date.now() - started >= 90);
+  });
+
+  it('rejects a rate that is not positive', () => {
+    [0, -1, NaN, Infinity].forEach((requestsPerSecond) => {
+      assert.throws(
+        () => new Musixmatch('test-key', { rateLimit: { requestsPerSecond } }),
+        MusixmatchError
+      );
+    });
+    assert.throws(
+      () =>
+        new Musixmatch('test-key', {
+          rateLimit: { requestsPerSecond: 1, burst: 0 }
+        }),
+      MusixmatchError
+    );
+  });
+
+  it('gives no token to a cancelled caller', async () => {
+    const transport = counter();
+    const mxm = new Musixmatch('test-key', {
+      transport,
+      rateLimit: { requestsPerSecond: 1, burst: 1 }
+    });
+    await mxm.trackGet({ commontrack_id: 1 });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 2 }, { timeoutMs: 20 }),
+      TimeoutError
+    );
+    assert.strictEqual(transport.calls, 1);
+  });
+});
+
+describe('daily quota', () => {
+  it('fails before sending once the quota is used up', async () => {
+    const transport = counter();
+    const mxm = new Musixmatch('test-key', {
+      transport,
+      quota: { dailyLimit: 3, used: 1 }
+    });
+    await mxm.trackGet({ commontrack_id: 1 });
+    await mxm.trackGet({ commontrack_id: 2 });
+    await assert.rejects(
+      mxm.trackGet({ commontrack_id: 3 }),
+      (error) =>
+        error instanceof QuotaExhaustedError &&
+        error.resetsAt.getTime() === mxm.getQuotaUsage().resetsAt.getTime()
+    );
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  it('reports the usage until the next UTC midnight', () => {
+    const mxm = new Musixmatch('test-key', {
+      transport: counter(),
+      quota: { dailyLimit: 10, used: 4 }
+    });
+    const usage = mxm.getQuotaUsage();
+    const now = new Date();
+    assert.deepStrictEqual(usage, {
+      limit: 10,
+      used: 4,
+      remaining: 6,
+      resetsAt: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      )
+    });
+    assert.strictEqual(
+      new Musixmatch('test-key', { transport: counter() }).getQuotaUsage(),
+      null
+    );
+  });
+
+  describe("in 'wait' mode", () => {
+    function exhausted() {
+      return new Musixmatch('test-key', {
+        transport: counter(),
+        quota: { dailyLimit: 1, used: 1, onExhausted: 'wait' }
+      });
+    }
+
+    it('stops waiting when the call times out', async () => {
+      const before = timers();
+      await assert.rejects(
+        exhausted().trackGet({ commontrack_id: 1 }, { timeoutMs: 20 }),
+        TimeoutError
+      );
+      assert.strictEqual(timers(), before);
+    });
+
+    it('stops waiting when the signal is aborted', async () => {
+      const before = timers();
+      const controller = new AbortController();
+      const call = exhausted().trackGet(
+        { commontrack_id: 1 },
+        { signal: controller.signal }
+      );
+      setTimeout(() => controller.abort(), 10);
+      await assert.rejects(call, AbortError);
+      assert.strictEqual(timers(), before);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+const assert = require('assert');
+const path = require('path');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  SubtitleParseError,
+  formatLrcTimestamp,
+  lineAt,
+  parseLrc,
+  parseLrcTimestamp,
+  parseMxmSubtitle,
+  serializeLrc,
+  serializeMxmSubtitle
+} = require('../dist');
+
+describe('LRC', () => {
+  describe('timestamps', () => {
+    it('parses hundredths and milliseconds', () => {
+      assert.strictEqual(parseLrcTimestamp('01:02.34'), 62340);
+      assert.strictEqual(parseLrcTimestamp('01:02.345'), 62345);
+      assert.strictEqual(parseLrcTimestamp('00:05'), 5000);
+    });
+
+    it('accepts loose separators unless strict', () => {
+      assert.strictEqual(parseLrcTimestamp('1:02,5'), 62500);
+      assert.strictEqual(parseLrcTimestamp('1:02,5', true), undefined);
+      assert.strictEqual(parseLrcTimestamp('ar:Adele'), undefined);
+    });
+
+    it('formats to hundredths', () => {
+      assert.strictEqual(formatLrcTimestamp(62345), '01:02.35');
+      assert.strictEqual(formatLrcTimestamp(0), '00:00.00');
+      assert.strictEqual(formatLrcTimestamp(-20), '00:00.00');
+      assert.strictEqual(formatLrcTimestamp(3723000), '62:03.00');
+    });
+  });
+
+  describe('parseLrc', () => {
+    it('reads tags, repeated timestamps and sorts the lines', () => {
+      const lrc = parseLrc(
+        '\uFEFF[ar: Adele]\r\n[ti:Hello]\n\n[00:12.00][00:45.00]Chorus\n[00:01.50]Hello'
+      );
+      assert.deepStrictEqual(lrc, {
+        tags: { ar: 'Adele', ti: 'Hello' },
+        lines: [
+          { time_ms: 1500, text: 'Hello' },
+          { time_ms: 12000, text: 'Chorus' },
+          { time_ms: 45000, text: 'Chorus' }
+        ]
+      });
+    });
+
+    it('keeps empty lines as instrumental gaps', () => {
+      assert.deepStrictEqual(parseLrc('[00:01.00]One\n[00:04.00]').lines, [
+        { time_ms: 1000, text: 'One' },
+        { time_ms: 4000, text: '' }
+      ]);
+    });
+
+    it('skips malformed rows in lenient mode', () => {
+      assert.deepStrictEqual(
+        parseLrc('stray text\n[xx:yy]Bad\n[00:02.00]Good').lines,
+        [{ time_ms: 2000, text: 'Good' }]
+      );
+    });
+
+    it('applies the offset tag, a positive one making lines earlier', () => {
+      assert.deepStrictEqual(
+        parseLrc('[ar:Adele]\n[offset:+500]\n[00:00.20]One\n[00:02.00]Two'),
+        {
+          tags: { ar: 'Adele' },
+          lines: [
+            { time_ms: 0, text: 'One' },
+            { time_ms: 1500, text: 'Two' }
+          ]
+        }
+      );
+      assert.deepStrictEqual(parseLrc('[offset:-250]\n[00:01.00]One').lines, [
+        { time_ms: 1250, text: 'One' }
+      ]);
+    });
+
+    it('keeps a malformed offset as a tag unless strict', () => {
+      const body = '[offset:soon]\n[00:01.00]One';
+      assert.deepStrictEqual(parseLrc(body), {
+        tags: { offset: 'soon' },
+        lines: [{ time_ms: 1000, text: 'One' }]
+      });
+      assert.throws(
+        () => parseLrc(body, { strict: true }),
+        (error) => error instanceof SubtitleParseError && error.line === 1
+      );
+    });
+
+    it('throws with the line number in strict mode', () => {
+      assert.throws(
+        () => parseLrc('[00:01.00]One\n[1:2]Two', { strict: true }),
+        (error) =>
+          error instanceof SubtitleParseError &&
+          error.line === 2 &&
+          /malformed timestamp/.test(error.message)
+      );
+      assert.throws(
+        () => parseLrc('no timestamp', { strict: true }),
+        SubtitleParseError
+      );
+    });
+  });
+
+  describe('serializeLrc', () => {
+    it('writes the tags first and the lines in order', () => {
+      assert.strictEqual(
+        serializeLrc({
+          tags: { ar: 'Adele' },
+          lines: [
+            { time_ms: 5500, text: 'Two' },
+            { time_ms: 1000, text: 'One' }
+          ]
+        }),
+        '[ar:Adele]\n[00:01.00]One\n[00:05.50]Two'
+      );
+    });
+
+    it('keeps the timing of an offset document', () => {
+      const lrc = parseLrc('[offset:1000]\n[00:05.00]One');
+      assert.strictEqual(serializeLrc(lrc), '[00:04.00]One');
+      assert.deepStrictEqual(parseLrc(serializeLrc(lrc)), lrc);
+    });
+
+    it('round-trips a parsed document', () => {
+      const body = '[ti:Hello]\n[00:01.00]One\n[00:05.50]Two\n[01:10.25]Three';
+      assert.strictEqual(serializeLrc(parseLrc(body)), body);
+    });
+  });
+
+  describe('Musixmatch JSON subtitles', () => {
+    const lines = [
+      { time_ms: 1000, text: 'One' },
+      { time_ms: 65500, text: 'Two' }
+    ];
+
+    it('round-trips through the JSON format', () => {
+      const json = serializeMxmSubtitle(lines);
+      assert.deepStrictEqual(JSON.parse(json)[1], {
+        text: 'Two',
+        time: { total: 65.5, minutes: 1, seconds: 5, hundredths: 50 }
+      });
+      assert.deepStrictEqual(parseMxmSubtitle(json), lines);
+    });
+
+    it('skips entries without a time unless strict', () => {
+      const body = [{ text: 'No time' }, { text: 'One', time: { total: 1 } }];
+      assert.deepStrictEqual(parseMxmSubtitle(body), [
+        { time_ms: 1000, text: 'One' }
+      ]);
+      assert.throws(
+        () => parseMxmSubtitle(body, { strict: true }),
+        SubtitleParseError
+      );
+      assert.throws(() => parseMxmSubtitle('{'), SubtitleParseError);
+    });
+  });
+
+  describe('lineAt', () => {
+    const lines = parseLrc(
+      '[00:01.00]One\n[00:05.00]Two\n[00:09.00]Three'
+    ).lines;
+
+    it('finds the line being sung', () => {
+      assert.strictEqual(lineAt(lines, 500), undefined);
+      assert.strictEqual(lineAt(lines, 1000).text, 'One');
+      assert.strictEqual(lineAt(lines, 8999).text, 'Two');
+      assert.strictEqual(lineAt(lines, 60000).text, 'Three');
+    });
+  });
+
+  it('parses a replayed subtitle body', async () => {
+    const mxm = new Musixmatch('replay-key', {
+      fixtures: { mode: 'replay', dir: path.join(__dirname, 'fixtures') }
+    });
+    const subtitle = await mxm.tracks.subtitle({ commontrack_id: 5920049 });
+    assert.deepStrictEqual(
+      parseLrc(subtitle.body).lines.map((line) => line.time_ms),
+      [1000, 5500]
+    );
+  });
+});
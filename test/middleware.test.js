@@ -0,0 +1,231 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  MusixmatchError,
+  NotFoundError,
+  loggingMiddleware,
+  timingMiddleware
+} = require('../dist');
+
+function envelope(statusCode, body = {}) {
+  return {
+    message: { header: { status_code: statusCode, execute_time: 0.25 }, body }
+  };
+}
+
+/**
+ * A transport answering with the given header status codes in turn, the
+ * last one repeating.
+ */
+function sequence(statusCodes) {
+  const transport = {
+    calls: [],
+    request: async (req) => {
+      const statusCode =
+        statusCodes[Math.min(transport.calls.length, statusCodes.length - 1)];
+      transport.calls.push(req);
+      return {
+        status: 200,
+        data: envelope(statusCode, statusCode === 200 ? {} : '')
+      };
+    }
+  };
+  return transport;
+}
+
+function client(transport, options = {}) {
+  return new Musixmatch('secret-key', {
+    transport,
+    retry: { baseDelayMs: 1, jitter: false, retryableStatusCodes: [503] },
+    ...options
+  });
+}
+
+describe('middleware', () => {
+  it('runs middlewares in the order they were added', async () => {
+    const steps = [];
+    const step = (name) => async (context, next) => {
+      steps.push(`${name} before`);
+      const data = await next();
+      steps.push(`${name} after`);
+      return data;
+    };
+    const transport = sequence([200]);
+    const mxm = client({
+      request: async (req) => {
+        steps.push('send');
+        return transport.request(req);
+      }
+    });
+    await mxm.use(step('a')).use(step('b')).trackGet({ commontrack_id: 1 });
+    assert.deepStrictEqual(steps, [
+      'a before',
+      'b before',
+      'send',
+      'b after',
+      'a after'
+    ]);
+  });
+
+  it('lets a middleware change the request and the response', async () => {
+    const transport = sequence([200]);
+    const response = await client(transport)
+      .use(async (context, next) => {
+        context.headers['x-request-id'] = 'abc';
+        context.params.commontrack_id = 2;
+        const data = await next();
+        return { ...data, tagged: true };
+      })
+      .trackGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls[0].headers['x-request-id'], 'abc');
+    assert.strictEqual(transport.calls[0].params.commontrack_id, 2);
+    assert.strictEqual(response.tagged, true);
+  });
+
+  it('rejects next with the error of the call', async () => {
+    const caught = [];
+    const response = await client(sequence([404]))
+      .use(async (context, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          caught.push(error);
+          return 'fallback';
+        }
+      })
+      .trackGet({ commontrack_id: 1 });
+    assert.strictEqual(response, 'fallback');
+    assert.ok(caught[0] instanceof NotFoundError);
+  });
+
+  it('rejects a second call to next', async () => {
+    const transport = sequence([200]);
+    await assert.rejects(
+      client(transport)
+        .use(async (context, next) => {
+          await next();
+          return next();
+        })
+        .trackGet({ commontrack_id: 1 }),
+      (error) =>
+        error instanceof MusixmatchError &&
+        error.message === 'next() called multiple times'
+    );
+    assert.strictEqual(transport.calls.length, 1);
+  });
+
+  it('logs calls to the given logger with the apikey redacted', async () => {
+    const lines = [];
+    const mxm = client(sequence([200, 404])).use(
+      loggingMiddleware((line) => lines.push(line))
+    );
+    await mxm.trackGet({ commontrack_id: 1 });
+    await assert.rejects(mxm.trackGet({ commontrack_id: 2 }), NotFoundError);
+    assert.strictEqual(lines.length, 4);
+    assert.strictEqual(
+      lines[0],
+      '[musixmatch] GET track.get?commontrack_id=1&apikey=***'
+    );
+    assert.match(
+      lines[1],
+      /^\[musixmatch\] track\.get 200 in \d+ ms \(execute_time 0\.25 s\)$/
+    );
+    assert.match(
+      lines[3],
+      /^\[musixmatch\] track\.get failed in \d+ ms: NotFoundError: /
+    );
+    lines.forEach((line) => assert.ok(!line.includes('secret-key')));
+  });
+
+  it('reports the latency next to execute_time', async () => {
+    const timings = [];
+    const mxm = client(sequence([200, 404])).use(
+      timingMiddleware((timing) => timings.push(timing))
+    );
+    await mxm.trackGet({ commontrack_id: 1 });
+    await assert.rejects(mxm.trackGet({ commontrack_id: 2 }));
+    assert.deepStrictEqual(
+      timings.map(({ durationMs, ...timing }) => timing),
+      [
+        { apiMethod: 'track.get', executeTimeMs: 250, failed: false },
+        { apiMethod: 'track.get', executeTimeMs: 250, failed: true }
+      ]
+    );
+    timings.forEach((timing) => assert.ok(timing.durationMs >= 0));
+  });
+});
+
+describe('events', () => {
+  it('emits request, retry and response for a retried call', async () => {
+    const events = [];
+    const mxm = client(sequence([503, 200]));
+    ['request', 'retry', 'response', 'error'].forEach((name) =>
+      mxm.events.on(name, (payload) => events.push({ name, payload }))
+    );
+    await mxm.trackGet({ commontrack_id: 1 });
+    assert.deepStrictEqual(
+      events.map((event) => event.name),
+      ['request', 'retry', 'request', 'response']
+    );
+    assert.deepStrictEqual(events[0].payload, {
+      apiMethod: 'track.get',
+      method: 'get',
+      url: 'https://api.musixmatch.com/ws/1.1/track.get',
+      params: { commontrack_id: 1, apikey: '***' },
+      attempt: 1
+    });
+    assert.strictEqual(events[2].payload.attempt, 2);
+    assert.deepStrictEqual(events[1].payload, {
+      apiMethod: 'track.get',
+      attempt: 1,
+      delayMs: 1,
+      statusCode: 503,
+      error: undefined
+    });
+    const { durationMs, ...response } = events[3].payload;
+    assert.deepStrictEqual(response, {
+      apiMethod: 'track.get',
+      params: { commontrack_id: 1, apikey: '***' },
+      status: 200,
+      execute_time: 0.25,
+      cached: false,
+      attempts: 2
+    });
+  });
+
+  it('emits error once for a failed call', async () => {
+    const events = [];
+    const mxm = client(sequence([404]));
+    mxm.events.on('error', (payload) => events.push(payload));
+    await assert.rejects(mxm.trackGet({ commontrack_id: 1 }), NotFoundError);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].apiMethod, 'track.get');
+    assert.deepStrictEqual(events[0].params, {
+      commontrack_id: 1,
+      apikey: '***'
+    });
+    assert.ok(events[0].error instanceof NotFoundError);
+  });
+
+  it('marks cache hits', async () => {
+    const responses = [];
+    const transport = sequence([200]);
+    const mxm = client(transport, { cache: { defaultTtlMs: 60000 } });
+    mxm.events.on('response', (payload) => responses.push(payload));
+    await mxm.trackGet({ commontrack_id: 1 });
+    await mxm.trackGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls.length, 1);
+    assert.deepStrictEqual(
+      responses.map(({ cached, attempts, status }) => ({
+        cached,
+        attempts,
+        status
+      })),
+      [
+        { cached: false, attempts: 1, status: 200 },
+        { cached: true, attempts: 0, status: undefined }
+      ]
+    );
+  });
+});
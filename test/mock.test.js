@@ -0,0 +1,201 @@
+const assert = require('assert');
+const { after, before, describe, it } = require('node:test');
+const {
+  AuthError,
+  FetchTransport,
+  MockMusixmatchServer,
+  Musixmatch,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitedError
+} = require('../dist');
+const { CATALOG } = require('./endpoints');
+
+function client(baseUrl, apikey = 'test-key', options = {}) {
+  return new Musixmatch(apikey, {
+    baseUrl,
+    transport: new FetchTransport(),
+    validation: { mode: 'strict' },
+    retry: false,
+    ...options
+  });
+}
+
+describe('MockMusixmatchServer', () => {
+  const server = new MockMusixmatchServer({
+    apikey: 'test-key',
+    catalog: CATALOG
+  });
+  let mxm;
+
+  before(async () => {
+    mxm = client(await server.listen());
+  });
+
+  after(() => server.close());
+
+  it('serves the catalogue in the shape of the API', async () => {
+    const track = await mxm.tracks.get({ track_isrc: 'GBBKS1500214' });
+    assert.strictEqual(track.id, 84584600);
+    assert.strictEqual(track.hasLyrics, true);
+    assert.strictEqual(track.hasSubtitles, true);
+    assert.strictEqual(track.hasRichSync, true);
+
+    const lyrics = await mxm.tracks.lyrics({ track_id: 84584600 });
+    assert.match(lyrics.body, /^Hello, it's me/);
+    assert.strictEqual(lyrics.language, 'en');
+  });
+
+  it('matches titles loosely and searches words anywhere', async () => {
+    const { track } = await mxm.matcher.track({
+      q_track: 'hello (remastered)',
+      q_artist: 'ADELE'
+    });
+    assert.strictEqual(track.id, 84584600);
+
+    const tracks = await mxm.tracks.search({ q: 'adele lover' });
+    assert.deepStrictEqual(
+      tracks.map((found) => found.id),
+      [84584601]
+    );
+  });
+
+  it('paginates lists and reports the available count', async () => {
+    const page1 = await mxm.trackSearch({ q_artist: 'adele', page_size: 1 });
+    const page2 = await mxm.trackSearch({
+      q_artist: 'adele',
+      page_size: 1,
+      page: 2
+    });
+    assert.strictEqual(page1.message.header.available, 2);
+    assert.strictEqual(
+      page1.message.body.track_list[0].track.track_id,
+      84584600
+    );
+    assert.strictEqual(
+      page2.message.body.track_list[0].track.track_id,
+      84584601
+    );
+  });
+
+  it('serves moods, snippets and translations', async () => {
+    const mood = await mxm.tracks.mood({ commontrack_id: 5920049 });
+    assert.strictEqual(mood.valence, 0.21);
+
+    const snippet = await mxm.tracks.snippet({ track_id: 84584600 });
+    assert.strictEqual(snippet.body, "Hello, it's me");
+
+    const translation = await mxm.tracks.lyricsTranslation({
+      commontrack_id: 5920049,
+      selected_language: 'it'
+    });
+    assert.match(translation.body, /^Ciao, sono io/);
+  });
+
+  it('stores posted lyrics', async () => {
+    await mxm.trackLyricsPost({
+      commontrack_id: 5920050,
+      lyrics_body: 'This was all you'
+    });
+    const lyrics = await mxm.tracks.lyrics({ commontrack_id: 5920050 });
+    assert.strictEqual(lyrics.body, 'This was all you');
+  });
+
+  it('answers 404 for unknown entities and 405 for unknown methods', async () => {
+    await assert.rejects(mxm.artistGet({ artist_id: 1 }), NotFoundError);
+    const response = await new FetchTransport().request({
+      method: 'get',
+      url: `${server.url}track.unknown.get`,
+      params: { apikey: 'test-key' }
+    });
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.data.message.header.status_code, 405);
+  });
+
+  it('answers 401 to another apikey', async () => {
+    await assert.rejects(
+      client(server.url, 'wrong-key').trackGet({ commontrack_id: 5920049 }),
+      AuthError
+    );
+  });
+
+  it('forces a status per API method', async () => {
+    server.setStatus('track.get', 503);
+    try {
+      await assert.rejects(
+        mxm.trackGet({ commontrack_id: 5920049 }),
+        RateLimitedError
+      );
+      await mxm.albumGet({ album_id: 20828429 });
+    } finally {
+      server.setStatus('track.get');
+    }
+    await mxm.trackGet({ commontrack_id: 5920049 });
+  });
+
+  it('records every request with its params', async () => {
+    const before = server.requests.length;
+    await mxm.artistGet({ artist_id: 346898 });
+    assert.deepStrictEqual(server.requests.slice(before), [
+      {
+        apiMethod: 'artist.get',
+        params: { artist_id: '346898', apikey: 'test-key' }
+      }
+    ]);
+  });
+
+  it('answers without HTTP', () => {
+    const envelope = server.handle('album.get', {
+      album_id: '1',
+      apikey: 'test-key'
+    });
+    assert.deepStrictEqual(envelope, {
+      message: {
+        header: { status_code: 404, execute_time: 0.001 },
+        body: ''
+      }
+    });
+  });
+});
+
+describe('MockMusixmatchServer limits', () => {
+  it('answers 402 once the daily limit is reached', async () => {
+    const server = new MockMusixmatchServer({
+      catalog: CATALOG,
+      dailyLimit: 1
+    });
+    const mxm = client(await server.listen());
+    try {
+      await mxm.trackGet({ commontrack_id: 5920049 });
+      await assert.rejects(
+        mxm.trackGet({ commontrack_id: 5920049 }),
+        QuotaExceededError
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('delays every response by the latency', async () => {
+    const server = new MockMusixmatchServer({
+      catalog: CATALOG,
+      latencyMs: 50
+    });
+    const mxm = client(await server.listen());
+    try {
+      const started = Date.now();
+      await mxm.musicGenresGet();
+      assert.ok(Date.now() - started >= 45);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('stops listening on close', async () => {
+    const server = new MockMusixmatchServer();
+    const url = await server.listen();
+    await server.close();
+    assert.strictEqual(server.url, undefined);
+    await assert.rejects(fetch(`${url}music.genres.get`));
+  });
+});
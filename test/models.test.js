@@ -0,0 +1,259 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  toGenres,
+  toTrack,
+  toArtist,
+  toAlbum,
+  toLyrics,
+  toTranslation,
+  toMood
+} = require('../dist');
+
+const GENRES = {
+  music_genre_list: [
+    {
+      music_genre: {
+        music_genre_id: 14,
+        music_genre_parent_id: 34,
+        music_genre_name: 'Pop',
+        music_genre_name_extended: 'Pop',
+        music_genre_vanity: 'Pop'
+      }
+    }
+  ]
+};
+
+const TRACK = {
+  track_id: 84584600,
+  track_isrc: 'GBBKS1500214',
+  commontrack_isrcs: [['GBBKS1500214']],
+  track_name: 'Hello',
+  track_name_translation_list: [
+    { track_name_translation: { language: 'JA', translation: 'ハロー' } }
+  ],
+  track_rating: 99,
+  track_length: 295,
+  commontrack_id: 5920049,
+  instrumental: 0,
+  explicit: 1,
+  has_lyrics: 1,
+  has_subtitles: 0,
+  has_richsync: 1,
+  num_favourite: 12,
+  album_id: 20828429,
+  album_name: '25',
+  artist_id: 346898,
+  artist_name: 'Adele',
+  album_coverart_100x100: 'https://example.com/100.jpg',
+  track_share_url: 'https://www.musixmatch.com/lyrics/84584600',
+  track_edit_url: 'https://www.musixmatch.com/lyrics/84584600/edit',
+  restricted: 0,
+  updated_time: '2024-01-01T00:00:00Z',
+  primary_genres: GENRES
+};
+
+describe('models', () => {
+  it('maps a track to camelCase fields', () => {
+    const track = toTrack(TRACK);
+    assert.strictEqual(track.id, 84584600);
+    assert.strictEqual(track.isrc, 'GBBKS1500214');
+    assert.deepStrictEqual(track.commontrackIsrcs, [['GBBKS1500214']]);
+    assert.strictEqual(track.name, 'Hello');
+    assert.deepStrictEqual(track.nameTranslations, [
+      { language: 'JA', translation: 'ハロー' }
+    ]);
+    assert.strictEqual(track.commontrackId, 5920049);
+    assert.strictEqual(track.length, 295);
+    assert.strictEqual(track.numFavourite, 12);
+    assert.strictEqual(track.albumName, '25');
+    assert.strictEqual(track.artistName, 'Adele');
+    assert.strictEqual(
+      track.albumCoverart100x100,
+      'https://example.com/100.jpg'
+    );
+    assert.strictEqual(
+      track.shareUrl,
+      'https://www.musixmatch.com/lyrics/84584600'
+    );
+    assert.deepStrictEqual(
+      track.updatedTime,
+      new Date(Date.UTC(2024, 0, 1, 0, 0, 0))
+    );
+  });
+
+  it('turns 0/1 flags into booleans', () => {
+    const track = toTrack(TRACK);
+    assert.strictEqual(track.instrumental, false);
+    assert.strictEqual(track.explicit, true);
+    assert.strictEqual(track.hasLyrics, true);
+    assert.strictEqual(track.hasSubtitles, false);
+    assert.strictEqual(track.hasRichSync, true);
+    assert.strictEqual(track.restricted, false);
+    assert.strictEqual(toTrack({ ...TRACK, restricted: 1 }).restricted, true);
+  });
+
+  it('leaves optional track fields undefined and lists empty', () => {
+    const {
+      track_isrc,
+      commontrack_isrcs,
+      track_length,
+      track_name_translation_list,
+      album_coverart_100x100,
+      updated_time,
+      ...bare
+    } = TRACK;
+    const track = toTrack({ ...bare, updated_time: 'not a date' });
+    assert.strictEqual(track.isrc, undefined);
+    assert.strictEqual(track.commontrackIsrcs, undefined);
+    assert.strictEqual(track.length, undefined);
+    assert.strictEqual(track.lyricsId, undefined);
+    assert.strictEqual(track.albumCoverart100x100, undefined);
+    assert.strictEqual(track.updatedTime, undefined);
+    assert.deepStrictEqual(track.nameTranslations, []);
+    assert.deepStrictEqual(track.secondaryGenres, []);
+  });
+
+  it('flattens genre lists', () => {
+    assert.deepStrictEqual(toGenres(GENRES), [
+      { id: 14, parentId: 34, name: 'Pop', nameExtended: 'Pop', vanity: 'Pop' }
+    ]);
+    assert.deepStrictEqual(toGenres(undefined), []);
+    assert.deepStrictEqual(toGenres({ music_genre_list: [] }), []);
+  });
+
+  it('maps an artist, turning empty strings into undefined', () => {
+    const artist = toArtist({
+      artist_id: 346898,
+      artist_mbid: '',
+      artist_name: 'Adele',
+      artist_comment: '',
+      artist_country: 'GB',
+      artist_alias_list: [{ artist_alias: 'アデル' }],
+      artist_rating: 80,
+      artist_twitter_url: '',
+      artist_credits: {
+        artist_list: [
+          {
+            artist: {
+              artist_id: 1,
+              artist_mbid: '',
+              artist_name: 'Featured',
+              artist_alias_list: [],
+              artist_rating: 0,
+              updated_time: ''
+            }
+          }
+        ]
+      },
+      restricted: 1,
+      begin_date: '1988-05-05',
+      end_date: '',
+      updated_time: '2024-01-01T00:00:00Z'
+    });
+    assert.strictEqual(artist.id, 346898);
+    assert.strictEqual(artist.mbid, '');
+    assert.strictEqual(artist.comment, undefined);
+    assert.strictEqual(artist.country, 'GB');
+    assert.deepStrictEqual(artist.aliases, ['アデル']);
+    assert.strictEqual(artist.twitterUrl, undefined);
+    assert.strictEqual(artist.credits.length, 1);
+    assert.strictEqual(artist.credits[0].name, 'Featured');
+    assert.strictEqual(artist.credits[0].updatedTime, undefined);
+    assert.strictEqual(artist.restricted, true);
+    assert.strictEqual(artist.beginDate, '1988-05-05');
+    assert.strictEqual(artist.endDate, undefined);
+    assert.deepStrictEqual(artist.primaryGenres, []);
+  });
+
+  it('maps an album', () => {
+    const album = toAlbum({
+      album_id: 20828429,
+      album_mbid: '',
+      album_name: '25',
+      album_rating: 90,
+      album_track_count: 11,
+      album_release_date: '2015-11-20',
+      artist_id: 346898,
+      artist_name: 'Adele',
+      primary_genres: GENRES,
+      album_pline: '℗ 2015 XL',
+      album_copyright: '© 2015 XL',
+      album_label: 'XL Recordings',
+      restricted: 0,
+      updated_time: '2024-01-01T00:00:00Z'
+    });
+    assert.strictEqual(album.id, 20828429);
+    assert.strictEqual(album.name, '25');
+    assert.strictEqual(album.trackCount, 11);
+    assert.strictEqual(album.releaseDate, '2015-11-20');
+    assert.strictEqual(album.releaseType, undefined);
+    assert.strictEqual(album.pline, '℗ 2015 XL');
+    assert.strictEqual(album.label, 'XL Recordings');
+    assert.strictEqual(album.restricted, false);
+    assert.strictEqual(album.primaryGenres[0].name, 'Pop');
+  });
+
+  it('keeps an unknown explicit flag of lyrics undefined', () => {
+    const raw = {
+      lyrics_id: 1,
+      restricted: 0,
+      instrumental: 1,
+      lyrics_body: '',
+      lyrics_language: 'en',
+      script_tracking_url: 'https://tracking.musixmatch.com/t1.0/script',
+      pixel_tracking_url: 'https://tracking.musixmatch.com/t1.0/pixel',
+      lyrics_copyright: 'Lyrics powered by www.musixmatch.com',
+      updated_time: '2024-01-01T00:00:00Z'
+    };
+    const lyrics = toLyrics(raw);
+    assert.strictEqual(lyrics.explicit, undefined);
+    assert.strictEqual(lyrics.instrumental, true);
+    assert.strictEqual(lyrics.copyright, raw.lyrics_copyright);
+    assert.strictEqual(lyrics.pixelTrackingUrl, raw.pixel_tracking_url);
+    assert.strictEqual(toLyrics({ ...raw, explicit: 0 }).explicit, false);
+  });
+
+  it('reads the body of lyrics and subtitle translations', () => {
+    const lyrics = toTranslation({
+      selected_language: 'it',
+      restricted: 0,
+      lyrics_body: 'Ciao, sono io',
+      translation_ratio: 1
+    });
+    assert.deepStrictEqual(lyrics, {
+      language: 'it',
+      restricted: false,
+      body: 'Ciao, sono io',
+      ratio: 1,
+      copyright: undefined,
+      scriptTrackingUrl: undefined,
+      pixelTrackingUrl: undefined,
+      htmlTrackingUrl: undefined
+    });
+    const subtitle = toTranslation({
+      selected_language: 'it',
+      restricted: 1,
+      subtitle_body: '[00:01.00] Ciao'
+    });
+    assert.strictEqual(subtitle.body, '[00:01.00] Ciao');
+    assert.strictEqual(subtitle.restricted, true);
+  });
+
+  it('gives a mood only with a numeric valence and arousal', () => {
+    const mood = {
+      mood_list: [{ label: 'Sad', value: 0.8 }],
+      raw_data: { valence: 0.2, arousal: 0.3 }
+    };
+    assert.deepStrictEqual(toMood(mood), {
+      labels: [{ label: 'Sad', value: 0.8 }],
+      valence: 0.2,
+      arousal: 0.3
+    });
+    assert.strictEqual(toMood({ mood_list: [] }), undefined);
+    assert.strictEqual(
+      toMood({ mood_list: [], raw_data: { valence: 0.2, arousal: null } }),
+      undefined
+    );
+  });
+});
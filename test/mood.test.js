@@ -0,0 +1,227 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  NotFoundError,
+  ResponseShapeError,
+  buildMoodProfile,
+  moodQuadrant,
+  orderByTrajectory
+} = require('../dist');
+
+/**
+ * A transport answering `track.lyrics.mood.get` with `moods[id]`, keyed by
+ * commontrack id or ISRC: a body, or a status code.
+ */
+function moodsOf(moods) {
+  const transport = {
+    calls: [],
+    request: async (req) => {
+      const id = req.params.commontrack_id ?? req.params.track_isrc;
+      transport.calls.push(id);
+      const answer = moods[id] ?? 404;
+      return {
+        status: 200,
+        data: {
+          message: {
+            header: {
+              status_code: typeof answer === 'number' ? answer : 200,
+              execute_time: 0
+            },
+            body: typeof answer === 'number' ? '' : answer
+          }
+        }
+      };
+    }
+  };
+  return transport;
+}
+
+function mood(valence, arousal, ...labels) {
+  return {
+    valence,
+    arousal,
+    labels: labels.map((label) => ({ label, value: 0.5 }))
+  };
+}
+
+describe('moodQuadrant', () => {
+  it('places a point in its quadrant', () => {
+    assert.strictEqual(moodQuadrant({ valence: 0.9, arousal: 0.8 }), 'happy');
+    assert.strictEqual(moodQuadrant({ valence: 0.1, arousal: 0.8 }), 'angry');
+    assert.strictEqual(moodQuadrant({ valence: 0.1, arousal: 0.2 }), 'sad');
+    assert.strictEqual(moodQuadrant({ valence: 0.9, arousal: 0.2 }), 'calm');
+  });
+
+  it('counts values on the center as high', () => {
+    assert.strictEqual(moodQuadrant({ valence: 0.5, arousal: 0.5 }), 'happy');
+    assert.strictEqual(moodQuadrant({ valence: 0.49, arousal: 0.5 }), 'angry');
+    assert.strictEqual(moodQuadrant({ valence: 0.5, arousal: 0.49 }), 'calm');
+  });
+
+  it('takes another center', () => {
+    assert.strictEqual(
+      moodQuadrant({ valence: 0.6, arousal: 0.6 }, 0.7),
+      'sad'
+    );
+  });
+});
+
+describe('buildMoodProfile', () => {
+  it('computes the mean and the population variance', () => {
+    const profile = buildMoodProfile([
+      { track: 1, mood: mood(0.2, 0.1) },
+      { track: 2, mood: mood(0.4, 0.5) },
+      { track: 3, mood: mood(0.9, 0.9) }
+    ]);
+    assert.ok(Math.abs(profile.valence.mean - 0.5) < 1e-9);
+    assert.ok(Math.abs(profile.valence.variance - 0.26 / 3) < 1e-9);
+    assert.ok(Math.abs(profile.arousal.mean - 0.5) < 1e-9);
+    assert.ok(Math.abs(profile.arousal.variance - 0.32 / 3) < 1e-9);
+  });
+
+  it('counts the labels and the quadrants', () => {
+    const profile = buildMoodProfile([
+      { track: 1, mood: mood(0.2, 0.1, 'Sad', 'Romantic') },
+      { track: 'USUM71703861', mood: mood(0.8, 0.9, 'Happy') },
+      { track: 3, mood: mood(0.1, 0.3, 'Sad') }
+    ]);
+    assert.deepStrictEqual(profile.labels, { Sad: 2, Romantic: 1, Happy: 1 });
+    assert.deepStrictEqual(profile.quadrants, {
+      happy: 1,
+      angry: 0,
+      sad: 2,
+      calm: 0
+    });
+    assert.deepStrictEqual(profile.tracks[1], {
+      track: 'USUM71703861',
+      valence: 0.8,
+      arousal: 0.9,
+      quadrant: 'happy',
+      labels: [{ label: 'Happy', value: 0.5 }]
+    });
+    assert.deepStrictEqual(profile.missing, []);
+  });
+
+  it('reports zeros for no track', () => {
+    const profile = buildMoodProfile([]);
+    assert.deepStrictEqual(profile.valence, { mean: 0, variance: 0 });
+    assert.deepStrictEqual(profile.arousal, { mean: 0, variance: 0 });
+    assert.deepStrictEqual(profile.labels, {});
+  });
+});
+
+describe('orderByTrajectory', () => {
+  const tracks = [
+    { track: 'loud', valence: 0.5, arousal: 0.9 },
+    { track: 'quiet', valence: 0.5, arousal: 0.1 },
+    { track: 'dark', valence: 0.1, arousal: 0.5 },
+    { track: 'bright', valence: 0.9, arousal: 0.4 }
+  ];
+  const order = (trajectory) =>
+    orderByTrajectory(tracks, trajectory).map(({ track }) => track);
+
+  it('orders along the presets', () => {
+    assert.deepStrictEqual(order('calm-to-energetic'), [
+      'quiet',
+      'bright',
+      'dark',
+      'loud'
+    ]);
+    assert.deepStrictEqual(order('energetic-to-calm'), [
+      'loud',
+      'dark',
+      'bright',
+      'quiet'
+    ]);
+    assert.deepStrictEqual(order('sad-to-happy'), [
+      'dark',
+      'loud',
+      'quiet',
+      'bright'
+    ]);
+    assert.deepStrictEqual(order('happy-to-sad'), [
+      'bright',
+      'loud',
+      'quiet',
+      'dark'
+    ]);
+  });
+
+  it('orders along any two points', () => {
+    assert.deepStrictEqual(
+      order({
+        from: { valence: 0, arousal: 0 },
+        to: { valence: 1, arousal: 1 }
+      }),
+      ['quiet', 'dark', 'bright', 'loud']
+    );
+  });
+
+  it('keeps the order of tracks at the same position', () => {
+    const ties = [
+      { track: 'a', valence: 0.2, arousal: 0.5 },
+      { track: 'b', valence: 0.8, arousal: 0.5 },
+      { track: 'c', valence: 0.5, arousal: 0.1 }
+    ];
+    assert.deepStrictEqual(
+      orderByTrajectory(ties, 'calm-to-energetic').map(({ track }) => track),
+      ['c', 'a', 'b']
+    );
+  });
+
+  it('returns a new array', () => {
+    const ordered = orderByTrajectory(tracks, 'calm-to-energetic');
+    assert.notStrictEqual(ordered, tracks);
+    assert.strictEqual(tracks[0].track, 'loud');
+  });
+});
+
+describe('profileMoods', () => {
+  it('fetches by commontrack id or ISRC and lists the missing tracks', async () => {
+    const transport = moodsOf({
+      5920049: {
+        mood_list: [{ label: 'Sad', value: 0.82 }],
+        raw_data: { valence: 0.21, arousal: 0.34 }
+      },
+      USUM71703861: {
+        mood_list: [{ label: 'Happy', value: 0.7 }],
+        raw_data: { valence: 0.8, arousal: 0.6 }
+      },
+      42: { mood_list: [], raw_data: { valence: null, arousal: 0.5 } }
+    });
+    const mxm = new Musixmatch('test-key', { transport, retry: false });
+    const profile = await mxm.profileMoods([5920049, 'USUM71703861', 42, 7]);
+
+    assert.deepStrictEqual(transport.calls.map(String).sort(), [
+      '42',
+      '5920049',
+      '7',
+      'USUM71703861'
+    ]);
+    assert.deepStrictEqual(
+      profile.tracks.map(({ track, quadrant }) => [track, quadrant]),
+      [
+        [5920049, 'sad'],
+        ['USUM71703861', 'happy']
+      ]
+    );
+    assert.deepStrictEqual(
+      profile.missing.map(({ track }) => track),
+      [42, 7]
+    );
+    assert.ok(profile.missing[0].reason instanceof ResponseShapeError);
+    assert.ok(profile.missing[1].reason instanceof NotFoundError);
+    assert.ok(Math.abs(profile.valence.mean - 0.505) < 1e-9);
+    assert.deepStrictEqual(profile.labels, { Sad: 1, Happy: 1 });
+  });
+
+  it('passes the center on', async () => {
+    const transport = moodsOf({
+      1: { mood_list: [], raw_data: { valence: 0.6, arousal: 0.6 } }
+    });
+    const mxm = new Musixmatch('test-key', { transport, retry: false });
+    const profile = await mxm.profileMoods([1], { center: 0.7 });
+    assert.strictEqual(profile.tracks[0].quadrant, 'sad');
+  });
+});
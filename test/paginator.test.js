@@ -0,0 +1,121 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const { AbortError, Musixmatch } = require('../dist');
+
+/**
+ * A transport serving `total` tracks page by page, with `header.available`
+ * when `reportAvailable` is set. Pages past the end are empty.
+ */
+function catalogue(total, reportAvailable = false) {
+  const transport = {
+    pages: [],
+    request: async ({ params }) => {
+      const page = Number(params.page);
+      const pageSize = Number(params.page_size);
+      transport.pages.push(page);
+      const list = [];
+      for (
+        let id = (page - 1) * pageSize + 1;
+        id <= Math.min(total, page * pageSize);
+        id++
+      ) {
+        list.push({ track: { track_id: id } });
+      }
+      const header = { status_code: 200 };
+      if (reportAvailable) {
+        header.available = total;
+      }
+      return {
+        status: 200,
+        data: { message: { header, body: { track_list: list } } }
+      };
+    }
+  };
+  return transport;
+}
+
+async function ids(iterator) {
+  const found = [];
+  for await (const track of iterator) {
+    found.push(track.track_id);
+  }
+  return found;
+}
+
+function client(transport) {
+  return new Musixmatch('test-key', { transport, retry: false });
+}
+
+describe('paginate', () => {
+  it('stops at the first short page', async () => {
+    const transport = catalogue(7);
+    const found = await ids(
+      client(transport).paginate.trackSearch({ q: 'a', page_size: 3 })
+    );
+    assert.deepStrictEqual(found, [1, 2, 3, 4, 5, 6, 7]);
+    assert.deepStrictEqual(transport.pages, [1, 2, 3]);
+  });
+
+  it('stops once header.available items have been seen', async () => {
+    const transport = catalogue(6, true);
+    const found = await ids(
+      client(transport).paginate.trackSearch({ q: 'a', page_size: 3 })
+    );
+    assert.strictEqual(found.length, 6);
+    // Without available, a third and empty page would have been fetched.
+    assert.deepStrictEqual(transport.pages, [1, 2]);
+  });
+
+  it('stops at maxItems without fetching another page', async () => {
+    const transport = catalogue(100);
+    const found = await ids(
+      client(transport).paginate.albumTracksGet(
+        { album_id: 1, page_size: 3 },
+        { maxItems: 5 }
+      )
+    );
+    assert.deepStrictEqual(found, [1, 2, 3, 4, 5]);
+    assert.deepStrictEqual(transport.pages, [1, 2]);
+  });
+
+  it('starts at the given page and defaults page_size to 100', async () => {
+    const transport = catalogue(150);
+    const found = await ids(
+      client(transport).paginate.chartTracksGet({ page: 2 })
+    );
+    assert.strictEqual(found.length, 50);
+    assert.strictEqual(found[0], 101);
+    assert.deepStrictEqual(transport.pages, [2]);
+  });
+
+  it('stops fetching when the loop breaks', async () => {
+    const transport = catalogue(100);
+    for await (const track of client(transport).paginate.trackSearch({
+      page_size: 2
+    })) {
+      if (track.track_id === 3) {
+        break;
+      }
+    }
+    assert.deepStrictEqual(transport.pages, [1, 2]);
+  });
+
+  it('throws an AbortError once the signal is aborted', async () => {
+    const transport = catalogue(100);
+    const controller = new AbortController();
+    const found = [];
+    await assert.rejects(async () => {
+      for await (const track of client(transport).paginate.trackSearch(
+        { page_size: 2 },
+        { signal: controller.signal }
+      )) {
+        found.push(track.track_id);
+        if (found.length === 3) {
+          controller.abort();
+        }
+      }
+    }, AbortError);
+    assert.deepStrictEqual(found, [1, 2, 3]);
+    assert.deepStrictEqual(transport.pages, [1, 2]);
+  });
+});
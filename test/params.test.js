@@ -0,0 +1,167 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AuthError,
+  InvalidParamsError,
+  Musixmatch,
+  NotFoundError,
+  redactParams
+} = require('../dist');
+
+const APIKEY = 'secret-key-123';
+
+/**
+ * A transport that records every request and answers an empty body with the
+ * given header-level status.
+ */
+function recorder(statusCode = 200) {
+  const transport = {
+    requests: [],
+    request: async (request) => {
+      transport.requests.push(request);
+      return {
+        status: 200,
+        data: { message: { header: { status_code: statusCode }, body: '' } }
+      };
+    }
+  };
+  return transport;
+}
+
+describe('params', () => {
+  const transport = recorder();
+  const mxm = new Musixmatch(APIKEY, { transport });
+
+  function lastParams() {
+    const { apikey, ...params } =
+      transport.requests[transport.requests.length - 1].params;
+    return params;
+  }
+
+  describe('validation', () => {
+    it('normalizes numbers, flags and enums', async () => {
+      await mxm.trackSearch({
+        q_artist: 'adele',
+        page: '2',
+        page_size: 5,
+        f_has_lyrics: true,
+        s_track_rating: 'DESC'
+      });
+      assert.deepStrictEqual(lastParams(), {
+        q_artist: 'adele',
+        page: 2,
+        page_size: 5,
+        f_has_lyrics: 1,
+        s_track_rating: 'desc'
+      });
+    });
+
+    it('leaves out false flags and undefined values', async () => {
+      await mxm.trackSearch({
+        q_track: 'hello',
+        q_artist: undefined,
+        f_has_lyrics: false
+      });
+      assert.deepStrictEqual(lastParams(), { q_track: 'hello' });
+    });
+
+    it('accepts the deprecated key=value strings', async () => {
+      await mxm.trackSearch('q_lyrics=a=b', 'page_size=1');
+      assert.deepStrictEqual(lastParams(), {
+        q_lyrics: 'a=b',
+        page_size: 1
+      });
+    });
+
+    const invalid = [
+      ['an unknown parameter', 'trackGet', { track_id: 1 }, 'track_id'],
+      [
+        'a non-numeric id',
+        'trackGet',
+        { commontrack_id: 'abc' },
+        'commontrack_id'
+      ],
+      ['a non-integer page', 'trackSearch', { page: 1.5 }, 'page'],
+      ['a page size over 100', 'trackSearch', { page_size: 101 }, 'page_size'],
+      [
+        'a ratio over 1',
+        'trackLyricsTranslationGet',
+        { selected_language: 'it', min_completed: 2 },
+        'min_completed'
+      ],
+      [
+        'a bad enum value',
+        'chartTracksGet',
+        { chart_name: 'best' },
+        'chart_name'
+      ],
+      ['a bad flag', 'trackSearch', { f_has_lyrics: 'yes' }, 'f_has_lyrics'],
+      [
+        'a bad date',
+        'trackSearch',
+        { f_track_release_group_first_release_date_min: '2020-01-01' },
+        'f_track_release_group_first_release_date_min'
+      ],
+      [
+        'a missing required parameter',
+        'trackLyricsTranslationGet',
+        { commontrack_id: 1 },
+        'selected_language'
+      ]
+    ];
+
+    invalid.forEach(([name, method, params, param]) => {
+      it(`rejects ${name} before sending`, async () => {
+        const sent = transport.requests.length;
+        await assert.rejects(mxm[method](params), (error) => {
+          assert.ok(error instanceof InvalidParamsError);
+          assert.strictEqual(error.param, param);
+          return true;
+        });
+        assert.strictEqual(transport.requests.length, sent);
+      });
+    });
+  });
+
+  describe('redaction', () => {
+    it('masks the apikey', () => {
+      assert.deepStrictEqual(
+        redactParams({ apikey: APIKEY, track_id: 1, q: true }),
+        { apikey: '***', track_id: 1, q: 'true' }
+      );
+    });
+
+    it('keeps the apikey out of API errors', async () => {
+      const missing = new Musixmatch(APIKEY, { transport: recorder(404) });
+      const error = await missing.trackGet({ commontrack_id: 404 }).then(
+        () => assert.fail('expected a NotFoundError'),
+        (error) => error
+      );
+      assert.ok(error instanceof NotFoundError);
+      assert.strictEqual(error.params.apikey, '***');
+      assert.strictEqual(error.params.commontrack_id, 404);
+      assert.ok(error.message.indexOf(APIKEY) === -1);
+    });
+
+    it('keeps a rejected apikey out of auth errors', async () => {
+      const other = new Musixmatch('wrong-key-456', {
+        transport: recorder(401)
+      });
+      const error = await other.trackGet({ commontrack_id: 1 }).then(
+        () => assert.fail('expected an AuthError'),
+        (error) => error
+      );
+      assert.ok(error instanceof AuthError);
+      assert.strictEqual(error.params.apikey, '***');
+      assert.ok(JSON.stringify(error).indexOf('wrong-key-456') === -1);
+      assert.ok(error.message.indexOf('wrong-key-456') === -1);
+    });
+
+    it('masks the apikey in request events', async () => {
+      const events = [];
+      mxm.events.on('request', (event) => events.push(event));
+      await mxm.trackGet({ commontrack_id: 1 });
+      assert.strictEqual(events[0].params.apikey, '***');
+    });
+  });
+});
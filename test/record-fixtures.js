@@ -0,0 +1,54 @@
+/**
+ * Re-records test/fixtures from a MockMusixmatchServer serving CATALOG.
+ * Requests keep the default API URL, so the fixture keys match what a client
+ * with the default `baseUrl` asks for in replay mode.
+ *
+ * Run with `npm run record-fixtures`.
+ */
+const fs = require('fs');
+const path = require('path');
+const {
+  FetchTransport,
+  FileFixtureStore,
+  MockMusixmatchServer,
+  Musixmatch,
+  RecordingTransport
+} = require('../dist');
+const { CATALOG, CALLS, send } = require('./endpoints');
+
+const API_URL = 'https://api.musixmatch.com/ws/1.1/';
+const DIR = path.join(__dirname, 'fixtures');
+
+async function record() {
+  const server = new MockMusixmatchServer({ catalog: CATALOG });
+  const url = await server.listen();
+  const fetchTransport = new FetchTransport();
+  // Only the status and the body are kept: the server's own headers (date,
+  // connection) would change on every recording.
+  const toServer = {
+    request: (request) =>
+      fetchTransport
+        .request({ ...request, url: url + request.url.slice(API_URL.length) })
+        .then(({ status, data }) => ({ status, data }))
+  };
+
+  fs.rmSync(DIR, { recursive: true, force: true });
+  const mxm = new Musixmatch('fixture-key', {
+    transport: new RecordingTransport(toServer, new FileFixtureStore(DIR)),
+    validation: { mode: 'strict' },
+    retry: false
+  });
+  try {
+    for (const call of CALLS) {
+      await send(mxm, call);
+    }
+  } finally {
+    await server.close();
+  }
+  console.log(`Recorded ${CALLS.length} fixtures in ${DIR}`);
+}
+
+record().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { describe, it } = require('node:test');
+const { FixtureNotFoundError, Musixmatch } = require('../dist');
+const { CALLS, send } = require('./endpoints');
+
+const DIR = path.join(__dirname, 'fixtures');
+
+function replayClient() {
+  return new Musixmatch('replay-key', {
+    fixtures: { mode: 'replay', dir: DIR },
+    validation: { mode: 'strict' },
+    retry: false
+  });
+}
+
+describe('replayed fixtures', () => {
+  it('has one fixture per call', () => {
+    assert.strictEqual(fs.readdirSync(DIR).length, CALLS.length);
+  });
+
+  CALLS.forEach((call) => {
+    it(`replays ${call[0]}`, async () => {
+      const response = await send(replayClient(), call);
+      assert.strictEqual(response.message.header.status_code, 200);
+    });
+  });
+
+  it('never stores the apikey', () => {
+    fs.readdirSync(DIR).forEach((file) => {
+      const fixture = JSON.parse(fs.readFileSync(path.join(DIR, file), 'utf8'));
+      assert.strictEqual(fixture.request.params.apikey, undefined);
+    });
+  });
+
+  it('rejects a request that was never recorded', async () => {
+    await assert.rejects(
+      replayClient().trackGet({ commontrack_id: 1 }),
+      FixtureNotFoundError
+    );
+  });
+
+  it('serves the models of the resources', async () => {
+    const mxm = replayClient();
+    const track = await mxm.tracks.get({ commontrack_id: 5920049 });
+    assert.strictEqual(track.name, 'Hello');
+    assert.strictEqual(track.artistName, 'Adele');
+    assert.ok(track.updatedTime instanceof Date);
+
+    const lyrics = await mxm.tracks.lyrics({ commontrack_id: 5920049 });
+    assert.match(lyrics.body, /^Hello, it's me/);
+
+    const mood = await mxm.tracks.mood({ commontrack_id: 5920049 });
+    assert.deepStrictEqual(
+      { valence: mood.valence, arousal: mood.arousal },
+      { valence: 0.21, arousal: 0.34 }
+    );
+  });
+
+  it('aligns a synced translation', async () => {
+    const aligned = await replayClient().alignTranslation({
+      commontrack_id: 5920049,
+      selected_language: 'it'
+    });
+    assert.ok(aligned && aligned.synced);
+    assert.deepStrictEqual(
+      aligned.lines
+        .filter((line) => line.text)
+        .map((line) => [line.time_ms, line.translation]),
+      [
+        [1000, 'Ciao, sono io'],
+        [5500, 'Mi chiedevo se dopo tutti questi anni']
+      ]
+    );
+    assert.strictEqual(aligned.complete, true);
+  });
+});
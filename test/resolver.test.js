@@ -0,0 +1,312 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AuthError,
+  Musixmatch,
+  normalizeTitle,
+  scoreCandidate
+} = require('../dist');
+
+const HEY_JUDE = { title: 'Hey Jude', artist: 'The Beatles', durationSec: 431 };
+
+function track(fields) {
+  return {
+    track_id: 1,
+    track_name: 'Hey Jude',
+    track_name_translation_list: [],
+    track_rating: 90,
+    track_length: 431,
+    commontrack_id: 100,
+    instrumental: 0,
+    explicit: 0,
+    has_lyrics: 1,
+    has_subtitles: 0,
+    has_richsync: 0,
+    num_favourite: 0,
+    album_id: 2,
+    album_name: 'Hey Jude',
+    artist_id: 3,
+    artist_name: 'The Beatles',
+    track_share_url: '',
+    track_edit_url: '',
+    restricted: 0,
+    updated_time: '2024-01-01T00:00:00Z',
+    primary_genres: { music_genre_list: [] },
+    ...fields
+  };
+}
+
+function envelope(body, statusCode = 200) {
+  return {
+    message: { header: { status_code: statusCode, execute_time: 0.01 }, body }
+  };
+}
+
+const NOT_FOUND = envelope('', 404);
+
+const LYRICS = {
+  lyrics: {
+    lyrics_id: 9,
+    restricted: 0,
+    instrumental: 0,
+    lyrics_body: "Hey Jude, don't make it bad",
+    lyrics_language: 'en',
+    script_tracking_url: '',
+    pixel_tracking_url: '',
+    lyrics_copyright: '',
+    updated_time: '2024-01-01T00:00:00Z'
+  }
+};
+
+/**
+ * A client answering each API method with the given body or envelope, and
+ * recording the calls.
+ */
+function client(answers) {
+  const transport = {
+    calls: [],
+    request: async (req) => {
+      const apiMethod = req.url.split('/').pop();
+      transport.calls.push({ apiMethod, params: req.params });
+      const answer = answers[apiMethod] ?? NOT_FOUND;
+      return {
+        status: 200,
+        data: answer.message ? answer : envelope(answer)
+      };
+    }
+  };
+  const mxm = new Musixmatch('test-key', { transport, retry: false });
+  return { mxm, transport };
+}
+
+function methods(transport) {
+  return transport.calls.map((call) => call.apiMethod);
+}
+
+describe('resolver', () => {
+  describe('normalizeTitle', () => {
+    it('drops versions, brackets and featured artists', () => {
+      assert.strictEqual(
+        normalizeTitle('Hey Jude - Remastered 2015'),
+        'hey jude'
+      );
+      assert.strictEqual(normalizeTitle('Hey Jude (Live)'), 'hey jude');
+      assert.strictEqual(normalizeTitle('Work feat. Drake'), 'work');
+      assert.strictEqual(normalizeTitle('Déjà Vu!'), 'deja vu');
+    });
+
+    it('keeps suffixes that are part of the title', () => {
+      assert.strictEqual(
+        normalizeTitle('Part One - The Beginning'),
+        'part one the beginning'
+      );
+    });
+
+    it('falls back to the input when nothing would be left', () => {
+      assert.strictEqual(normalizeTitle('(Intro)'), 'intro');
+      assert.strictEqual(normalizeTitle('...'), '...');
+    });
+  });
+
+  describe('scoreCandidate', () => {
+    const candidate = {
+      name: 'Hey Jude - Remastered 2015',
+      artistName: 'The Beatles',
+      albumName: 'Hey Jude',
+      length: 431
+    };
+
+    it('gives 1 to an exact match', () => {
+      assert.strictEqual(scoreCandidate(HEY_JUDE, candidate), 1);
+    });
+
+    it('lowers the score with the duration difference', () => {
+      const near = scoreCandidate(HEY_JUDE, { ...candidate, length: 426 });
+      const far = scoreCandidate(HEY_JUDE, { ...candidate, length: 600 });
+      assert.ok(near < 1 && near > far);
+      // Title and artist match, the duration signal is 0.
+      assert.strictEqual(far, 0.8);
+    });
+
+    it('leaves out signals missing on either side', () => {
+      assert.strictEqual(
+        scoreCandidate(
+          { title: 'Hey Jude', artist: 'The Beatles' },
+          {
+            ...candidate,
+            length: 600,
+            albumName: 'Past Masters'
+          }
+        ),
+        1
+      );
+    });
+
+    it('matches the main artist only', () => {
+      assert.strictEqual(
+        scoreCandidate(
+          { title: 'Work', artist: 'Rihanna' },
+          { name: 'Work', artistName: 'Rihanna feat. Drake' }
+        ),
+        1
+      );
+    });
+
+    it('trusts a matching ISRC', () => {
+      const other = { name: 'Something Else', artistName: 'Someone' };
+      assert.ok(scoreCandidate(HEY_JUDE, other) < 0.5);
+      assert.strictEqual(
+        scoreCandidate(
+          { ...HEY_JUDE, isrc: 'gbaye0601477' },
+          {
+            ...other,
+            isrc: 'GBAYE0601477'
+          }
+        ),
+        0.95
+      );
+      assert.strictEqual(
+        scoreCandidate(
+          { ...HEY_JUDE, isrc: 'GBAYE0601477' },
+          {
+            ...other,
+            commontrackIsrcs: [['USCA29600001'], ['GBAYE0601477']]
+          }
+        ),
+        0.95
+      );
+    });
+  });
+
+  describe('resolveLyrics', () => {
+    it('stops at a confident matcher result', async () => {
+      const { mxm, transport } = client({
+        'matcher.track.get': { track: track() },
+        'track.lyrics.get': LYRICS
+      });
+      const result = await mxm.resolveLyrics({
+        ...HEY_JUDE,
+        isrc: 'GBAYE0601477'
+      });
+      assert.deepStrictEqual(methods(transport), [
+        'matcher.track.get',
+        'track.lyrics.get'
+      ]);
+      assert.strictEqual(result.source, 'matcher');
+      assert.strictEqual(result.confidence, 1);
+      assert.strictEqual(result.track.commontrackId, 100);
+      assert.strictEqual(result.lyrics.body, "Hey Jude, don't make it bad");
+      assert.strictEqual(result.synced, undefined);
+      assert.strictEqual(transport.calls[1].params.commontrack_id, 100);
+    });
+
+    it('falls back to a search and keeps its best candidate', async () => {
+      const { mxm, transport } = client({
+        'track.search': {
+          track_list: [
+            { track: track({ commontrack_id: 1, track_name: 'Hey Bulldog' }) },
+            { track: track({ commontrack_id: 2, track_length: 300 }) },
+            { track: track({ commontrack_id: 3 }) }
+          ]
+        }
+      });
+      const result = await mxm.resolveLyrics(
+        {
+          title: 'Hey Jude (Remastered)',
+          artist: 'The Beatles',
+          durationSec: 431
+        },
+        { synced: false }
+      );
+      assert.deepStrictEqual(methods(transport), [
+        'matcher.track.get',
+        'track.search',
+        'track.lyrics.get'
+      ]);
+      assert.strictEqual(
+        transport.calls[1].params.q_track_artist,
+        'hey jude The Beatles'
+      );
+      assert.strictEqual(result.source, 'search');
+      assert.strictEqual(result.track.commontrackId, 3);
+      assert.strictEqual(result.lyrics, undefined);
+    });
+
+    it('looks the ISRC up last', async () => {
+      const { mxm, transport } = client({
+        'matcher.track.get': {
+          track: track({ track_name: 'Hey Bulldog', track_length: 190 })
+        },
+        'track.search': { track_list: [] },
+        'track.get': {
+          track: track({
+            track_name: 'Hey Jude (2018 Mix)',
+            track_isrc: 'GBAYE0601477',
+            has_lyrics: 0
+          })
+        }
+      });
+      const result = await mxm.resolveLyrics({
+        ...HEY_JUDE,
+        isrc: 'GBAYE0601477'
+      });
+      assert.deepStrictEqual(methods(transport), [
+        'matcher.track.get',
+        'track.search',
+        'track.get'
+      ]);
+      assert.strictEqual(transport.calls[2].params.track_isrc, 'GBAYE0601477');
+      assert.strictEqual(result.source, 'isrc');
+      assert.strictEqual(result.confidence, 1);
+    });
+
+    it('gives null below minConfidence', async () => {
+      const { mxm, transport } = client({
+        'matcher.track.get': {
+          track: track({ track_name: 'Yesterday', artist_name: 'Someone' })
+        }
+      });
+      assert.strictEqual(await mxm.resolveLyrics(HEY_JUDE), null);
+      assert.deepStrictEqual(methods(transport), [
+        'matcher.track.get',
+        'track.search'
+      ]);
+    });
+
+    it('fetches the synced lyrics near the duration', async () => {
+      const { mxm, transport } = client({
+        'matcher.track.get': { track: track({ has_subtitles: 1 }) },
+        'track.lyrics.get': LYRICS,
+        'track.subtitle.get': {
+          subtitle: {
+            subtitle_id: 7,
+            restricted: 0,
+            subtitle_body: "[00:07.50] Hey Jude, don't make it bad",
+            subtitle_language: 'en',
+            script_tracking_url: '',
+            pixel_tracking_url: '',
+            html_tracking_url: '',
+            lyrics_copyright: ''
+          }
+        }
+      });
+      const result = await mxm.resolveLyrics(HEY_JUDE);
+      const subtitleCall = transport.calls.find(
+        (call) => call.apiMethod === 'track.subtitle.get'
+      );
+      assert.strictEqual(subtitleCall.params.f_subtitle_length, 431);
+      assert.strictEqual(subtitleCall.params.subtitle_format, 'lrc');
+      assert.deepStrictEqual(result.synced.lines, [
+        { time_ms: 7500, text: "Hey Jude, don't make it bad" }
+      ]);
+    });
+
+    it('rethrows errors other than not found', async () => {
+      const { mxm, transport } = client({
+        'matcher.track.get': envelope('', 401)
+      });
+      await assert.rejects(mxm.resolveLyrics(HEY_JUDE), AuthError);
+      assert.deepStrictEqual(methods(transport), ['matcher.track.get']);
+    });
+  });
+});
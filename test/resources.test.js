@@ -0,0 +1,138 @@
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { describe, it } = require('node:test');
+const { Musixmatch, ResponseShapeError } = require('../dist');
+
+const DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * The recorded responses, keyed by API method.
+ */
+const RESPONSES = fs.readdirSync(DIR).reduce((responses, file) => {
+  const fixture = JSON.parse(fs.readFileSync(path.join(DIR, file), 'utf8'));
+  responses[fixture.request.url.split('/').pop()] = fixture.response.data;
+  return responses;
+}, {});
+
+/**
+ * A client answering each API method with its recorded response, or with
+ * the given overrides.
+ */
+function client(overrides = {}) {
+  const transport = {
+    calls: [],
+    request: async (req) => {
+      const apiMethod = req.url.split('/').pop();
+      transport.calls.push({ apiMethod, params: req.params });
+      return {
+        status: 200,
+        data: overrides[apiMethod] ?? RESPONSES[apiMethod]
+      };
+    }
+  };
+  const mxm = new Musixmatch('test-key', { transport, retry: false });
+  return { mxm, transport };
+}
+
+function empty(available) {
+  return {
+    message: {
+      header: { status_code: 200, execute_time: 0.01, available },
+      body: ''
+    }
+  };
+}
+
+describe('resources', () => {
+  it('returns a track as a model', async () => {
+    const { mxm, transport } = client();
+    const track = await mxm.tracks.get({ commontrack_id: 5920049 });
+    assert.strictEqual(transport.calls[0].apiMethod, 'track.get');
+    assert.strictEqual(transport.calls[0].params.commontrack_id, 5920049);
+    assert.strictEqual(track.id, 84584600);
+    assert.strictEqual(track.name, 'Hello');
+    assert.strictEqual(track.isrc, 'GBBKS1500214');
+    assert.strictEqual(track.hasRichSync, true);
+    assert.strictEqual(track.instrumental, false);
+    assert.strictEqual(track.mbid, undefined);
+    assert.ok(track.updatedTime instanceof Date);
+    assert.strictEqual('track_name' in track, false);
+  });
+
+  it('unwraps the entries of a list', async () => {
+    const { mxm } = client();
+    const tracks = await mxm.tracks.search({
+      q_artist: 'adele',
+      q_track: 'hello'
+    });
+    assert.ok(tracks.length > 0);
+    tracks.forEach((track) => {
+      assert.strictEqual(typeof track.id, 'number');
+      assert.strictEqual(typeof track.hasLyrics, 'boolean');
+    });
+    const genres = await mxm.genres.list();
+    assert.deepStrictEqual(genres, [
+      { id: 14, parentId: 34, name: 'Pop', nameExtended: 'Pop', vanity: 'Pop' }
+    ]);
+  });
+
+  it('gives an empty list for an empty body', async () => {
+    const { mxm } = client({ 'track.search': empty(0) });
+    assert.deepStrictEqual(await mxm.tracks.search({ q: 'nothing' }), []);
+  });
+
+  it('throws a ResponseShapeError for restricted content', async () => {
+    const { mxm } = client({ 'track.lyrics.get': empty() });
+    await assert.rejects(
+      mxm.tracks.lyrics({ commontrack_id: 5920049 }),
+      (error) =>
+        error instanceof ResponseShapeError &&
+        error.apiMethod === 'track.lyrics.get' &&
+        error.path === 'message.body.lyrics' &&
+        error.issues[0].received === 'empty string'
+    );
+  });
+
+  it('returns lyrics, artists and albums as models', async () => {
+    const { mxm } = client();
+    const lyrics = await mxm.tracks.lyrics({ commontrack_id: 5920049 });
+    assert.strictEqual(lyrics.id, 84584600);
+    assert.strictEqual(lyrics.language, 'en');
+    assert.strictEqual(lyrics.restricted, false);
+    assert.match(lyrics.body, /^Hello, it's me/);
+    const artist = await mxm.artists.get({ artist_id: 346898 });
+    assert.strictEqual(artist.name, 'Adele');
+    assert.strictEqual(artist.country, 'GB');
+    assert.deepStrictEqual(artist.aliases, []);
+    assert.strictEqual(artist.restricted, false);
+    const album = await mxm.albums.get({ album_id: 20828429 });
+    assert.strictEqual(album.name, '25');
+    assert.strictEqual(album.trackCount, 11);
+    assert.strictEqual(album.releaseType, undefined);
+  });
+
+  it('adds the match details of the matcher', async () => {
+    const { mxm } = client();
+    const match = await mxm.matcher.track({
+      q_artist: 'adele',
+      q_track: 'hello'
+    });
+    assert.strictEqual(match.track.id, 84584600);
+    assert.strictEqual(match.confidence, 1000);
+    assert.strictEqual(match.mode, 'search');
+    assert.strictEqual(match.cached, false);
+  });
+
+  it('returns the mood of the lyrics', async () => {
+    const { mxm } = client();
+    assert.deepStrictEqual(await mxm.tracks.mood({ commontrack_id: 5920049 }), {
+      labels: [
+        { label: 'Sad', value: 0.82 },
+        { label: 'Romantic', value: 0.41 }
+      ],
+      valence: 0.21,
+      arousal: 0.34
+    });
+  });
+});
@@ -0,0 +1,201 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  MusixmatchError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError
+} = require('../dist');
+
+const OK = { message: { header: { status_code: 200 }, body: '' } };
+
+function envelope(statusCode) {
+  return { message: { header: { status_code: statusCode }, body: '' } };
+}
+
+/**
+ * A transport playing the given outcomes in turn: a response, or an Error to
+ * reject with. The last outcome repeats.
+ */
+function sequence(outcomes) {
+  const transport = {
+    calls: 0,
+    request: async () => {
+      const outcome = outcomes[Math.min(transport.calls, outcomes.length - 1)];
+      transport.calls += 1;
+      if (outcome instanceof Error) {
+        throw outcome;
+      }
+      return outcome;
+    }
+  };
+  return transport;
+}
+
+function networkError(code) {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+function client(transport, retry = {}) {
+  return new Musixmatch('test-key', {
+    transport,
+    retry: { baseDelayMs: 1, jitter: false, ...retry }
+  });
+}
+
+describe('retries', () => {
+  it('retries a header-level 503 until it succeeds', async () => {
+    const transport = sequence([
+      { status: 200, data: envelope(503) },
+      { status: 200, data: OK }
+    ]);
+    await client(transport).trackGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls, 2);
+  });
+
+  it('retries HTTP 502 and 504', async () => {
+    const transport = sequence([
+      { status: 502, data: 'Bad Gateway' },
+      { status: 504, data: 'Gateway Timeout' },
+      { status: 200, data: OK }
+    ]);
+    await client(transport).trackGet({ commontrack_id: 1 });
+    assert.strictEqual(transport.calls, 3);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(transport, { maxAttempts: 4 }).trackGet({ commontrack_id: 1 }),
+      RateLimitedError
+    );
+    assert.strictEqual(transport.calls, 4);
+  });
+
+  it('does not retry other statuses', async () => {
+    const transport = sequence([{ status: 200, data: envelope(404) }]);
+    await assert.rejects(
+      client(transport).trackGet({ commontrack_id: 1 }),
+      NotFoundError
+    );
+    assert.strictEqual(transport.calls, 1);
+  });
+
+  it('retries only the configured status codes', async () => {
+    const transport = sequence([
+      { status: 200, data: envelope(500) },
+      { status: 200, data: OK }
+    ]);
+    await client(transport, { retryableStatusCodes: [500] }).trackGet({
+      commontrack_id: 1
+    });
+    assert.strictEqual(transport.calls, 2);
+
+    const busy = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(busy, { retryableStatusCodes: [500] }).trackGet({
+        commontrack_id: 1
+      }),
+      RateLimitedError
+    );
+    assert.strictEqual(busy.calls, 1);
+  });
+
+  it('retries transient network errors only', async () => {
+    const reset = sequence([
+      networkError('ECONNRESET'),
+      networkError('EAI_AGAIN'),
+      { status: 200, data: OK }
+    ]);
+    await client(reset).trackGet({ commontrack_id: 1 });
+    assert.strictEqual(reset.calls, 3);
+
+    const refused = sequence([networkError('ECONNREFUSED')]);
+    await assert.rejects(
+      client(refused).trackGet({ commontrack_id: 1 }),
+      NetworkError
+    );
+    assert.strictEqual(refused.calls, 1);
+  });
+
+  it('doubles the delay up to maxDelayMs', async () => {
+    const retries = [];
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(transport, {
+        maxAttempts: 4,
+        baseDelayMs: 5,
+        maxDelayMs: 12,
+        onRetry: (retry) => retries.push(retry)
+      }).trackGet({ commontrack_id: 1 })
+    );
+    assert.deepStrictEqual(
+      retries.map(({ apiMethod, attempt, delayMs, statusCode }) => [
+        apiMethod,
+        attempt,
+        delayMs,
+        statusCode
+      ]),
+      [
+        ['track.get', 1, 5, 503],
+        ['track.get', 2, 10, 503],
+        ['track.get', 3, 12, 503]
+      ]
+    );
+  });
+
+  it('keeps a jittered delay between half and all of the backoff', async () => {
+    const delays = [];
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(transport, {
+        maxAttempts: 2,
+        baseDelayMs: 20,
+        jitter: true,
+        onRetry: ({ delayMs }) => delays.push(delayMs)
+      }).trackGet({ commontrack_id: 1 })
+    );
+    assert.ok(delays[0] >= 10 && delays[0] <= 20);
+  });
+
+  it('never retries a POST', async () => {
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(transport).trackLyricsPost({
+        commontrack_id: 1,
+        lyrics_body: 'Hello'
+      }),
+      RateLimitedError
+    );
+    assert.strictEqual(transport.calls, 1);
+  });
+
+  it('sends once with retry: false', async () => {
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    const mxm = new Musixmatch('test-key', { transport, retry: false });
+    await assert.rejects(mxm.trackGet({ commontrack_id: 1 }), RateLimitedError);
+    assert.strictEqual(transport.calls, 1);
+  });
+
+  it('keeps the defaults for options set to undefined', async () => {
+    const transport = sequence([{ status: 200, data: envelope(503) }]);
+    await assert.rejects(
+      client(transport, {
+        maxAttempts: undefined,
+        retryableStatusCodes: undefined
+      }).trackGet({ commontrack_id: 1 }),
+      RateLimitedError
+    );
+    assert.strictEqual(transport.calls, 3);
+  });
+
+  it('rejects a maxAttempts below 1', () => {
+    [0, -1, 1.5, NaN].forEach((maxAttempts) => {
+      assert.throws(
+        () => new Musixmatch('test-key', { retry: { maxAttempts } }),
+        MusixmatchError
+      );
+    });
+  });
+});
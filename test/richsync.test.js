@@ -0,0 +1,163 @@
+const assert = require('assert');
+const path = require('path');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  SubtitleParseError,
+  decodeRichSync,
+  richSyncToEnhancedLrc,
+  richSyncToWebVtt,
+  wordAt
+} = require('../dist');
+
+const LINES = [
+  {
+    ts: 8,
+    te: 10,
+    l: [
+      { c: 'Second', o: 0 },
+      { c: ' ', o: 1 },
+      { c: 'line', o: 1.2 }
+    ],
+    x: 'Second line'
+  },
+  {
+    ts: 1,
+    te: 5.5,
+    l: [
+      { c: 'Hello,', o: 0 },
+      { c: ' ', o: 0.8 },
+      { c: "it's", o: 1.2 },
+      { c: ' ', o: 1.6 },
+      { c: 'me', o: 2 }
+    ],
+    x: "Hello, it's me"
+  }
+];
+
+function words(line) {
+  return line.words.map((word) => [word.text, word.start_ms, word.end_ms]);
+}
+
+describe('richsync', () => {
+  describe('decodeRichSync', () => {
+    const lines = decodeRichSync(JSON.stringify(LINES));
+
+    it('sorts the lines and converts them to milliseconds', () => {
+      assert.deepStrictEqual(
+        lines.map((line) => [line.text, line.start_ms, line.end_ms]),
+        [
+          ["Hello, it's me", 1000, 5500],
+          ['Second line', 8000, 10000]
+        ]
+      );
+    });
+
+    it('times each word from its chunk offset to the next chunk', () => {
+      assert.deepStrictEqual(words(lines[0]), [
+        ['Hello,', 1000, 1800],
+        ["it's", 2200, 2600],
+        ['me', 3000, 5500]
+      ]);
+    });
+
+    it('shares a chunk evenly between its characters', () => {
+      assert.deepStrictEqual(lines[0].words[1].chars, [
+        { char: 'i', start_ms: 2200, end_ms: 2300 },
+        { char: 't', start_ms: 2300, end_ms: 2400 },
+        { char: "'", start_ms: 2400, end_ms: 2500 },
+        { char: 's', start_ms: 2500, end_ms: 2600 }
+      ]);
+    });
+
+    it('accepts a parsed array and skips lines without a start', () => {
+      const decoded = decodeRichSync([
+        { te: 1, l: [], x: 'No start' },
+        LINES[0]
+      ]);
+      assert.deepStrictEqual(
+        decoded.map((line) => line.text),
+        ['Second line']
+      );
+    });
+
+    it('rebuilds the text from the words when x is missing', () => {
+      const [line] = decodeRichSync([{ ...LINES[0], x: undefined }]);
+      assert.strictEqual(line.text, 'Second line');
+    });
+
+    it('ends a line without te where the next one starts', () => {
+      const [first, second] = decodeRichSync([
+        { ...LINES[1], te: undefined },
+        LINES[0]
+      ]);
+      assert.strictEqual(first.end_ms, 8000);
+      assert.strictEqual(first.words[2].end_ms, 8000);
+      assert.strictEqual(second.end_ms, 10000);
+    });
+
+    it('throws when the last line has no te', () => {
+      assert.throws(
+        () => decodeRichSync([LINES[1], { ...LINES[0], te: undefined }]),
+        (error) => error instanceof SubtitleParseError && error.line === 2
+      );
+    });
+
+    it('throws on a body that is not a JSON array', () => {
+      assert.throws(() => decodeRichSync('{'), SubtitleParseError);
+      assert.throws(() => decodeRichSync('{}'), SubtitleParseError);
+    });
+  });
+
+  describe('wordAt', () => {
+    const lines = decodeRichSync(LINES);
+
+    it('finds the active line and word', () => {
+      assert.strictEqual(wordAt(lines, 500), undefined);
+      assert.strictEqual(wordAt(lines, 1000).word.text, 'Hello,');
+      assert.strictEqual(wordAt(lines, 2300).word.text, "it's");
+      assert.strictEqual(wordAt(lines, 9500).line.text, 'Second line');
+    });
+
+    it('keeps the previous word active between two words', () => {
+      assert.strictEqual(wordAt(lines, 2000).word.text, 'Hello,');
+    });
+
+    it('finds nothing between two lines', () => {
+      assert.strictEqual(wordAt(lines, 6000), undefined);
+    });
+  });
+
+  describe('export', () => {
+    const lines = decodeRichSync(LINES);
+
+    it('writes enhanced LRC with a tag per word', () => {
+      assert.strictEqual(
+        richSyncToEnhancedLrc(lines),
+        "[00:01.00]<00:01.00>Hello, <00:02.20>it's <00:03.00>me<00:05.50>\n" +
+          '[00:08.00]<00:08.00>Second <00:09.20>line<00:10.00>'
+      );
+    });
+
+    it('writes WebVTT with karaoke tags after the first word', () => {
+      assert.strictEqual(
+        richSyncToWebVtt(lines),
+        'WEBVTT\n\n' +
+          "1\n00:00:01.000 --> 00:00:05.500\nHello, <00:00:02.200>it's <00:00:03.000>me\n\n" +
+          '2\n00:00:08.000 --> 00:00:10.000\nSecond <00:00:09.200>line\n'
+      );
+    });
+  });
+
+  it('decodes a replayed richsync body', async () => {
+    const mxm = new Musixmatch('replay-key', {
+      fixtures: { mode: 'replay', dir: path.join(__dirname, 'fixtures') }
+    });
+    const richsync = await mxm.tracks.richSync({ track_id: 84584600 });
+    assert.deepStrictEqual(words(decodeRichSync(richsync.body)[0]), [
+      ['Hello,', 1000, 1800],
+      ["it's", 2200, 2600],
+      ['me', 3000, 5500]
+    ]);
+  });
+});
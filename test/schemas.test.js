@@ -0,0 +1,188 @@
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { describe, it } = require('node:test');
+const { Musixmatch, ResponseShapeError, validateResponse } = require('../dist');
+
+const DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * The recorded responses, keyed by API method.
+ */
+const RESPONSES = fs.readdirSync(DIR).reduce((responses, file) => {
+  const fixture = JSON.parse(fs.readFileSync(path.join(DIR, file), 'utf8'));
+  const apiMethod = fixture.request.url.split('/').pop();
+  responses[apiMethod] = {
+    params: fixture.request.params,
+    data: fixture.response.data
+  };
+  return responses;
+}, {});
+
+/**
+ * A client whose transport answers every call with the given XML body.
+ */
+function client(xml, validation) {
+  return new Musixmatch('test-key', {
+    transport: { request: async () => ({ status: 200, data: xml }) },
+    validation,
+    retry: false
+  });
+}
+
+function copy(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Writes a JSON response the way the API writes it with `format=xml`: every
+ * value becomes text and each `*_list` entry becomes a child element.
+ */
+function toXml(name, value) {
+  let content;
+  if (Array.isArray(value)) {
+    content = value
+      .map((entry) => {
+        const [child] = Object.keys(entry);
+        return toXml(child, entry[child]);
+      })
+      .join('');
+  } else if (value !== null && typeof value === 'object') {
+    content = Object.keys(value)
+      .map((key) => toXml(key, value[key]))
+      .join('');
+  } else {
+    content = String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+  return `<${name}>${content}</${name}>`;
+}
+
+describe('response schemas', () => {
+  it('accepts every recorded response', () => {
+    Object.keys(RESPONSES).forEach((apiMethod) => {
+      assert.deepStrictEqual(
+        validateResponse(apiMethod, RESPONSES[apiMethod].data),
+        [],
+        apiMethod
+      );
+    });
+  });
+
+  it('reports the path of each mismatch', () => {
+    const response = copy(RESPONSES['track.get'].data);
+    response.message.body.track.track_id = '84584600';
+    delete response.message.body.track.track_name;
+    response.message.body.track.primary_genres.music_genre_list = null;
+    assert.deepStrictEqual(validateResponse('track.get', response), [
+      {
+        path: 'message.body.track.track_id',
+        expected: 'number',
+        received: 'string'
+      },
+      {
+        path: 'message.body.track.track_name',
+        expected: 'string',
+        received: 'undefined'
+      },
+      {
+        path: 'message.body.track.primary_genres.music_genre_list',
+        expected: 'array',
+        received: 'null'
+      }
+    ]);
+  });
+
+  it('reports an empty body where an object is expected', () => {
+    const response = copy(RESPONSES['track.lyrics.get'].data);
+    response.message.body = '';
+    assert.deepStrictEqual(validateResponse('track.lyrics.get', response), [
+      { path: 'message.body', expected: 'object', received: 'empty string' }
+    ]);
+  });
+
+  it('accepts missing or null optional fields', () => {
+    const response = copy(RESPONSES['track.get'].data);
+    delete response.message.body.track.track_isrc;
+    response.message.body.track.track_length = null;
+    assert.deepStrictEqual(validateResponse('track.get', response), []);
+  });
+
+  it('checks nothing for a method without a schema', () => {
+    assert.deepStrictEqual(validateResponse('track.unknown.get', 42), []);
+  });
+
+  describe('XML coercion', () => {
+    // The client method of each recorded API method. Moods are left out:
+    // their mood_list entries are not wrapped, so they have no XML form here.
+    const CALLS = {
+      'track.get': (mxm, params) => mxm.trackGet(params),
+      'track.search': (mxm, params) => mxm.trackSearch(params),
+      'chart.artists.get': (mxm, params) => mxm.chartArtistGet(params),
+      'chart.tracks.get': (mxm, params) => mxm.chartTracksGet(params),
+      'track.lyrics.get': (mxm, params) => mxm.trackLyricsGet(params),
+      'track.snippet.get': (mxm, params) => mxm.trackSnippetGet(params),
+      'track.subtitle.get': (mxm, params) => mxm.trackSubtitleGet(params),
+      'track.richsync.get': (mxm, params) => mxm.trackRichSyncGet(params),
+      'track.lyrics.translation.get': (mxm, params) =>
+        mxm.trackLyricsTranslationGet(params),
+      'track.subtitle.translation.get': (mxm, params) =>
+        mxm.trackSubttileTranslationGet(params),
+      'music.genres.get': (mxm) => mxm.musicGenresGet(),
+      'matcher.lyrics.get': (mxm, params) => mxm.matcherLyricsGet(params),
+      'matcher.track.get': (mxm, params) => mxm.matcherTrackGet(params),
+      'matcher.subtitle.get': (mxm, params) => mxm.matcherSubtitleGet(params),
+      'artist.get': (mxm, params) => mxm.artistGet(params),
+      'artist.search': (mxm, params) => mxm.artistSearch(params),
+      'artist.albums.get': (mxm, params) => mxm.artistAlbumsGet(params),
+      'artist.related.get': (mxm, params) => mxm.artistRelatedGet(params),
+      'album.get': (mxm, params) => mxm.albumGet(params),
+      'album.tracks.get': (mxm, params) => mxm.albumTracksGet(params)
+    };
+
+    Object.keys(CALLS).forEach((apiMethod) => {
+      it(`gives ${apiMethod} its JSON types back`, async () => {
+        const { params, data } = RESPONSES[apiMethod];
+        const xml = `<?xml version="1.0" encoding="utf-8"?>${toXml(
+          'message',
+          data.message
+        )}`;
+        const { raw, ...decoded } = await CALLS[apiMethod](
+          client(xml, { mode: 'strict' }),
+          params
+        );
+        assert.strictEqual(raw, xml);
+        assert.deepStrictEqual(decoded, data);
+      });
+    });
+
+    it('keeps numeric-looking strings that the schema types as strings', async () => {
+      const response = copy(RESPONSES['album.get'].data);
+      response.message.body.album.album_name = '1989';
+      const xml = toXml('message', response.message);
+      const decoded = await client(xml).albumGet({ album_id: 20828429 });
+      assert.strictEqual(decoded.message.body.album.album_name, '1989');
+      assert.strictEqual(decoded.message.body.album.album_id, 20828429);
+    });
+
+    it('fails strict validation on an XML body that does not coerce', async () => {
+      const xml = toXml('message', {
+        header: { status_code: 200, execute_time: 0.01 },
+        body: {
+          album: {
+            ...RESPONSES['album.get'].data.message.body.album,
+            album_id: 'soon'
+          }
+        }
+      });
+      await assert.rejects(
+        client(xml, { mode: 'strict' }).albumGet({ album_id: 1 }),
+        (error) =>
+          error instanceof ResponseShapeError &&
+          error.path === 'message.body.album.album_id'
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+const assert = require('assert');
+const path = require('path');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  SubtitleParseError,
+  convertSubtitle,
+  detectSubtitleFormat,
+  formatVttTimestamp,
+  parseSubtitle,
+  serializeSubtitle
+} = require('../dist');
+
+const LRC = "[00:01.00]Hello, it's me\n[00:05.50]I was wondering\n[00:09.00]";
+
+const VTT = `WEBVTT
+
+00:00:01.000 --> 00:00:05.500
+Hello, it's me
+
+00:00:05.500 --> 00:00:09.000
+I was wondering
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:05,500
+Hello, it's me
+
+2
+00:00:05,500 --> 00:00:09,000
+I was wondering
+`;
+
+const CUES = [
+  { start_ms: 1000, end_ms: 5500, text: "Hello, it's me" },
+  { start_ms: 5500, end_ms: 9000, text: 'I was wondering' }
+];
+
+describe('subtitles', () => {
+  describe('detectSubtitleFormat', () => {
+    it('recognizes every format', () => {
+      assert.strictEqual(detectSubtitleFormat(LRC), 'lrc');
+      assert.strictEqual(detectSubtitleFormat(VTT), 'vtt');
+      assert.strictEqual(detectSubtitleFormat(SRT), 'srt');
+      assert.strictEqual(
+        detectSubtitleFormat('[{"text":"a","time":{"total":1}}]'),
+        'mxm'
+      );
+      assert.strictEqual(
+        detectSubtitleFormat('<?xml version="1.0"?><tt><body></body></tt>'),
+        'dfxp'
+      );
+    });
+
+    it('throws on anything else', () => {
+      assert.throws(
+        () => detectSubtitleFormat('just some text'),
+        SubtitleParseError
+      );
+    });
+  });
+
+  it('formats WebVTT timestamps with hours', () => {
+    assert.strictEqual(formatVttTimestamp(3723045), '01:02:03.045');
+    assert.strictEqual(formatVttTimestamp(-1), '00:00:00.000');
+  });
+
+  describe('conversion', () => {
+    it('ends each LRC cue when the next line starts', () => {
+      assert.deepStrictEqual(parseSubtitle(LRC), CUES);
+    });
+
+    it('converts LRC to WebVTT and SRT', () => {
+      assert.strictEqual(convertSubtitle(LRC, 'vtt'), VTT);
+      assert.strictEqual(convertSubtitle(LRC, 'srt'), SRT);
+    });
+
+    it('converts WebVTT and SRT back to LRC', () => {
+      assert.strictEqual(convertSubtitle(VTT, 'lrc'), LRC);
+      assert.strictEqual(convertSubtitle(SRT, 'lrc'), LRC);
+    });
+
+    it('converts between WebVTT and SRT', () => {
+      assert.strictEqual(convertSubtitle(VTT, 'srt'), SRT);
+      assert.strictEqual(convertSubtitle(SRT, 'vtt'), VTT);
+    });
+
+    it('gives the last LRC line a default duration', () => {
+      const cues = parseSubtitle('[00:01.00]Only line');
+      assert.deepStrictEqual(cues, [
+        { start_ms: 1000, end_ms: 5000, text: 'Only line' }
+      ]);
+      assert.strictEqual(
+        parseSubtitle('[00:01.00]Only line', { lastCueDurationMs: 2000 })[0]
+          .end_ms,
+        3000
+      );
+    });
+
+    it('round-trips the Musixmatch JSON format', () => {
+      const json = convertSubtitle(LRC, 'mxm');
+      assert.deepStrictEqual(parseSubtitle(json), CUES);
+    });
+
+    it('round-trips DFXP, escaping markup', () => {
+      const cues = [
+        { start_ms: 1000, end_ms: 2000, text: 'Rock & <roll>\nagain' }
+      ];
+      const dfxp = serializeSubtitle(cues, 'dfxp');
+      assert.match(dfxp, /Rock &amp; &lt;roll&gt;<br\/>again/);
+      assert.deepStrictEqual(parseSubtitle(dfxp), cues);
+    });
+
+    it('escapes markup in WebVTT and decodes it back', () => {
+      const cues = [{ start_ms: 0, end_ms: 1000, text: 'Rock & <roll>' }];
+      const vtt = serializeSubtitle(cues, 'vtt');
+      assert.match(vtt, /Rock &amp; &lt;roll&gt;/);
+      assert.deepStrictEqual(parseSubtitle(vtt), cues);
+    });
+  });
+
+  describe('parsing', () => {
+    it('reads DFXP offsets, durations and missing ends', () => {
+      const dfxp = `<tt xmlns="http://www.w3.org/ns/ttml"><body><div>
+        <p begin="1.5s" dur="1s">One</p>
+        <p begin="00:00:04.000">Two</p>
+        <p begin="6000ms" end="00:00:07:15">Three</p>
+      </div></body></tt>`;
+      assert.deepStrictEqual(parseSubtitle(dfxp), [
+        { start_ms: 1500, end_ms: 2500, text: 'One' },
+        { start_ms: 4000, end_ms: 6000, text: 'Two' },
+        { start_ms: 6000, end_ms: 7500, text: 'Three' }
+      ]);
+    });
+
+    it('drops cue settings and markup tags from WebVTT', () => {
+      const vtt =
+        'WEBVTT\n\nintro\n00:01.000 --> 00:02.000 align:start\n<v Adele><b>Hello</b>\n';
+      assert.deepStrictEqual(parseSubtitle(vtt), [
+        { start_ms: 1000, end_ms: 2000, text: 'Hello' }
+      ]);
+    });
+
+    it('skips inverted cues unless strict', () => {
+      const srt = '1\n00:00:05,000 --> 00:00:01,000\nBackwards\n';
+      assert.deepStrictEqual(parseSubtitle(srt), []);
+      assert.throws(
+        () => parseSubtitle(srt, { strict: true }),
+        SubtitleParseError
+      );
+    });
+
+    it('scales, then shifts, and clamps at zero', () => {
+      const cues = parseSubtitle(SRT, { timeScale: 2, offsetMs: -3000 });
+      assert.deepStrictEqual(
+        cues.map((cue) => [cue.start_ms, cue.end_ms]),
+        [
+          [0, 8000],
+          [8000, 15000]
+        ]
+      );
+    });
+  });
+
+  it('converts a replayed subtitle to WebVTT', async () => {
+    const mxm = new Musixmatch('replay-key', {
+      fixtures: { mode: 'replay', dir: path.join(__dirname, 'fixtures') }
+    });
+    const subtitle = await mxm.tracks.subtitle({ commontrack_id: 5920049 });
+    assert.match(
+      convertSubtitle(subtitle.body, 'vtt'),
+      /^WEBVTT\n\n00:00:01\.000 --> 00:00:05\.500\nHello, it's me\n/
+    );
+  });
+});
@@ -0,0 +1,344 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  Musixmatch,
+  MusixmatchError,
+  alignLyricsTranslation,
+  alignSubtitleTranslation,
+  translationCompletion,
+  serializeBilingualLrc,
+  serializeBilingualVtt
+} = require('../dist');
+
+function envelope(body, statusCode = 200) {
+  return {
+    message: { header: { status_code: statusCode, execute_time: 0 }, body }
+  };
+}
+
+const TRACKING = {
+  restricted: 0,
+  script_tracking_url: '',
+  pixel_tracking_url: '',
+  html_tracking_url: '',
+  lyrics_copyright: ''
+};
+
+const BODIES = {
+  'track.get': {
+    track: {
+      track_id: 84584600,
+      track_name: 'Hello',
+      track_name_translation_list: [],
+      track_rating: 0,
+      commontrack_id: 5920049,
+      instrumental: 0,
+      explicit: 0,
+      has_lyrics: 1,
+      has_subtitles: 1,
+      has_richsync: 0,
+      num_favourite: 0,
+      album_id: 1,
+      album_name: '25',
+      artist_id: 2,
+      artist_name: 'Adele',
+      track_share_url: '',
+      track_edit_url: '',
+      restricted: 0,
+      updated_time: '',
+      primary_genres: { music_genre_list: [] }
+    }
+  },
+  'track.subtitle.get': {
+    subtitle: {
+      ...TRACKING,
+      subtitle_id: 1,
+      subtitle_body:
+        "[00:01.00]Hello, it's me\n[00:04.00]\n[00:05.00]I was wondering\n[00:08.00]",
+      subtitle_language: 'en'
+    }
+  },
+  'track.subtitle.translation.get': {
+    subtitle: {
+      subtitle_translated: {
+        ...TRACKING,
+        selected_language: 'it',
+        subtitle_body: '[00:01.00]Ciao, sono io\n[00:05.00]Mi chiedevo'
+      }
+    }
+  },
+  'track.lyrics.get': {
+    lyrics: {
+      ...TRACKING,
+      lyrics_id: 1,
+      instrumental: 0,
+      lyrics_body: "Hello, it's me\n\nI was wondering\nIf after all",
+      lyrics_language: 'en',
+      updated_time: ''
+    }
+  },
+  'track.lyrics.translation.get': {
+    lyrics: {
+      lyrics_translated: {
+        ...TRACKING,
+        selected_language: 'it',
+        lyrics_body: 'Ciao, sono io\n\nMi chiedevo'
+      }
+    }
+  }
+};
+
+/**
+ * A client answering each API method with its body above, or with a 404
+ * for the methods listed in `missing`.
+ */
+function client(missing = []) {
+  const transport = {
+    calls: [],
+    request: async (req) => {
+      const apiMethod = req.url.split('/').pop();
+      transport.calls.push({ apiMethod, params: req.params });
+      return {
+        status: 200,
+        data: missing.includes(apiMethod)
+          ? envelope('', 404)
+          : envelope(BODIES[apiMethod])
+      };
+    }
+  };
+  const mxm = new Musixmatch('test-key', { transport, retry: false });
+  return { mxm, transport };
+}
+
+describe('translations', () => {
+  describe('alignLyricsTranslation', () => {
+    it('pairs the sung lines in order and keeps the blank lines', () => {
+      assert.deepStrictEqual(
+        alignLyricsTranslation(
+          "Hello, it's me\n\nI was wondering\n",
+          'Ciao, sono io\nMi chiedevo'
+        ),
+        [
+          { text: "Hello, it's me", translation: 'Ciao, sono io' },
+          { text: '' },
+          { text: 'I was wondering', translation: 'Mi chiedevo' }
+        ]
+      );
+    });
+
+    it('drops the free plan footer', () => {
+      const lines = alignLyricsTranslation(
+        'Hello\n\n******* This Lyrics is NOT for Commercial use *******\n(1409623456789)',
+        'Ciao\n\n******* This Lyrics is NOT for Commercial use *******'
+      );
+      assert.deepStrictEqual(lines, [{ text: 'Hello', translation: 'Ciao' }]);
+    });
+
+    it('pairs by position when the line counts differ', () => {
+      assert.deepStrictEqual(
+        alignLyricsTranslation('One\nTwo\nThree', 'Uno\n\nTre'),
+        [
+          { text: 'One', translation: 'Uno' },
+          { text: 'Two' },
+          { text: 'Three', translation: 'Tre' }
+        ]
+      );
+    });
+  });
+
+  describe('alignSubtitleTranslation', () => {
+    it('keeps the original timestamps', () => {
+      assert.deepStrictEqual(
+        alignSubtitleTranslation(
+          '[00:01.00]Hello\n[00:03.50]World\n[00:05.00]',
+          '[00:01.20]Ciao\n[00:03.40]Mondo'
+        ),
+        [
+          { time_ms: 1000, text: 'Hello', translation: 'Ciao' },
+          { time_ms: 3500, text: 'World', translation: 'Mondo' },
+          { time_ms: 5000, text: '' }
+        ]
+      );
+    });
+
+    it('pairs by nearest start time when the line counts differ', () => {
+      assert.deepStrictEqual(
+        alignSubtitleTranslation(
+          '[00:01.00]One\n[00:02.00]Two\n[00:03.00]Three\n[00:09.00]Four',
+          '[00:03.40]Tre\n[00:00.60]Uno\n[00:07.00]Quattro'
+        ),
+        [
+          { time_ms: 1000, text: 'One', translation: 'Uno' },
+          { time_ms: 2000, text: 'Two' },
+          { time_ms: 3000, text: 'Three', translation: 'Tre' },
+          { time_ms: 9000, text: 'Four' },
+          { time_ms: 13000, text: '' }
+        ]
+      );
+    });
+
+    it('uses each translated line once', () => {
+      const lines = alignSubtitleTranslation(
+        '[00:01.00]One\n[00:01.20]One again\n[00:05.00]Two',
+        '[00:01.10]Uno'
+      );
+      assert.deepStrictEqual(
+        lines.map((line) => line.translation),
+        ['Uno', undefined, undefined, undefined]
+      );
+    });
+
+    it('reads other subtitle formats', () => {
+      const vtt =
+        'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nCiao\n\n00:00:03.500 --> 00:00:05.000\nMondo\n';
+      assert.deepStrictEqual(
+        alignSubtitleTranslation('[00:01.00]Hello\n[00:03.50]World', vtt),
+        [
+          { time_ms: 1000, text: 'Hello', translation: 'Ciao' },
+          { time_ms: 3500, text: 'World', translation: 'Mondo' },
+          { time_ms: 7500, text: '' }
+        ]
+      );
+    });
+  });
+
+  it('measures the share of translated sung lines', () => {
+    assert.strictEqual(
+      translationCompletion([
+        { text: 'One', translation: 'Uno' },
+        { text: '' },
+        { text: 'Two' },
+        { text: 'Three', translation: 'Tre' },
+        { text: 'Four', translation: 'Quattro' }
+      ]),
+      0.75
+    );
+    assert.strictEqual(translationCompletion([{ text: '' }]), 0);
+    assert.strictEqual(translationCompletion([]), 0);
+  });
+
+  describe('bilingual output', () => {
+    const lines = [
+      { time_ms: 3500, text: 'World' },
+      { time_ms: 1000, text: 'Hello', translation: 'Ciao' }
+    ];
+
+    it('writes the translation under its line in LRC', () => {
+      assert.strictEqual(
+        serializeBilingualLrc(lines),
+        '[00:01.00]Hello\n[00:01.00]Ciao\n[00:03.50]World\n'
+      );
+      assert.strictEqual(serializeBilingualLrc([]), '');
+    });
+
+    it('puts both lines in one WebVTT cue', () => {
+      assert.strictEqual(
+        serializeBilingualVtt(lines.slice().reverse(), {
+          lastCueDurationMs: 1000
+        }),
+        'WEBVTT\n\n00:00:01.000 --> 00:00:03.500\nHello\nCiao\n\n00:00:03.500 --> 00:00:04.500\nWorld\n'
+      );
+    });
+  });
+
+  describe('alignTranslation', () => {
+    it('aligns the subtitle and its translation', async () => {
+      const { mxm, transport } = client();
+      const aligned = await mxm.alignTranslation({
+        commontrack_id: 5920049,
+        selected_language: 'it',
+        min_completed: 0.8
+      });
+      assert.strictEqual(aligned.synced, true);
+      assert.strictEqual(aligned.language, 'it');
+      assert.deepStrictEqual(aligned.lines, [
+        { time_ms: 1000, text: "Hello, it's me", translation: 'Ciao, sono io' },
+        { time_ms: 4000, text: '' },
+        { time_ms: 5000, text: 'I was wondering', translation: 'Mi chiedevo' },
+        { time_ms: 8000, text: '' }
+      ]);
+      assert.strictEqual(aligned.completion, 1);
+      assert.strictEqual(aligned.complete, true);
+      assert.strictEqual(aligned.original.id, 1);
+      assert.deepStrictEqual(
+        transport.calls.map((call) => call.apiMethod).sort(),
+        ['track.subtitle.get', 'track.subtitle.translation.get']
+      );
+    });
+
+    it('falls back to the lyrics without a subtitle translation', async () => {
+      const { mxm } = client(['track.subtitle.translation.get']);
+      const aligned = await mxm.alignTranslation({
+        commontrack_id: 5920049,
+        selected_language: 'it',
+        min_completed: 0.8
+      });
+      assert.strictEqual(aligned.synced, false);
+      assert.deepStrictEqual(aligned.lines, [
+        { text: "Hello, it's me", translation: 'Ciao, sono io' },
+        { text: '' },
+        { text: 'I was wondering', translation: 'Mi chiedevo' },
+        { text: 'If after all' }
+      ]);
+      assert.strictEqual(aligned.completion, 2 / 3);
+      assert.strictEqual(aligned.minCompleted, 0.8);
+      assert.strictEqual(aligned.complete, false);
+    });
+
+    it('uses the lyrics for a track_id', async () => {
+      const { mxm, transport } = client();
+      const aligned = await mxm.alignTranslation({
+        track_id: 84584600,
+        selected_language: 'it'
+      });
+      assert.strictEqual(aligned.synced, false);
+      assert.strictEqual(aligned.complete, true);
+      assert.deepStrictEqual(
+        transport.calls.map((call) => call.apiMethod).sort(),
+        ['track.lyrics.get', 'track.lyrics.translation.get']
+      );
+      transport.calls.forEach((call) =>
+        assert.strictEqual(call.params.track_id, 84584600)
+      );
+    });
+
+    it('resolves an ISRC to its commontrack_id first', async () => {
+      const { mxm, transport } = client();
+      const aligned = await mxm.alignTranslation({
+        track_isrc: 'GBBKS1500214',
+        selected_language: 'it'
+      });
+      assert.strictEqual(aligned.synced, true);
+      assert.strictEqual(transport.calls[0].apiMethod, 'track.get');
+      assert.strictEqual(transport.calls[0].params.track_isrc, 'GBBKS1500214');
+      assert.strictEqual(transport.calls[1].params.commontrack_id, 5920049);
+    });
+
+    it('gives null when the track or the translation is missing', async () => {
+      assert.strictEqual(
+        await client(['track.get']).mxm.alignTranslation({
+          track_isrc: 'GBBKS1500214',
+          selected_language: 'it'
+        }),
+        null
+      );
+      assert.strictEqual(
+        await client([
+          'track.subtitle.translation.get',
+          'track.lyrics.translation.get'
+        ]).mxm.alignTranslation({
+          commontrack_id: 5920049,
+          selected_language: 'it'
+        }),
+        null
+      );
+    });
+
+    it('needs a track id or an ISRC', async () => {
+      await assert.rejects(
+        client().mxm.alignTranslation({ selected_language: 'it' }),
+        MusixmatchError
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const {
+  AxiosTransport,
+  FetchTransport,
+  Musixmatch,
+  NotFoundError
+} = require('../dist');
+
+const OK = { message: { header: { status_code: 200 }, body: { track: {} } } };
+
+describe('transports', () => {
+  describe('a custom transport', () => {
+    it('receives every request with the apikey', async () => {
+      const requests = [];
+      const mxm = new Musixmatch('test-key', {
+        baseUrl: 'http://localhost:1234/api',
+        transport: {
+          request: async (request) => {
+            requests.push(request);
+            return { status: 200, data: OK };
+          }
+        },
+        retry: false
+      });
+      const response = await mxm.trackGet({ commontrack_id: 5920049 });
+      assert.deepStrictEqual(response, OK);
+      assert.strictEqual(requests.length, 1);
+      assert.strictEqual(requests[0].method, 'get');
+      assert.strictEqual(
+        requests[0].url,
+        'http://localhost:1234/api/track.get'
+      );
+      assert.deepStrictEqual(requests[0].params, {
+        commontrack_id: 5920049,
+        apikey: 'test-key'
+      });
+    });
+
+    it('turns an HTTP error status into an API error', async () => {
+      const mxm = new Musixmatch('test-key', {
+        transport: {
+          request: async () => ({ status: 404, data: 'Not Found' })
+        },
+        retry: false
+      });
+      await assert.rejects(
+        mxm.trackGet({ commontrack_id: 5920049 }),
+        NotFoundError
+      );
+    });
+  });
+
+  describe('FetchTransport', () => {
+    function fakeFetch(body, calls) {
+      return async (url, init) => {
+        calls.push({ url, init });
+        return {
+          status: 200,
+          text: async () => body,
+          headers: new Map([['Content-Type', 'application/json']])
+        };
+      };
+    }
+
+    it('sends the params in the query string and parses JSON', async () => {
+      const calls = [];
+      const transport = new FetchTransport(
+        fakeFetch(JSON.stringify(OK), calls)
+      );
+      const response = await transport.request({
+        method: 'get',
+        url: 'http://localhost/track.get',
+        params: { q: 'a b', page: 2, skipped: undefined }
+      });
+      assert.strictEqual(
+        calls[0].url,
+        'http://localhost/track.get?q=a%20b&page=2'
+      );
+      assert.strictEqual(calls[0].init.method, 'GET');
+      assert.deepStrictEqual(response, {
+        status: 200,
+        data: OK,
+        headers: { 'content-type': 'application/json' }
+      });
+    });
+
+    it('hands a body that is not JSON back as text', async () => {
+      const transport = new FetchTransport(fakeFetch('<xml/>', []));
+      const response = await transport.request({
+        method: 'get',
+        url: 'http://localhost/track.get',
+        params: {}
+      });
+      assert.strictEqual(response.data, '<xml/>');
+    });
+  });
+
+  describe('AxiosTransport', () => {
+    it('resolves whatever the status and lower-cases the headers', async () => {
+      const sent = [];
+      const transport = new AxiosTransport({
+        request: async (config) => {
+          sent.push(config);
+          return {
+            status: 503,
+            data: 'busy',
+            headers: { 'Retry-After': 1 }
+          };
+        }
+      });
+      const response = await transport.request({
+        method: 'get',
+        url: 'http://localhost/track.get',
+        params: { apikey: 'test-key' }
+      });
+      assert.ok(sent[0].validateStatus(503));
+      assert.deepStrictEqual(sent[0].params, { apikey: 'test-key' });
+      assert.deepStrictEqual(response, {
+        status: 503,
+        data: 'busy',
+        headers: { 'retry-after': '1' }
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const { Musixmatch, ResponseShapeError } = require('../dist');
+const LYRICS = require('./fixtures/track.lyrics.get-71796801.json');
+
+const RESTRICTED = {
+  message: { header: { status_code: 200, execute_time: 0.01 }, body: '' }
+};
+
+function client(data, validation) {
+  return new Musixmatch('test-key', {
+    transport: { request: async () => ({ status: 200, data }) },
+    validation,
+    retry: false
+  });
+}
+
+describe('response validation', () => {
+  it('throws a ResponseShapeError in strict mode', async () => {
+    await assert.rejects(
+      client(RESTRICTED, { mode: 'strict' }).trackLyricsGet({
+        commontrack_id: 5920049
+      }),
+      (error) => {
+        assert.ok(error instanceof ResponseShapeError);
+        assert.strictEqual(error.kind, 'invalid_response');
+        assert.strictEqual(error.path, 'message.body');
+        assert.strictEqual(error.apiMethod, 'track.lyrics.get');
+        assert.deepStrictEqual(error.issues, [
+          { path: 'message.body', expected: 'object', received: 'empty string' }
+        ]);
+        return true;
+      }
+    );
+  });
+
+  it('returns the response and reports the issues in lenient mode', async () => {
+    const warnings = [];
+    const response = await client(RESTRICTED, {
+      mode: 'lenient',
+      onWarning: (apiMethod, issues) => warnings.push({ apiMethod, issues })
+    }).trackLyricsGet({ commontrack_id: 5920049 });
+    assert.deepStrictEqual(response, RESTRICTED);
+    assert.deepStrictEqual(warnings, [
+      {
+        apiMethod: 'track.lyrics.get',
+        issues: [
+          { path: 'message.body', expected: 'object', received: 'empty string' }
+        ]
+      }
+    ]);
+  });
+
+  it('stays silent in lenient mode without onWarning', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    const response = await client(RESTRICTED, {
+      mode: 'lenient'
+    }).trackLyricsGet({ commontrack_id: 5920049 });
+    assert.deepStrictEqual(response, RESTRICTED);
+    assert.strictEqual(warn.mock.callCount(), 0);
+  });
+
+  it('reports nothing for a matching response', async () => {
+    const warnings = [];
+    const response = await client(LYRICS.response.data, {
+      mode: 'lenient',
+      onWarning: (apiMethod, issues) => warnings.push(issues)
+    }).trackLyricsGet({ commontrack_id: 5920049 });
+    assert.deepStrictEqual(response, LYRICS.response.data);
+    assert.deepStrictEqual(warnings, []);
+  });
+
+  it('checks nothing without the option', async () => {
+    const response = await client(RESTRICTED).trackLyricsGet({
+      commontrack_id: 5920049
+    });
+    assert.deepStrictEqual(response, RESTRICTED);
+  });
+});
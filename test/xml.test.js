@@ -0,0 +1,86 @@
+const assert = require('assert');
+const { describe, it } = require('node:test');
+const { Musixmatch, RateLimitedError } = require('../dist');
+
+function xmlEnvelope(statusCode, body = '') {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<message>
+  <header>
+    <status_code>${statusCode}</status_code>
+    <execute_time>0.0042</execute_time>
+  </header>
+  <body>${body}</body>
+</message>`;
+}
+
+const ARTISTS = `<artist_list>
+  <artist>
+    <artist_id>346898</artist_id>
+    <artist_name>Adele</artist_name>
+    <artist_rating>85</artist_rating>
+  </artist>
+</artist_list>`;
+
+/**
+ * A transport answering with the given XML bodies in turn, always with an
+ * HTTP 200 like the API.
+ */
+function sequence(bodies) {
+  const transport = {
+    calls: 0,
+    request: async () => {
+      const data = bodies[Math.min(transport.calls, bodies.length - 1)];
+      transport.calls += 1;
+      return { status: 200, data };
+    }
+  };
+  return transport;
+}
+
+function client(transport) {
+  return new Musixmatch('test-key', {
+    transport,
+    retry: { baseDelayMs: 1, jitter: false }
+  });
+}
+
+describe('format=xml responses', () => {
+  it('decodes a list into the JSON envelope', async () => {
+    const transport = sequence([xmlEnvelope(200, ARTISTS)]);
+    const response = await client(transport).artistSearch({
+      q_artist: 'adele',
+      format: 'xml'
+    });
+    const { artist } = response.message.body.artist_list[0];
+    assert.strictEqual(response.message.header.status_code, 200);
+    assert.strictEqual(artist.artist_id, 346898);
+    assert.strictEqual(artist.artist_name, 'Adele');
+    assert.match(response.raw, /^<\?xml/);
+  });
+
+  it('retries a header-level 503 like a JSON response', async () => {
+    const transport = sequence([
+      xmlEnvelope(503),
+      xmlEnvelope(503),
+      xmlEnvelope(200, ARTISTS)
+    ]);
+    const response = await client(transport).artistSearch({
+      q_artist: 'adele',
+      format: 'xml'
+    });
+    assert.strictEqual(transport.calls, 3);
+    assert.strictEqual(
+      response.message.body.artist_list[0].artist.artist_name,
+      'Adele'
+    );
+  });
+
+  it('gives up after the last attempt', async () => {
+    const transport = sequence([xmlEnvelope(503)]);
+    await assert.rejects(
+      client(transport).artistSearch({ q_artist: 'adele', format: 'xml' }),
+      RateLimitedError
+    );
+    assert.strictEqual(transport.calls, 3);
+  });
+});